@@ -8,6 +8,8 @@
 
 module.exports = {
   LOG_LEVEL: process.env.LOG_LEVEL || 'debug',
+  // 'pretty' (text lines) or 'json' (one object per line, for log aggregation)
+  LOG_FORMAT: process.env.LOG_FORMAT || 'pretty',
 
   // Kafka
   KAFKA_URL: process.env.KAFKA_URL || 'localhost:9092',
@@ -20,20 +22,107 @@ module.exports = {
     process.env.KAFKA_AUTOPILOT_NOTIFICATIONS_TOPIC || 'notifications.autopilot',
   KAFKA_RATING_SERVICE_TOPIC:
     process.env.KAFKA_RATING_SERVICE_TOPIC || 'rating.calculation.service',
+  // Published only: rating milestones for member notifications
+  KAFKA_RATING_MILESTONE_TOPIC:
+    process.env.KAFKA_RATING_MILESTONE_TOPIC || 'member.rating.milestone',
+  // Review and scoring updates of submissions, consumed with PROVISIONAL_RATINGS_ENABLED
+  KAFKA_SUBMISSION_SCORING_TOPIC:
+    process.env.KAFKA_SUBMISSION_SCORING_TOPIC || 'submission.notification.aggregate',
+
+  // Dead-letter topic for messages that failed permanently or ran out of retries,
+  // and the consumer group used to re-drive them
+  KAFKA_DEAD_LETTER_TOPIC:
+    process.env.KAFKA_DEAD_LETTER_TOPIC || 'member-profile-processor.dead-letter',
+  KAFKA_DEAD_LETTER_REDRIVE_GROUP_ID:
+    process.env.KAFKA_DEAD_LETTER_REDRIVE_GROUP_ID || 'member-profile-processor-redrive',
+
+  // Retries of failed messages (exponential backoff, delays in ms)
+  KAFKA_RETRY_MAX_ATTEMPTS: parseInt(process.env.KAFKA_RETRY_MAX_ATTEMPTS || '5', 10),
+  KAFKA_RETRY_INITIAL_DELAY: parseInt(process.env.KAFKA_RETRY_INITIAL_DELAY || '1000', 10),
+  KAFKA_RETRY_MAX_DELAY: parseInt(process.env.KAFKA_RETRY_MAX_DELAY || '60000', 10),
+  KAFKA_RETRY_MULTIPLIER: parseFloat(process.env.KAFKA_RETRY_MULTIPLIER || '2'),
 
   // Auth0 M2M credentials (for V5 API calls)
   AUTH0_URL: process.env.AUTH0_URL || '',
   AUTH0_CLIENT_ID: process.env.AUTH0_CLIENT_ID || '',
   AUTH0_CLIENT_SECRET: process.env.AUTH0_CLIENT_SECRET || '',
   AUTH0_AUDIENCE: process.env.AUTH0_AUDIENCE || 'https://api.topcoder.com',
+  // Token lifetime (ms) when Auth0 does not give expires_in
   TOKEN_CACHE_TIME: parseInt(process.env.TOKEN_CACHE_TIME || '86400000', 10),
 
   // V5 API
   V5_API_URL: process.env.V5_API_URL || 'https://api.topcoder-dev.com/v5',
+  // Per-call timeout (ms, also used for Auth0), and retries of timeouts, network errors,
+  // 429 and 5xx (exponential backoff with jitter, delays in ms)
+  V5_API_TIMEOUT: parseInt(process.env.V5_API_TIMEOUT || '10000', 10),
+  V5_API_RETRY_MAX_ATTEMPTS: parseInt(process.env.V5_API_RETRY_MAX_ATTEMPTS || '3', 10),
+  V5_API_RETRY_INITIAL_DELAY: parseInt(process.env.V5_API_RETRY_INITIAL_DELAY || '500', 10),
+  V5_API_RETRY_MAX_DELAY: parseInt(process.env.V5_API_RETRY_MAX_DELAY || '5000', 10),
+  // Circuit breaker: failed calls in a row that open it, and how long it stays open (ms)
+  V5_API_CIRCUIT_FAILURE_THRESHOLD: parseInt(process.env.V5_API_CIRCUIT_FAILURE_THRESHOLD || '5', 10),
+  V5_API_CIRCUIT_RESET_TIMEOUT: parseInt(process.env.V5_API_CIRCUIT_RESET_TIMEOUT || '30000', 10),
+  // Requests per second (0 = no limit), and pages read from a list endpoint at most
+  V5_API_RATE_LIMIT: parseInt(process.env.V5_API_RATE_LIMIT || '10', 10),
+  V5_API_MAX_PAGES: parseInt(process.env.V5_API_MAX_PAGES || '100', 10),
+
+  // What a calculation does when the V5 submissions needed to check the
+  // attended flags are unavailable: 'fail', 'defer' (retry later) or 'proceed'
+  ATTENDANCE_UNAVAILABLE_POLICY: process.env.ATTENDANCE_UNAVAILABLE_POLICY || 'defer',
+
+  // Score ingestion: build long_comp_result from the V5 review summations.
+  // SCORE_FIELD is the path of the score in a summation, SCORE_SUMMATION_FILTER
+  // an optional '<path>=<value>' the summations must match, and SCORE_TIE_BREAK
+  // 'shared' or 'earliest_submission'
+  SCORE_INGESTION_ENABLED: process.env.SCORE_INGESTION_ENABLED || 'false',
+  SCORE_FIELD: process.env.SCORE_FIELD || 'aggregateScore',
+  SCORE_SUMMATION_FILTER: process.env.SCORE_SUMMATION_FILTER || '', // e.g. 'metadata.testType=final'
+  SCORE_TIE_BREAK: process.env.SCORE_TIE_BREAK || 'shared',
+
+  // Provisional ratings of matches in progress: projected at most once per
+  // PROVISIONAL_RATING_INTERVAL (ms) per challenge, from the review summations
+  // matching PROVISIONAL_SCORE_SUMMATION_FILTER ('<path>=<value>', empty for all)
+  PROVISIONAL_RATINGS_ENABLED: process.env.PROVISIONAL_RATINGS_ENABLED || 'false',
+  PROVISIONAL_RATING_INTERVAL: parseInt(process.env.PROVISIONAL_RATING_INTERVAL || '60000', 10),
+  PROVISIONAL_SCORE_SUMMATION_FILTER: process.env.PROVISIONAL_SCORE_SUMMATION_FILTER || '',
 
   // PostgreSQL (via Prisma - see DATABASE_URL in .env)
   // No explicit DB config needed here; Prisma reads DATABASE_URL from .env
 
+  // Rating persistence transaction (ms): time to acquire a connection, and
+  // maximum duration of the write phase of a round
+  RATING_TRANSACTION_MAX_WAIT: parseInt(process.env.RATING_TRANSACTION_MAX_WAIT || '10000', 10),
+  RATING_TRANSACTION_TIMEOUT: parseInt(process.env.RATING_TRANSACTION_TIMEOUT || '600000', 10),
+  // Leases (ms) of a claimed event in the processed_event ledger and of a round
+  // lock; a crashed holder blocks the event or round at most this long
+  EVENT_LEASE_TTL: parseInt(process.env.EVENT_LEASE_TTL || '3600000', 10),
+  ROUND_LOCK_TTL: parseInt(process.env.ROUND_LOCK_TTL || '1800000', 10),
+  // Admin jobs (ms): how often a processor refreshes the heartbeat of its jobs, and
+  // how long after its last heartbeat the jobs of a stopped processor are failed
+  JOB_HEARTBEAT_INTERVAL: parseInt(process.env.JOB_HEARTBEAT_INTERVAL || '30000', 10),
+  JOB_HEARTBEAT_TIMEOUT: parseInt(process.env.JOB_HEARTBEAT_TIMEOUT || '120000', 10),
+
+  // Rating types rated from autopilot notifications (names in src/common/ratingTypes.ts)
+  ENABLED_RATING_TYPES: process.env.ENABLED_RATING_TYPES || 'MARATHON_MATCH',
+
+  // Rating algorithm overrides (names in src/libs/algorithm/AlgorithmRegistry.ts), as
+  // comma-separated <key>:<algorithm> pairs; a round's override wins over its type's
+  RATING_ALGORITHM_BY_TYPE: process.env.RATING_ALGORITHM_BY_TYPE || '', // e.g. 'SRM:elo'
+  RATING_ALGORITHM_BY_ROUND: process.env.RATING_ALGORITHM_BY_ROUND || '', // e.g. '10001:glicko2'
+  // Adjustment of coders returning after a break, by version (src/libs/algorithm/InactivityModel.ts):
+  // 'none', 'volatility-v1' or 'decay-v1'
+  RATING_INACTIVITY_MODEL: process.env.RATING_INACTIVITY_MODEL || 'none',
+
+  // Coders written per bulk statement when persisting ratings
+  RATING_PERSIST_BATCH_SIZE: parseInt(process.env.RATING_PERSIST_BATCH_SIZE || '1000', 10),
+
+  // Data warehouse: schema of the processor database the loaders write to
+  DW_SCHEMA: process.env.DW_SCHEMA || 'dw',
+
   // Health check
   HEALTHCHECK_PORT: process.env.HEALTHCHECK_PORT || 3000,
+
+  // Read API (src/api), served next to the Kafka consumer
+  API_PORT: parseInt(process.env.API_PORT || '3001', 10),
+  // Admin API operators, as comma-separated <operator>:<token> pairs; none by default
+  ADMIN_API_TOKENS: process.env.ADMIN_API_TOKENS || '',
 };
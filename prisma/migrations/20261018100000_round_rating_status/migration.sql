@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "round" ADD COLUMN "rating_status" VARCHAR(20) NOT NULL DEFAULT 'PENDING',
+ADD COLUMN "rating_started_at" TIMESTAMP(3),
+ADD COLUMN "rating_finished_at" TIMESTAMP(3),
+ADD COLUMN "rating_error" TEXT;
+
+-- Backfill rounds rated before the status column existed
+UPDATE "round" SET "rating_status" = 'RATED' WHERE "rated_ind" = 1;
@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "rating_history" (
+      "id" SERIAL NOT NULL,
+      "coder_id" INTEGER NOT NULL,
+      "round_id" INTEGER NOT NULL,
+      "algo_rating_type_id" INTEGER NOT NULL,
+      "old_rating" INTEGER,
+      "new_rating" INTEGER NOT NULL,
+      "old_vol" INTEGER,
+      "new_vol" INTEGER NOT NULL,
+      "num_ratings" INTEGER NOT NULL,
+      "expected_rank" DOUBLE PRECISION,
+      "actual_rank" DOUBLE PRECISION,
+      "expected_performance" DOUBLE PRECISION,
+      "actual_performance" DOUBLE PRECISION,
+      "algorithm_version" VARCHAR(50) NOT NULL,
+      "rated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "rating_history_pkey" PRIMARY KEY ("id")
+  );
+
+-- CreateIndex
+CREATE INDEX "rating_history_coder_id_algo_rating_type_id_idx" ON "rating_history"("coder_id", "algo_rating_type_id");
+CREATE INDEX "rating_history_round_id_idx" ON "rating_history"("round_id");
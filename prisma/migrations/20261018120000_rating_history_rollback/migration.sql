@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "rating_history" ADD COLUMN "rolled_back_at" TIMESTAMP(3);
@@ -0,0 +1,28 @@
+-- CreateTable
+CREATE TABLE "processed_event" (
+      "id" SERIAL NOT NULL,
+      "event_key" VARCHAR(500) NOT NULL,
+      "topic" VARCHAR(255) NOT NULL,
+      "round_id" INTEGER,
+      "status" VARCHAR(20) NOT NULL,
+      "owner" VARCHAR(255) NOT NULL,
+      "attempts" INTEGER NOT NULL DEFAULT 1,
+      "error" TEXT,
+      "lease_expires_at" TIMESTAMP(3) NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "updated_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "processed_event_pkey" PRIMARY KEY ("id")
+  );
+
+-- CreateTable
+CREATE TABLE "round_lock" (
+      "round_id" INTEGER NOT NULL,
+      "owner" VARCHAR(255) NOT NULL,
+      "acquired_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "expires_at" TIMESTAMP(3) NOT NULL,
+      CONSTRAINT "round_lock_pkey" PRIMARY KEY ("round_id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "processed_event_event_key_key" ON "processed_event"("event_key");
+CREATE INDEX "processed_event_round_id_idx" ON "processed_event"("round_id");
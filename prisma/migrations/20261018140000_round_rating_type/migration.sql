@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "round" ADD COLUMN "algo_rating_type_id" INTEGER NOT NULL DEFAULT 3;
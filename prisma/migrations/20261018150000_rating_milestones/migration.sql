@@ -0,0 +1,23 @@
+-- AlterTable
+ALTER TABLE "rating_history" ADD COLUMN "old_highest_rating" INTEGER,
+ADD COLUMN "old_lowest_rating" INTEGER;
+
+-- CreateTable
+CREATE TABLE "rating_milestone" (
+      "id" SERIAL NOT NULL,
+      "coder_id" INTEGER NOT NULL,
+      "round_id" INTEGER NOT NULL,
+      "algo_rating_type_id" INTEGER NOT NULL,
+      "milestone_type" VARCHAR(30) NOT NULL,
+      "old_rating" INTEGER,
+      "new_rating" INTEGER NOT NULL,
+      "old_tier" VARCHAR(20),
+      "new_tier" VARCHAR(20) NOT NULL,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "published_at" TIMESTAMP(3),
+      CONSTRAINT "rating_milestone_pkey" PRIMARY KEY ("id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rating_milestone_coder_id_round_id_algo_rating_type_id_mile_key" ON "rating_milestone"("coder_id", "round_id", "algo_rating_type_id", "milestone_type");
+CREATE INDEX "rating_milestone_round_id_idx" ON "rating_milestone"("round_id");
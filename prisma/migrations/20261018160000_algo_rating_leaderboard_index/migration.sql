@@ -0,0 +1,2 @@
+-- CreateIndex
+CREATE INDEX "algo_rating_algo_rating_type_id_rating_idx" ON "algo_rating"("algo_rating_type_id", "rating");
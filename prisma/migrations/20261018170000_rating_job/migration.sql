@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "rating_job" (
+      "id" SERIAL NOT NULL,
+      "operation" VARCHAR(30) NOT NULL,
+      "round_id" INTEGER,
+      "params" JSONB NOT NULL,
+      "status" VARCHAR(20) NOT NULL,
+      "triggered_by" VARCHAR(255) NOT NULL,
+      "instance" VARCHAR(255) NOT NULL,
+      "phases" JSONB NOT NULL DEFAULT '[]',
+      "counts" JSONB,
+      "result" JSONB,
+      "error" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      "started_at" TIMESTAMP(3),
+      "finished_at" TIMESTAMP(3),
+      CONSTRAINT "rating_job_pkey" PRIMARY KEY ("id")
+  );
+
+-- CreateIndex
+CREATE INDEX "rating_job_round_id_idx" ON "rating_job"("round_id");
+CREATE INDEX "rating_job_status_idx" ON "rating_job"("status");
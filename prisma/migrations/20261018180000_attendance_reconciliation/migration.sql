@@ -0,0 +1,18 @@
+-- CreateTable
+CREATE TABLE "attendance_reconciliation" (
+      "id" SERIAL NOT NULL,
+      "round_id" INTEGER NOT NULL,
+      "challenge_id" VARCHAR(64) NOT NULL,
+      "policy" VARCHAR(20) NOT NULL,
+      "outcome" VARCHAR(20) NOT NULL,
+      "final_submissions" INTEGER,
+      "marked_attended" INTEGER NOT NULL DEFAULT 0,
+      "marked_absent" INTEGER NOT NULL DEFAULT 0,
+      "changes" JSONB NOT NULL DEFAULT '[]',
+      "error" TEXT,
+      "created_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "attendance_reconciliation_pkey" PRIMARY KEY ("id")
+  );
+
+-- CreateIndex
+CREATE INDEX "attendance_reconciliation_round_id_idx" ON "attendance_reconciliation"("round_id");
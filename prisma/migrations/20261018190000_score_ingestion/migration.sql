@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "long_comp_result" ADD COLUMN "placed" INTEGER;
+
+-- AlterTable
+ALTER TABLE "attendance_reconciliation" ADD COLUMN "coders_created" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "scores_updated" INTEGER NOT NULL DEFAULT 0;
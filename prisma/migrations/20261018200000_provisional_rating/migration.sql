@@ -0,0 +1,21 @@
+-- CreateTable
+CREATE TABLE "provisional_rating" (
+      "id" SERIAL NOT NULL,
+      "round_id" INTEGER NOT NULL,
+      "coder_id" INTEGER NOT NULL,
+      "algo_rating_type_id" INTEGER NOT NULL,
+      "status" VARCHAR(20) NOT NULL,
+      "score" DECIMAL(14,2) NOT NULL,
+      "old_rating" INTEGER,
+      "old_vol" INTEGER,
+      "new_rating" INTEGER NOT NULL,
+      "new_vol" INTEGER NOT NULL,
+      "expected_rank" DOUBLE PRECISION,
+      "actual_rank" DOUBLE PRECISION,
+      "algorithm_version" VARCHAR(50) NOT NULL,
+      "projected_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      CONSTRAINT "provisional_rating_pkey" PRIMARY KEY ("id")
+  );
+
+-- CreateIndex
+CREATE UNIQUE INDEX "provisional_rating_round_id_coder_id_key" ON "provisional_rating"("round_id", "coder_id");
@@ -0,0 +1,7 @@
+-- AlterTable
+ALTER TABLE "round" ADD COLUMN "round_date" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "rating_history" ADD COLUMN "inactivity_model" VARCHAR(50) NOT NULL DEFAULT 'none',
+ADD COLUMN "days_inactive" INTEGER;
+
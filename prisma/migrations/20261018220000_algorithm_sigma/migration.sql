@@ -0,0 +1,6 @@
+-- AlterTable
+ALTER TABLE "algo_rating" ADD COLUMN "sigma" DOUBLE PRECISION;
+
+-- AlterTable
+ALTER TABLE "rating_history" ADD COLUMN "old_sigma" DOUBLE PRECISION,
+ADD COLUMN "new_sigma" DOUBLE PRECISION;
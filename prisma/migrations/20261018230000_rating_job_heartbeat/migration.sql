@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "rating_job" ADD COLUMN "heartbeat_at" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
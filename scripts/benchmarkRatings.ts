@@ -0,0 +1,83 @@
+/**
+ * Rating benchmark - measures how runRatingProcess scales with round size.
+ *
+ * Run against the seeded Postgres (DATABASE_URL) with:
+ *   npm run benchmark -- 100 1000 5000
+ *
+ * For each size a synthetic round is created (round ids from 900001, coder ids
+ * from 5000001, about two thirds of the coders with an existing rating), rated,
+ * timed and removed again. Seed data is left untouched.
+ */
+import { prisma } from '../src/common/prismaClient';
+import { runRatingProcess } from '../src/services/MarathonRatingsService';
+
+const BASE_ROUND_ID = 900000;
+const BASE_CODER_ID = 5000000;
+const DEFAULT_SIZES = [100, 1000, 5000];
+
+async function seedRound(roundId: number, size: number): Promise<number[]> {
+  const coderIds = Array.from({ length: size }, (_v, i) => BASE_CODER_ID + i + 1);
+
+  await prisma.round.create({ data: { round_id: roundId, rated_ind: 0 } });
+  await prisma.long_comp_result.createMany({
+    data: coderIds.map((coderId) => ({
+      round_id: roundId,
+      coder_id: coderId,
+      attended: 'Y',
+      system_point_total: Math.round(Math.random() * 10000) / 100,
+    })),
+  });
+  await prisma.algo_rating.createMany({
+    data: coderIds
+      .filter((_coderId, i) => i % 3 !== 0)
+      .map((coderId) => ({
+        coder_id: coderId,
+        algo_rating_type_id: 3,
+        rating: 800 + Math.round(Math.random() * 2000),
+        vol: 300 + Math.round(Math.random() * 200),
+        num_ratings: 1 + Math.round(Math.random() * 20),
+      })),
+  });
+
+  return coderIds;
+}
+
+async function cleanUp(roundId: number, coderIds: number[]): Promise<void> {
+  await prisma.rating_history.deleteMany({ where: { round_id: roundId } });
+  await prisma.rating_milestone.deleteMany({ where: { round_id: roundId } });
+  await prisma.long_comp_result.deleteMany({ where: { round_id: roundId } });
+  await prisma.algo_rating.deleteMany({
+    where: { algo_rating_type_id: 3, coder_id: { in: coderIds } },
+  });
+  await prisma.round.deleteMany({ where: { round_id: roundId } });
+}
+
+async function main() {
+  const args = process.argv.slice(2).map((a) => parseInt(a, 10)).filter((n) => n > 0);
+  const sizes = args.length > 0 ? args : DEFAULT_SIZES;
+  const results: { coders: number; ms: number; msPerCoder: number }[] = [];
+
+  for (const size of sizes) {
+    const roundId = BASE_ROUND_ID + size;
+    await cleanUp(roundId, Array.from({ length: size }, (_v, i) => BASE_CODER_ID + i + 1));
+    const coderIds = await seedRound(roundId, size);
+
+    const start = process.hrtime.bigint();
+    try {
+      await runRatingProcess(roundId);
+    } finally {
+      const ms = Number(process.hrtime.bigint() - start) / 1e6;
+      results.push({ coders: size, ms: Math.round(ms), msPerCoder: Number((ms / size).toFixed(3)) });
+      await cleanUp(roundId, coderIds);
+    }
+  }
+
+  console.table(results);
+}
+
+main()
+  .catch((e) => {
+    console.error(e);
+    process.exit(1);
+  })
+  .finally(() => prisma.$disconnect());
@@ -0,0 +1,138 @@
+/**
+ * Admin routes: rating operations as async jobs (see RatingJobService).
+ *
+ *   POST /admin/calculations                  calculate  { challengeId, legacyId, ratingTypeId?, attendancePolicy?, ingestScores?, inactivityModel? }
+ *   POST /admin/rounds/:roundId/load-coders   loadCoders
+ *   POST /admin/rounds/:roundId/load-ratings  loadRatings
+ *   POST /admin/rounds/:roundId/preview       preview    { algorithm?, inactivityModel? }
+ *   POST /admin/rounds/:roundId/rollback      rollback   { cascade?, rerate? }
+ *   GET  /admin/jobs/:jobId                   job status
+ *   GET  /admin/jobs                          jobs, newest first (?roundId, status, limit)
+ *
+ * Every route needs an admin token (auth.ts). Submissions answer 202 with the
+ * QUEUED job and its status URL in Location.
+ */
+
+import express, { Response, Router } from 'express';
+import Joi from 'joi';
+import { ApiError } from '../common/errors';
+import { listAlgorithms } from '../libs/algorithm/AlgorithmRegistry';
+import { listInactivityModels } from '../libs/algorithm/InactivityModel';
+import { ATTENDANCE_POLICIES } from '../services/AttendanceService';
+import {
+  getJob,
+  JobOperation,
+  JobParams,
+  listJobs,
+  JobStatus,
+  submitJob,
+} from '../services/RatingJobService';
+import { requireAdmin } from './auth';
+import { asyncHandler, ratingTypeIdSchema, validate } from './helpers';
+
+const JOB_STATUSES: JobStatus[] = ['QUEUED', 'RUNNING', 'SUCCEEDED', 'FAILED'];
+
+const roundParams = Joi.object({ roundId: Joi.number().integer().positive().required() });
+const jobParams = Joi.object({ jobId: Joi.number().integer().positive().required() });
+
+const inactivityModelSchema = Joi.string()
+  .custom((version: string) => {
+    if (!listInactivityModels().includes(version)) throw new Error(`Unknown inactivity model: ${version}`);
+    return version;
+  })
+  .messages({ 'any.custom': '{{#label}} must be a registered inactivity model' });
+
+const calculationBody = Joi.object({
+  challengeId: Joi.string().required(),
+  legacyId: Joi.number().integer().positive().required(),
+  ratingTypeId: ratingTypeIdSchema,
+  attendancePolicy: Joi.string().valid(...ATTENDANCE_POLICIES),
+  ingestScores: Joi.boolean(),
+  inactivityModel: inactivityModelSchema,
+});
+const previewBody = Joi.object({
+  algorithm: Joi.string()
+    .custom((name: string) => {
+      if (!listAlgorithms().includes(name)) throw new Error(`Unknown algorithm: ${name}`);
+      return name;
+    })
+    .messages({ 'any.custom': '{{#label}} must be a registered algorithm' }),
+  inactivityModel: inactivityModelSchema,
+});
+const rollbackBody = Joi.object({
+  cascade: Joi.boolean().default(false),
+  rerate: Joi.boolean().default(false),
+});
+const jobsQuery = Joi.object({
+  roundId: Joi.number().integer().positive(),
+  status: Joi.string().valid(...JOB_STATUSES),
+  limit: Joi.number().integer().min(1).max(100).default(50),
+});
+
+async function accept<O extends JobOperation>(res: Response, operation: O, params: JobParams[O]): Promise<void> {
+  const job = await submitJob(operation, params, res.locals.operator);
+  res.status(202).location(`/admin/jobs/${job.id}`).json(job);
+}
+
+export function createAdminRoutes(): Router {
+  const router = Router();
+  router.use('/admin', requireAdmin, express.json());
+
+  router.post(
+    '/admin/calculations',
+    asyncHandler(async (req, res) => {
+      await accept(res, 'CALCULATE', validate<JobParams['CALCULATE']>(calculationBody, req.body || {}));
+    })
+  );
+
+  router.post(
+    '/admin/rounds/:roundId/load-coders',
+    asyncHandler(async (req, res) => {
+      await accept(res, 'LOAD_CODERS', validate<{ roundId: number }>(roundParams, req.params));
+    })
+  );
+
+  router.post(
+    '/admin/rounds/:roundId/load-ratings',
+    asyncHandler(async (req, res) => {
+      await accept(res, 'LOAD_RATINGS', validate<{ roundId: number }>(roundParams, req.params));
+    })
+  );
+
+  router.post(
+    '/admin/rounds/:roundId/preview',
+    asyncHandler(async (req, res) => {
+      const { roundId } = validate<{ roundId: number }>(roundParams, req.params);
+      const body = validate<{ algorithm?: string; inactivityModel?: string }>(previewBody, req.body || {});
+      await accept(res, 'PREVIEW', { roundId, ...body });
+    })
+  );
+
+  router.post(
+    '/admin/rounds/:roundId/rollback',
+    asyncHandler(async (req, res) => {
+      const { roundId } = validate<{ roundId: number }>(roundParams, req.params);
+      const body = validate<{ cascade: boolean; rerate: boolean }>(rollbackBody, req.body || {});
+      await accept(res, 'ROLLBACK', { roundId, ...body });
+    })
+  );
+
+  router.get(
+    '/admin/jobs/:jobId',
+    asyncHandler(async (req, res) => {
+      const { jobId } = validate<{ jobId: number }>(jobParams, req.params);
+      const job = await getJob(jobId);
+      if (!job) throw new ApiError(404, `Job ${jobId} not found`);
+      res.json(job);
+    })
+  );
+
+  router.get(
+    '/admin/jobs',
+    asyncHandler(async (req, res) => {
+      res.json(await listJobs(validate(jobsQuery, req.query)));
+    })
+  );
+
+  return router;
+}
@@ -0,0 +1,53 @@
+/**
+ * Authentication of the admin API.
+ *
+ * Operators are configured in ADMIN_API_TOKENS as '<operator>:<token>' pairs;
+ * a request authenticates with 'Authorization: Bearer <token>' and runs as
+ * that operator, which the jobs it submits record as triggered_by. Without
+ * configured tokens every admin request is refused.
+ */
+
+import config from 'config';
+import { timingSafeEqual } from 'crypto';
+import { NextFunction, Request, Response } from 'express';
+import { ApiError } from '../common/errors';
+
+/**
+ * Parse ADMIN_API_TOKENS into operator -> token.
+ */
+function getOperatorTokens(): Map<string, Buffer> {
+  const tokens = new Map<string, Buffer>();
+  for (const pair of String(config.get('ADMIN_API_TOKENS')).split(',')) {
+    const separator = pair.indexOf(':');
+    const operator = pair.slice(0, separator).trim();
+    const token = pair.slice(separator + 1).trim();
+    if (separator > 0 && operator && token) tokens.set(operator, Buffer.from(token));
+  }
+  return tokens;
+}
+
+/**
+ * Get the operator of a bearer token, if any; compared in constant time.
+ */
+export function findOperator(token: string): string | undefined {
+  const given = Buffer.from(token);
+  for (const [operator, expected] of getOperatorTokens()) {
+    if (expected.length === given.length && timingSafeEqual(expected, given)) return operator;
+  }
+  return undefined;
+}
+
+/**
+ * Require an admin token; the operator is put in res.locals.operator.
+ */
+export function requireAdmin(req: Request, res: Response, next: NextFunction): void {
+  const match = /^Bearer\s+(\S+)$/i.exec(req.get('Authorization') || '');
+  const operator = match ? findOperator(match[1]) : undefined;
+  if (!operator) {
+    res.set('WWW-Authenticate', 'Bearer');
+    next(new ApiError(401, 'A valid admin token is required'));
+    return;
+  }
+  res.locals.operator = operator;
+  next();
+}
@@ -0,0 +1,36 @@
+/**
+ * Request helpers shared by the API routes.
+ */
+
+import { NextFunction, Request, Response } from 'express';
+import Joi from 'joi';
+import { ApiError } from '../common/errors';
+import { getRatingType } from '../common/ratingTypes';
+
+/**
+ * A rating type id of the registry.
+ */
+export const ratingTypeIdSchema = Joi.number()
+  .integer()
+  .custom((id: number) => getRatingType(id).id)
+  .messages({ 'any.custom': '{{#label}} must be a known rating type' });
+
+/**
+ * Validate request parameters; throws an ApiError (400) listing the problems.
+ */
+export function validate<T>(schema: Joi.ObjectSchema, value: unknown): T {
+  const { error, value: validated } = schema.validate(value, { abortEarly: false });
+  if (error) {
+    throw new ApiError(400, error.details.map((d) => d.message).join('; '));
+  }
+  return validated as T;
+}
+
+/**
+ * Pass the errors of an async handler to the error middleware.
+ */
+export function asyncHandler(handler: (req: Request, res: Response) => Promise<void>) {
+  return (req: Request, res: Response, next: NextFunction) => {
+    handler(req, res).catch(next);
+  };
+}
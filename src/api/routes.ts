@@ -0,0 +1,126 @@
+/**
+ * Routes of the read API.
+ *
+ *   GET /coders/:coderId/rating          current rating   (?ratingTypeId, default 3)
+ *   GET /coders/:coderId/rating-history  rating timeline  (?ratingTypeId, default 3)
+ *   GET /rounds/:roundId/results         results and rating deltas
+ *   GET /rounds/:roundId/status          rated status
+ *   GET /rounds/:roundId/attendance      attendance reconciliations, newest first
+ *   GET /rounds/:roundId/provisional-ratings  projected (or final) ratings of a match
+ *   GET /leaderboard                     rated coders by rating (?ratingTypeId, page, perPage)
+ *
+ * Path and query parameters are validated with Joi (400 when invalid); the
+ * leaderboard sets X-Page, X-Per-Page, X-Total and X-Total-Pages.
+ */
+
+import { Router } from 'express';
+import Joi from 'joi';
+import { ApiError } from '../common/errors';
+import { DEFAULT_RATING_TYPE_ID } from '../common/ratingTypes';
+import { getReconciliations } from '../services/AttendanceService';
+import { getProvisionalRatings } from '../services/ProvisionalRatingService';
+import { getRatingTimeline } from '../services/RatingHistoryService';
+import {
+  getCoderRating,
+  getLeaderboard,
+  getRoundResults,
+  getRoundStatus,
+} from '../services/RatingQueryService';
+import { asyncHandler, ratingTypeIdSchema, validate } from './helpers';
+
+const MAX_PER_PAGE = 100;
+
+const ratingTypeId = ratingTypeIdSchema.default(DEFAULT_RATING_TYPE_ID);
+
+const coderParams = Joi.object({ coderId: Joi.number().integer().positive().required() });
+const roundParams = Joi.object({ roundId: Joi.number().integer().positive().required() });
+const ratingTypeQuery = Joi.object({ ratingTypeId });
+const leaderboardQuery = Joi.object({
+  ratingTypeId,
+  page: Joi.number().integer().min(1).default(1),
+  perPage: Joi.number().integer().min(1).max(MAX_PER_PAGE).default(20),
+});
+
+export function createRoutes(): Router {
+  const router = Router();
+
+  router.get(
+    '/coders/:coderId/rating',
+    asyncHandler(async (req, res) => {
+      const { coderId } = validate<{ coderId: number }>(coderParams, req.params);
+      const query = validate<{ ratingTypeId: number }>(ratingTypeQuery, req.query);
+      const rating = await getCoderRating(coderId, query.ratingTypeId);
+      if (!rating) {
+        throw new ApiError(404, `Coder ${coderId} has no rating of type ${query.ratingTypeId}`);
+      }
+      res.json(rating);
+    })
+  );
+
+  router.get(
+    '/coders/:coderId/rating-history',
+    asyncHandler(async (req, res) => {
+      const { coderId } = validate<{ coderId: number }>(coderParams, req.params);
+      const query = validate<{ ratingTypeId: number }>(ratingTypeQuery, req.query);
+      res.json(await getRatingTimeline(coderId, query.ratingTypeId));
+    })
+  );
+
+  router.get(
+    '/rounds/:roundId/results',
+    asyncHandler(async (req, res) => {
+      const { roundId } = validate<{ roundId: number }>(roundParams, req.params);
+      const results = await getRoundResults(roundId);
+      if (!results) throw new ApiError(404, `Round ${roundId} not found`);
+      res.json(results);
+    })
+  );
+
+  router.get(
+    '/rounds/:roundId/status',
+    asyncHandler(async (req, res) => {
+      const { roundId } = validate<{ roundId: number }>(roundParams, req.params);
+      const status = await getRoundStatus(roundId);
+      if (!status) throw new ApiError(404, `Round ${roundId} not found`);
+      res.json(status);
+    })
+  );
+
+  router.get(
+    '/rounds/:roundId/attendance',
+    asyncHandler(async (req, res) => {
+      const { roundId } = validate<{ roundId: number }>(roundParams, req.params);
+      res.json(await getReconciliations(roundId));
+    })
+  );
+
+  router.get(
+    '/rounds/:roundId/provisional-ratings',
+    asyncHandler(async (req, res) => {
+      const { roundId } = validate<{ roundId: number }>(roundParams, req.params);
+      const ratings = await getProvisionalRatings(roundId);
+      if (!ratings) throw new ApiError(404, `Round ${roundId} has no provisional ratings`);
+      res.json(ratings);
+    })
+  );
+
+  router.get(
+    '/leaderboard',
+    asyncHandler(async (req, res) => {
+      const query = validate<{ ratingTypeId: number; page: number; perPage: number }>(
+        leaderboardQuery,
+        req.query
+      );
+      const result = await getLeaderboard(query.ratingTypeId, query.page, query.perPage);
+      res.set({
+        'X-Page': String(result.page),
+        'X-Per-Page': String(result.perPage),
+        'X-Total': String(result.total),
+        'X-Total-Pages': String(Math.ceil(result.total / result.perPage)),
+      });
+      res.json(result.entries);
+    })
+  );
+
+  return router;
+}
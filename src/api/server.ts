@@ -0,0 +1,80 @@
+/**
+ * API server - ratings, rating histories, round results and status, and
+ * leaderboards over HTTP, for tools without database access; and the admin
+ * routes that run rating operations as jobs (adminRoutes.ts); and the
+ * Prometheus metrics on /metrics.
+ *
+ * Runs in the processor process next to the Kafka consumer (app.ts), on
+ * API_PORT; the healthcheck keeps its own port.
+ */
+
+import config from 'config';
+import express, { Express, NextFunction, Request, Response } from 'express';
+import { Server } from 'http';
+import { ApiError } from '../common/errors';
+import { createLogger } from '../common/logger';
+import { registry } from '../common/metrics';
+import { createAdminRoutes } from './adminRoutes';
+import { createRoutes } from './routes';
+
+const logger = createLogger('ApiServer');
+
+/**
+ * Build the express application (without listening).
+ */
+export function createApiApp(): Express {
+  const app = express();
+  app.disable('x-powered-by');
+
+  // Prometheus scrape endpoint (no authentication, like the healthcheck)
+  app.get('/metrics', (_req: Request, res: Response, next: NextFunction) => {
+    registry
+      .metrics()
+      .then((metrics) => res.set('Content-Type', registry.contentType).send(metrics))
+      .catch(next);
+  });
+
+  app.use(createRoutes());
+  app.use(createAdminRoutes());
+
+  app.use((_req: Request, _res: Response, next: NextFunction) => {
+    next(new ApiError(404, 'Not found'));
+  });
+
+  // Express recognises error middleware by its four parameters
+  app.use((err: unknown, req: Request, res: Response, next: NextFunction) => {
+    // A response already streaming is closed by Express's default handler
+    if (res.headersSent) {
+      next(err);
+      return;
+    }
+    if (err instanceof ApiError) {
+      res.status(err.status).json({ message: err.message });
+      return;
+    }
+    // body-parser's error for a malformed JSON body
+    if (typeof err === 'object' && err !== null && 'type' in err && err.type === 'entity.parse.failed') {
+      res.status(400).json({ message: 'Invalid JSON body' });
+      return;
+    }
+    logger.error(`${req.method} ${req.originalUrl} failed`, { error: err });
+    res.status(500).json({ message: 'Internal server error' });
+  });
+
+  return app;
+}
+
+/**
+ * Start the API on API_PORT.
+ */
+export function startApiServer(): Promise<Server> {
+  const port = Number(config.get('API_PORT'));
+  return new Promise((resolve, reject) => {
+    const server = createApiApp()
+      .listen(port, () => {
+        logger.info(`API listening on port ${port}`);
+        resolve(server);
+      })
+      .on('error', reject);
+  });
+}
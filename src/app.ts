@@ -1,11 +1,17 @@
 /**
  * Application entry point
  */
-import * as config from 'config'
+import config from 'config'
 import * as Kafka from 'no-kafka'
 import * as helper from './common/helper'
+import { initProducer } from './common/kafkaProducer'
+import { RetryPolicy } from './common/retry'
 import { createLogger, logFullError } from './common/logger'
 import * as KafkaHandlerService from './services/KafkaHandlerService'
+import { createDataHandler } from './services/KafkaConsumerService'
+import { isProvisionalRatingEnabled } from './services/ProvisionalRatingService'
+import { failInterruptedJobs } from './services/RatingJobService'
+import { startApiServer } from './api/server'
 
 const logger = createLogger('App')
 const healthcheck = require('topcoder-healthcheck-dropin')
@@ -15,22 +21,14 @@ logger.info('=== start kafka consumer ===')
 const kafkaOptions = helper.getKafkaOptions()
 const consumer = new Kafka.GroupConsumer(kafkaOptions)
 
-const dataHandler = (messageSet: any[], topic: string, partition: number) =>
-  Promise.all(
-    messageSet.map(async (m: any) => {
-      const message = m.message.value.toString('utf8')
-      logger.info(
-        `Handle kafka event; Topic: ${topic}; Partition: ${partition}; Offset: ${m.offset}`
-      )
-      let messageJSON: any
-      try { messageJSON = JSON.parse(message) }
-      catch (error) { logger.error('Invalid message JSON.'); return }
-
-      try { await KafkaHandlerService.handle(messageJSON) }
-      catch (err) { logger.error('Error handling message', err as Error); logFullError(err as Error) }
-      finally { consumer.commitOffset({ topic, partition, offset: m.offset }) }
-    })
-  )
+const retryPolicy: RetryPolicy = {
+  maxAttempts: config.get('KAFKA_RETRY_MAX_ATTEMPTS') as number,
+  initialDelayMs: config.get('KAFKA_RETRY_INITIAL_DELAY') as number,
+  maxDelayMs: config.get('KAFKA_RETRY_MAX_DELAY') as number,
+  multiplier: config.get('KAFKA_RETRY_MULTIPLIER') as number,
+}
+
+const dataHandler = createDataHandler(consumer, (message) => KafkaHandlerService.handle(message), retryPolicy)
 
 function check(): boolean {
   if (!(consumer as any).client?.initialBrokers?.length) return false
@@ -39,15 +37,25 @@ function check(): boolean {
   return connected
 }
 
-consumer
-  .init([{
+// The producer publishes the rating-service events the consumer chains on,
+// so it must be ready before any message is handled.
+initProducer()
+  .then(() => consumer.init([{
     subscriptions: [
       config.get('KAFKA_AUTOPILOT_NOTIFICATIONS_TOPIC') as string,
       config.get('KAFKA_RATING_SERVICE_TOPIC') as string,
+      ...(isProvisionalRatingEnabled() ? [config.get('KAFKA_SUBMISSION_SCORING_TOPIC') as string] : []),
     ],
     handler: dataHandler,
-  }])
+  }]))
   .then(() => { logger.info('initialized'); healthcheck.init([check]) })
   .catch((err: Error) => logFullError(err))
 
+// The read API only needs the database, so it does not wait for Kafka. Jobs
+// left unfinished by this instance before a restart, or by processors that
+// stopped, are failed first.
+failInterruptedJobs()
+  .then(() => startApiServer())
+  .catch((err: Error) => logFullError(err))
+
 export { consumer as kafkaConsumer }
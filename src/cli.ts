@@ -0,0 +1,309 @@
+/**
+ * Operator CLI for manual rating operations.
+ *
+ * Runs the same services as the Kafka consumer, without going through Kafka:
+ *
+ *   rate      --round <id> | --contest <legacyId> [--type <ratingTypeId>] [--no-publish]
+ *   preview   --round <id> | --contest <legacyId> [--algorithm <name>] [--inactivity <model>]
+ *             [--format json|csv] [--out <file>]
+ *   rollback  --round <id> [--cascade] [--rerate] [--no-publish]
+ *   coder     --coder <id> [--type <ratingTypeId>] [--history]
+ *   unrated
+ *   replay    --file <events.json> [--force] [--no-publish]
+ *   redrive   [--limit <n>]
+ *   milestones --round <id>
+ *   simulate  [--type <ratingTypeId>] [--algorithm <name>] [--params <qubits.json>] [--inactivity <model>]
+ *             [--out <file>]
+ *
+ * Usage: npm run cli -- <command> [options]   (or: node dist/src/cli.js ...)
+ *
+ * Rating events are published to Kafka like the consumer does, so the
+ * loadCoders/loadRatings chain still runs; --no-publish keeps them in memory.
+ * replay skips the events already in the processed_event ledger; --force
+ * handles them again.
+ */
+
+import * as fs from 'fs';
+import { parseArgs } from 'util';
+import { createLogger, logFullError } from './common/logger';
+import { prisma } from './common/prismaClient';
+import {
+  createInMemoryProducer,
+  getProducer,
+  initProducer,
+} from './common/kafkaProducer';
+import * as KafkaHandlerService from './services/KafkaHandlerService';
+import { redriveDeadLetters } from './services/DeadLetterService';
+import { rateRound, resolveRoundId } from './services/MarathonRatingsService';
+import { exportReport, previewRound, PreviewFormat } from './services/RatingPreviewService';
+import { getRatingTimeline } from './services/RatingHistoryService';
+import { rerateRound, rollbackRound } from './services/RatingRollbackService';
+import { runSimulation } from './services/RatingSimulationService';
+import { publishRoundMilestones } from './services/RatingMilestoneService';
+
+const logger = createLogger('CLI');
+
+const USAGE = `Usage: cli <command> [options]
+
+Commands:
+  rate      --round <id> | --contest <legacyId> [--type <ratingTypeId>] [--no-publish]
+  preview   --round <id> | --contest <legacyId> [--algorithm <name>] [--inactivity <model>]
+            [--format json|csv] [--out <file>]
+  rollback  --round <id> [--cascade] [--rerate] [--no-publish]
+  coder     --coder <id> [--type <ratingTypeId>] [--history]
+  unrated
+  replay    --file <events.json> [--force] [--no-publish]
+  redrive   [--limit <n>]
+  milestones --round <id>
+  simulate  [--type <ratingTypeId>] [--algorithm <name>] [--params <qubits.json>] [--inactivity <model>]
+            [--out <file>]
+`;
+
+const OPTIONS = {
+  round: { type: 'string' },
+  contest: { type: 'string' },
+  coder: { type: 'string' },
+  type: { type: 'string' },
+  format: { type: 'string' },
+  algorithm: { type: 'string' },
+  inactivity: { type: 'string' },
+  out: { type: 'string' },
+  file: { type: 'string' },
+  params: { type: 'string' },
+  limit: { type: 'string' },
+  cascade: { type: 'boolean' },
+  rerate: { type: 'boolean' },
+  history: { type: 'boolean' },
+  force: { type: 'boolean' },
+  'no-publish': { type: 'boolean' },
+  help: { type: 'boolean' },
+} as const;
+
+type Options = {
+  [K in keyof typeof OPTIONS]?: (typeof OPTIONS)[K]['type'] extends 'string' ? string : boolean;
+};
+
+// ---------- Helpers ----------
+
+function print(value: unknown): void {
+  process.stdout.write(typeof value === 'string' ? value : `${JSON.stringify(value, null, 2)}\n`);
+}
+
+function toId(value: string | undefined, name: string): number {
+  const id = Number(value);
+  if (!value || !Number.isInteger(id)) {
+    throw new Error(`--${name} must be an integer`);
+  }
+  return id;
+}
+
+/**
+ * Get the round from --round, or resolve it from --contest.
+ */
+async function getRoundId(options: Options): Promise<number> {
+  if (options.round) return toId(options.round, 'round');
+  if (options.contest) return resolveRoundId(toId(options.contest, 'contest'));
+  throw new Error('--round or --contest is required');
+}
+
+/**
+ * Initialise the producer used to publish rating events.
+ */
+async function setUpProducer(options: Options): Promise<void> {
+  await initProducer(options['no-publish'] ? createInMemoryProducer() : undefined);
+}
+
+/**
+ * Read Kafka events from a file: a JSON array, a single JSON object, or one
+ * JSON object per line.
+ */
+function readEvents(file: string): any[] {
+  const content = fs.readFileSync(file, 'utf8').trim();
+  if (content.startsWith('[')) return JSON.parse(content);
+  try {
+    return [JSON.parse(content)];
+  } catch (error) {
+    return content.split('\n').filter((line) => line.trim()).map((line) => JSON.parse(line));
+  }
+}
+
+// ---------- Commands ----------
+
+async function rate(options: Options): Promise<void> {
+  const roundId = await getRoundId(options);
+  // Without --type the round is rated as its recorded rating type
+  const ratingTypeId = options.type ? toId(options.type, 'type') : undefined;
+  await setUpProducer(options);
+  print(await rateRound(roundId, { ratingTypeId }));
+}
+
+async function preview(options: Options): Promise<void> {
+  const format = (options.format || 'json') as PreviewFormat;
+  if (format !== 'json' && format !== 'csv') {
+    throw new Error('--format must be json or csv');
+  }
+
+  const report = await previewRound(await getRoundId(options), options.algorithm, options.inactivity);
+  const output = exportReport(report, format);
+  if (options.out) {
+    fs.writeFileSync(options.out, output);
+    logger.info(`Preview of round ${report.roundId} written to ${options.out}`);
+  } else {
+    print(output);
+  }
+}
+
+async function rollback(options: Options): Promise<void> {
+  const roundId = toId(options.round, 'round');
+  const rollbackOptions = { cascade: !!options.cascade };
+
+  if (options.rerate) {
+    await setUpProducer(options);
+    print(await rerateRound(roundId, rollbackOptions));
+  } else {
+    print(await rollbackRound(roundId, rollbackOptions));
+  }
+}
+
+async function coder(options: Options): Promise<void> {
+  const coderId = toId(options.coder, 'coder');
+  const ratingTypeId = options.type ? toId(options.type, 'type') : undefined;
+
+  const ratings = await prisma.algo_rating.findMany({
+    where: { coder_id: coderId, algo_rating_type_id: ratingTypeId },
+    orderBy: { algo_rating_type_id: 'asc' },
+  });
+  const result: Record<string, any> = { coderId, ratings };
+  if (options.history) {
+    result.history = await getRatingTimeline(coderId, ratingTypeId);
+  }
+  print(result);
+}
+
+async function unrated(): Promise<void> {
+  const rounds = await prisma.round.findMany({
+    where: { rated_ind: 0 },
+    orderBy: { round_id: 'asc' },
+  });
+  const participants = await prisma.long_comp_result.groupBy({
+    by: ['round_id'],
+    where: { round_id: { in: rounds.map((r) => r.round_id) } },
+    _count: { _all: true },
+  });
+  const countByRound = new Map(participants.map((p) => [p.round_id, p._count._all]));
+
+  print(
+    rounds.map((r) => ({
+      roundId: r.round_id,
+      contestId: r.contest_id,
+      ratingTypeId: r.algo_rating_type_id,
+      ratingStatus: r.rating_status,
+      ratingError: r.rating_error,
+      participants: countByRound.get(r.round_id) ?? 0,
+    }))
+  );
+}
+
+async function replay(options: Options): Promise<void> {
+  if (!options.file) throw new Error('--file is required');
+  const events = readEvents(options.file);
+  await setUpProducer(options);
+
+  for (const [i, event] of events.entries()) {
+    logger.info(`Replaying event ${i + 1}/${events.length}; Topic: ${event.topic}`);
+    await KafkaHandlerService.handle(event, { force: options.force });
+  }
+  logger.info(`Replayed ${events.length} events`);
+}
+
+/**
+ * Re-drive dead-letter messages to their source topics.
+ */
+async function redrive(options: Options): Promise<void> {
+  await initProducer();
+  const limit = options.limit ? toId(options.limit, 'limit') : undefined;
+  print({ redriven: await redriveDeadLetters({ limit }) });
+}
+
+/**
+ * Publish the round's pending milestones and list them all.
+ */
+async function milestones(options: Options): Promise<void> {
+  const roundId = toId(options.round, 'round');
+  await initProducer();
+  const published = await publishRoundMilestones(roundId);
+  const rows = await prisma.rating_milestone.findMany({
+    where: { round_id: roundId },
+    orderBy: { id: 'asc' },
+  });
+  print({ roundId, published, milestones: rows });
+}
+
+/**
+ * Replay the rated rounds in memory with an algorithm or Qubits parameter set.
+ */
+async function simulateRounds(options: Options): Promise<void> {
+  const report = await runSimulation({
+    ratingTypeId: options.type ? toId(options.type, 'type') : undefined,
+    algorithm: options.algorithm,
+    qubitsParameters: options.params ? JSON.parse(fs.readFileSync(options.params, 'utf8')) : undefined,
+    inactivityModel: options.inactivity,
+  });
+  if (options.out) {
+    fs.writeFileSync(options.out, JSON.stringify(report, null, 2));
+    logger.info(`Simulation report written to ${options.out}`);
+  } else {
+    print(report);
+  }
+}
+
+const COMMANDS: Record<string, (options: Options) => Promise<void>> = {
+  rate,
+  preview,
+  rollback,
+  coder,
+  unrated,
+  replay,
+  redrive,
+  milestones,
+  simulate: simulateRounds,
+};
+
+// ---------- Main ----------
+
+async function main(): Promise<number> {
+  try {
+    const { values, positionals } = parseArgs({
+      args: process.argv.slice(2),
+      options: OPTIONS,
+      allowPositionals: true,
+    });
+    const options = values as Options;
+    const command: ((options: Options) => Promise<void>) | undefined = COMMANDS[positionals[0]];
+
+    if (!command || options.help) {
+      print(USAGE);
+      return options.help ? 0 : 1;
+    }
+
+    await command(options);
+    return 0;
+  } catch (error) {
+    logFullError(error as Error);
+    return 1;
+  } finally {
+    await prisma.$disconnect();
+    try {
+      await getProducer().end();
+    } catch (error) {
+      // producer was never initialised
+    }
+  }
+}
+
+main()
+  .catch((error) => {
+    logFullError(error);
+    return 1;
+  })
+  .then((code) => process.exit(code));
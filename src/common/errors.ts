@@ -0,0 +1,84 @@
+/**
+ * Error classes and error classification.
+ *
+ * Failed Kafka messages are retried only when the error is transient (database
+ * or network blip, 5xx from the V5 API); permanent errors (invalid message,
+ * bad data, 4xx) go straight to the dead-letter topic.
+ */
+
+import { Prisma } from '@prisma/client';
+
+/**
+ * An error that is known to be transient: retrying may succeed.
+ */
+export class RetryableError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = 'RetryableError';
+  }
+}
+
+/**
+ * An error that retrying cannot fix (invalid message, bad data).
+ */
+export class PermanentError extends Error {
+  constructor(message: string, public cause?: unknown) {
+    super(message);
+    this.name = 'PermanentError';
+  }
+}
+
+// Prisma error codes for lost connections, pool and transaction timeouts,
+// and write conflicts
+const RETRYABLE_PRISMA_CODES = ['P1001', 'P1002', 'P1008', 'P1017', 'P2024', 'P2028', 'P2034'];
+
+// Node.js network error codes
+const RETRYABLE_NETWORK_CODES = [
+  'ECONNRESET',
+  'ECONNREFUSED',
+  'ECONNABORTED',
+  'ETIMEDOUT',
+  'EPIPE',
+  'EAI_AGAIN',
+];
+
+/**
+ * Decide whether an error is worth retrying.
+ * Unknown errors are treated as retryable: a message is only dead-lettered
+ * once the retries are used up.
+ */
+export function isRetryableError(error: any): boolean {
+  if (error instanceof PermanentError) return false;
+  if (error instanceof RetryableError) return true;
+
+  // Prisma
+  if (error instanceof Prisma.PrismaClientKnownRequestError) {
+    return RETRYABLE_PRISMA_CODES.includes(error.code);
+  }
+  if (error instanceof Prisma.PrismaClientValidationError) return false;
+  if (
+    error instanceof Prisma.PrismaClientInitializationError ||
+    error instanceof Prisma.PrismaClientRustPanicError ||
+    error instanceof Prisma.PrismaClientUnknownRequestError
+  ) {
+    return true;
+  }
+
+  // HTTP (superagent): retry rate limiting and server errors only
+  if (typeof error?.status === 'number') {
+    return error.status === 429 || error.status >= 500;
+  }
+  if (error?.timeout || RETRYABLE_NETWORK_CODES.includes(error?.code)) return true;
+
+  return true;
+}
+
+/**
+ * An error answered by the read API with its HTTP status (400, 404).
+ */
+export class ApiError extends Error {
+  constructor(public status: number, message: string) {
+    super(message);
+    this.name = 'ApiError';
+  }
+}
@@ -2,8 +2,10 @@
  * Helper module - Updated for TypeScript/Prisma.
  *
  * Retains V5 API functions needed by KafkaHandlerService for:
- *   - Challenge lookup (getChallengeDetails)
- *   - Submission fetching (getSubmissions, getFinalSubmissions)
+ *   - Challenge lookup (getChallengeDetails, getChallenge)
+ *   - Submission fetching (getSubmissions, getSubmission, getFinalSubmissions)
+ * on top of the V5 client (src/libs/v5: timeouts, retries, circuit breaker,
+ * token refresh, bounded pagination).
  *
  * REMOVED:
  *   - All Informix database connections (replaced by Prisma)
@@ -12,69 +14,67 @@
  *   - initiateLoadCoders()        - now handled locally by MarathonRatingsService
  */
 
-import * as config from 'config';
+import config from 'config';
 import * as _ from 'lodash';
-import request from 'superagent';
-import prefix from 'superagent-prefix';
 import { createLogger } from './logger';
+import { createTokenProvider } from '../libs/v5/TokenProvider';
+import { createV5Client, V5Client } from '../libs/v5/V5Client';
 
 const logger = createLogger('Helper');
 
-// ---------- M2M Auth ----------
+const SUBMISSIONS_PER_PAGE = 500;
 
-let cachedToken: string | null = null;
-let tokenExpiry = 0;
+// ---------- V5 API ----------
+
+let v5Client: V5Client | null = null;
 
 /**
- * Get M2M (machine-to-machine) token for V5 API calls.
- * Implements simple in-memory caching.
+ * Get the V5 API client, configured from the V5_API_* and AUTH0_* settings.
  */
-export async function getM2Mtoken(): Promise<string> {
-  const now = Date.now();
-  if (cachedToken && now < tokenExpiry) {
-    return cachedToken;
-  }
-
-  const auth0Url = config.has('AUTH0_URL') ? (config.get('AUTH0_URL') as string) : '';
-  const clientId = config.has('AUTH0_CLIENT_ID') ? (config.get('AUTH0_CLIENT_ID') as string) : '';
-
-  if (auth0Url && clientId) {
-    try {
-      const clientSecret = config.get('AUTH0_CLIENT_SECRET') as string;
-      const audience = config.get('AUTH0_AUDIENCE') as string;
-      const cacheTime = config.has('TOKEN_CACHE_TIME')
-        ? (config.get('TOKEN_CACHE_TIME') as number)
-        : 86400000;
-
-      const response = await fetch(auth0Url, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          grant_type: 'client_credentials',
-          client_id: clientId,
-          client_secret: clientSecret,
-          audience,
-        }),
-      });
-      const data: any = await response.json();
-      cachedToken = data.access_token;
-      tokenExpiry = now + cacheTime;
-      return cachedToken as string;
-    } catch (error) {
-      logger.error(`Failed to get M2M token: ${error}`);
-      throw error;
-    }
+export function getV5Client(): V5Client {
+  if (!v5Client) {
+    v5Client = createV5Client({
+      baseUrl: config.get('V5_API_URL') as string,
+      tokenProvider: createTokenProvider({
+        auth0Url: config.get('AUTH0_URL') as string,
+        clientId: config.get('AUTH0_CLIENT_ID') as string,
+        clientSecret: config.get('AUTH0_CLIENT_SECRET') as string,
+        audience: config.get('AUTH0_AUDIENCE') as string,
+        timeoutMs: config.get('V5_API_TIMEOUT') as number,
+        fallbackCacheTimeMs: config.get('TOKEN_CACHE_TIME') as number,
+      }),
+      timeoutMs: config.get('V5_API_TIMEOUT') as number,
+      retry: {
+        maxAttempts: config.get('V5_API_RETRY_MAX_ATTEMPTS') as number,
+        initialDelayMs: config.get('V5_API_RETRY_INITIAL_DELAY') as number,
+        maxDelayMs: config.get('V5_API_RETRY_MAX_DELAY') as number,
+        multiplier: 2,
+        jitter: 0.5,
+      },
+      circuitBreaker: {
+        failureThreshold: config.get('V5_API_CIRCUIT_FAILURE_THRESHOLD') as number,
+        resetTimeoutMs: config.get('V5_API_CIRCUIT_RESET_TIMEOUT') as number,
+      },
+      rateLimit: config.get('V5_API_RATE_LIMIT') as number,
+      maxPages: config.get('V5_API_MAX_PAGES') as number,
+    });
   }
-  return '';
+  return v5Client;
 }
 
-// ---------- V5 API ----------
+/**
+ * Replace the V5 API client (tests, the stub server).
+ */
+export function setV5Client(client: V5Client | null): void {
+  v5Client = client;
+}
 
-function getV5Api(token: string) {
-  const apiUrl = config.has('V5_API_URL')
-    ? (config.get('V5_API_URL') as string)
-    : 'https://api.topcoder-dev.com/v5';
-  return request.agent().use(prefix(apiUrl)).set('Authorization', `Bearer ${token}`);
+/**
+ * Get M2M (machine-to-machine) token for V5 API calls.
+ * Cached until it expires (see TokenProvider).
+ */
+export async function getM2Mtoken(): Promise<string> {
+  return getV5Client().tokenProvider.getToken();
 }
 
 /**
@@ -82,30 +82,42 @@ function getV5Api(token: string) {
  * Used by KafkaHandlerService to determine subTrack (marathon_match).
  */
 export async function getChallengeDetails(queryParams: Record<string, any>): Promise<any | null> {
-  const token = await getM2Mtoken();
   logger.info(`Fetching v5 challenge detail using query params: ${JSON.stringify(queryParams)}`);
-  const response = await getV5Api(token).get('/challenges').query(queryParams);
+  const response = await getV5Client().get('/challenges', queryParams);
   const content = _.get(response.body, '[0]');
   return content || null;
 }
 
+/**
+ * Fetch a challenge by its V5 id; null when it does not exist.
+ */
+export async function getChallenge(challengeId: string): Promise<any | null> {
+  try {
+    return (await getV5Client().get(`/challenges/${challengeId}`)).body || null;
+  } catch (error: any) {
+    if (error?.status === 404) return null;
+    throw error;
+  }
+}
+
+/**
+ * Fetch a submission by its id; null when it does not exist.
+ */
+export async function getSubmission(submissionId: string): Promise<any | null> {
+  try {
+    return (await getV5Client().get(`/submissions/${submissionId}`)).body || null;
+  } catch (error: any) {
+    if (error?.status === 404) return null;
+    throw error;
+  }
+}
+
 /**
  * Fetch all submissions for a given challenge from V5 API.
  */
 export async function getSubmissions(challengeId: string): Promise<any[]> {
-  const token = await getM2Mtoken();
   logger.info(`Fetching v5 submissions for challenge: ${challengeId}`);
-  let allSubmissions: any[] = [];
-  const queryParams: any = { challengeId, perPage: 500, page: 1 };
-
-  let response: any;
-  do {
-    response = await getV5Api(token).get('/submissions').query(queryParams);
-    queryParams.page++;
-    allSubmissions = _.concat(allSubmissions, response.body);
-  } while (response.headers['x-total-pages'] !== response.headers['x-page']);
-
-  return allSubmissions;
+  return getV5Client().getAll('/submissions', { challengeId }, SUBMISSIONS_PER_PAGE);
 }
 
 /**
@@ -156,7 +168,7 @@ export function getKafkaOptions(): Record<string, any> {
 export function wrapAsync(fn: (...args: any[]) => Promise<any>) {
   return (...args: any[]) => {
     fn(...args).catch((err: Error) => {
-      logger.error(`Async error: ${err.message}`);
+      logger.error('Async error', { error: err });
     });
   };
 }
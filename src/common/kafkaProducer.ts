@@ -0,0 +1,124 @@
+/**
+ * Kafka producer - publishes events emitted by the processor.
+ *
+ * The processor used to be a pure consumer: the rating-service status events it
+ * reacts to were produced by the external ratings-calculation-service. Now that
+ * the calculation runs locally, the processor publishes those events itself.
+ *
+ * Two implementations share the MessageProducer interface:
+ *   - createKafkaProducer()    - no-kafka Producer, used by app.ts
+ *   - createInMemoryProducer() - records messages in memory, for tests and tooling
+ */
+
+import * as Kafka from 'no-kafka';
+import { getKafkaOptions } from './helper';
+import { createLogger } from './logger';
+
+const logger = createLogger('KafkaProducer');
+
+/**
+ * A message as handed to a producer.
+ */
+export interface ProducedMessage {
+  topic: string;
+  value: string;
+}
+
+/**
+ * Minimal producer contract used by the services.
+ */
+export interface MessageProducer {
+  init(): Promise<void>;
+  send(topic: string, value: string): Promise<void>;
+  end(): Promise<void>;
+}
+
+/**
+ * Producer stand-in that keeps every sent message in memory.
+ */
+export interface InMemoryProducer extends MessageProducer {
+  messages: ProducedMessage[];
+  clear(): void;
+}
+
+/**
+ * Create a producer backed by a no-kafka Producer.
+ */
+export function createKafkaProducer(
+  options: Record<string, any> = getKafkaOptions()
+): MessageProducer {
+  const producer = new Kafka.Producer(options);
+
+  return {
+    async init() {
+      await producer.init();
+    },
+    async send(topic: string, value: string) {
+      const results: any[] = await producer.send({ topic, message: { value } });
+      const failed = (results || []).find((r: any) => r && r.error);
+      if (failed) {
+        throw failed.error;
+      }
+    },
+    async end() {
+      await producer.end();
+    },
+  };
+}
+
+/**
+ * Create a producer that records messages instead of sending them.
+ */
+export function createInMemoryProducer(): InMemoryProducer {
+  const messages: ProducedMessage[] = [];
+
+  return {
+    messages,
+    async init() {
+      // nothing to connect
+    },
+    async send(topic: string, value: string) {
+      messages.push({ topic, value });
+    },
+    async end() {
+      // nothing to disconnect
+    },
+    clear() {
+      messages.length = 0;
+    },
+  };
+}
+
+// ---------- Active producer ----------
+
+let activeProducer: MessageProducer | null = null;
+
+/**
+ * Initialise the given producer (a Kafka producer by default) and make it
+ * the one returned by getProducer().
+ */
+export async function initProducer(
+  producer: MessageProducer = createKafkaProducer()
+): Promise<MessageProducer> {
+  await producer.init();
+  activeProducer = producer;
+  logger.info('Kafka producer initialized');
+  return producer;
+}
+
+/**
+ * Replace the active producer without initialising it (tests, tooling).
+ */
+export function setProducer(producer: MessageProducer | null): void {
+  activeProducer = producer;
+}
+
+/**
+ * Get the active producer.
+ */
+export function getProducer(): MessageProducer {
+  if (!activeProducer) {
+    throw new Error('Kafka producer has not been initialized');
+  }
+  return activeProducer;
+}
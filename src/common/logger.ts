@@ -1,32 +1,126 @@
+/**
+ * Logging.
+ *
+ * LOG_FORMAT selects the output: 'pretty' (one text line per entry) or 'json'
+ * (one JSON object per line, for the log aggregator). Every entry carries the
+ * log context of the work in progress: app.ts opens one per Kafka message
+ * (correlationId topic:partition:offset) and the services add the challengeId
+ * and roundId once known, so one round's rating run can be traced end to end.
+ *
+ * Errors are logged as structured objects: pass them as { error } metadata,
+ * e.g. logger.error('Rating failed', { error }).
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import config from 'config';
 import winston from 'winston';
 
+/**
+ * Fields added to every log entry of a unit of work.
+ */
+export interface LogContext {
+  correlationId: string;
+  topic?: string;
+  partition?: number;
+  offset?: number;
+  challengeId?: string;
+  roundId?: number;
+  jobId?: number;
+}
+
+const contextStorage = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run fn with a log context; the entries logged by everything it calls,
+ * including async work, carry the context.
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return contextStorage.run({ ...context }, fn);
+}
+
+/**
+ * Add fields to the current log context (none outside runWithLogContext).
+ */
+export function addLogContext(fields: Partial<LogContext>): void {
+  const context = contextStorage.getStore();
+  if (context) Object.assign(context, fields);
+}
+
+/**
+ * The current log context, if any.
+ */
+export function getLogContext(): LogContext | undefined {
+  return contextStorage.getStore();
+}
+
+// Causes followed when serializing an error
+const MAX_CAUSE_DEPTH = 3;
+
+/**
+ * Turn an error into a plain object: name, message, stack, the status/code
+ * of HTTP, Prisma and network errors, and its cause.
+ */
+export function serializeError(error: any, depth = 0): Record<string, unknown> {
+  if (!(error instanceof Error)) return { message: String(error) };
+  const serialized: Record<string, unknown> = {
+    name: error.name,
+    message: error.message,
+    stack: error.stack,
+  };
+  const extra = error as any;
+  if (extra.status !== undefined) serialized.status = extra.status;
+  if (extra.code !== undefined) serialized.code = extra.code;
+  if (extra.cause !== undefined && depth < MAX_CAUSE_DEPTH) {
+    serialized.cause = serializeError(extra.cause, depth + 1);
+  }
+  return serialized;
+}
+
+// Adds the logger name and the log context, and serializes { error }
+const enrich = winston.format((info, name: any) => {
+  Object.assign(info, { logger: name }, contextStorage.getStore());
+  if (info.error !== undefined) info.error = serializeError(info.error);
+  return info;
+});
+
+const RESERVED_FIELDS = ['timestamp', 'level', 'message', 'logger', 'error'];
+
+function prettyLine(info: winston.Logform.TransformableInfo): string {
+  const { timestamp, level, message, logger, error } = info as any;
+  const fields = Object.keys(info)
+    .filter((key) => !RESERVED_FIELDS.includes(key) && info[key] !== undefined)
+    .map((key) => `${key}=${typeof info[key] === 'object' ? JSON.stringify(info[key]) : info[key]}`);
+  let line = `${timestamp} [${logger}] [${level.toUpperCase()}]: ${message}`;
+  if (fields.length > 0) line += ` (${fields.join(' ')})`;
+  for (let cause = error; cause; cause = cause.cause) {
+    line += `\n${cause === error ? '' : 'Caused by: '}${cause.stack || cause.message}`;
+  }
+  return line;
+}
+
 /**
  * Create a named logger instance.
  * Compatible with the app.ts import: { createLogger, logFullError }
  */
 export function createLogger(name: string): winston.Logger {
+  const json = config.has('LOG_FORMAT') && config.get('LOG_FORMAT') === 'json';
   return winston.createLogger({
     level: process.env.LOG_LEVEL || 'info',
     format: winston.format.combine(
       winston.format.timestamp(),
-      winston.format.printf(({ timestamp, level, message }) => {
-        return `${timestamp} [${name}] [${level.toUpperCase()}]: ${message}`;
-      })
+      enrich(name),
+      json ? winston.format.json() : winston.format.printf(prettyLine)
     ),
     transports: [new winston.transports.Console()],
   });
 }
 
 /**
- * Log full error details (stack trace, etc.).
+ * Log full error details (stack trace, cause, etc.).
  */
-export function logFullError(err: Error): void {
+export function logFullError(err: Error, message?: string): void {
   const logger = createLogger('ErrorHandler');
-  if (err.stack) {
-    logger.error(err.stack);
-  } else {
-    logger.error(err.message || String(err));
-  }
+  logger.error(message || err.message || String(err), { error: err });
 }
 
 // Default export for modules that use: import logger from './logger'
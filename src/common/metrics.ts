@@ -0,0 +1,100 @@
+/**
+ * Prometheus metrics, served on /metrics by the API server.
+ *
+ * Every metric is prefixed member_profile_processor_; the Node.js process
+ * metrics (CPU, memory, event loop lag, GC) are collected as well.
+ */
+
+import { Counter, Gauge, Histogram, Registry, collectDefaultMetrics } from 'prom-client';
+
+const PREFIX = 'member_profile_processor_';
+
+export const registry = new Registry();
+collectDefaultMetrics({ register: registry, prefix: PREFIX });
+
+// ---------- Kafka consumer ----------
+
+export const messagesConsumed = new Counter({
+  name: `${PREFIX}kafka_messages_consumed_total`,
+  help: 'Kafka messages received by the consumer',
+  labelNames: ['topic'],
+  registers: [registry],
+});
+
+// reason: invalid | permanent | retries_exhausted; the message went to the dead-letter topic
+export const messagesFailed = new Counter({
+  name: `${PREFIX}kafka_messages_failed_total`,
+  help: 'Kafka messages that could not be handled',
+  labelNames: ['topic', 'reason'],
+  registers: [registry],
+});
+
+// reason: not_triggered | not_rated | duplicate | ignored_event | throttled | unhandled_topic
+export const messagesSkipped = new Counter({
+  name: `${PREFIX}kafka_messages_skipped_total`,
+  help: 'Valid Kafka messages that did not lead to any work',
+  labelNames: ['topic', 'reason'],
+  registers: [registry],
+});
+
+export const consumerLag = new Gauge({
+  name: `${PREFIX}kafka_consumer_lag`,
+  help: 'Messages behind the partition high-water mark after the last handled batch',
+  labelNames: ['topic', 'partition'],
+  registers: [registry],
+});
+
+// ---------- Rating calculation ----------
+
+// phase: attendance (pre-process) | load | rate (algorithm) | persist | milestones
+export const ratingPhaseDuration = new Histogram({
+  name: `${PREFIX}rating_phase_duration_seconds`,
+  help: 'Duration of the phases of a rating calculation',
+  labelNames: ['phase'],
+  buckets: [0.05, 0.1, 0.5, 1, 5, 10, 30, 60, 120, 300, 600],
+  registers: [registry],
+});
+
+export const codersRatedPerRound = new Histogram({
+  name: `${PREFIX}rating_round_coders`,
+  help: 'Coders rated per rated round',
+  labelNames: ['rating_type'],
+  buckets: [1, 10, 50, 100, 250, 500, 1000, 2500, 5000, 10000],
+  registers: [registry],
+});
+
+// ---------- V5 API and M2M token ----------
+
+export const v5RequestDuration = new Histogram({
+  name: `${PREFIX}v5_api_request_duration_seconds`,
+  help: 'Latency of the V5 API calls',
+  labelNames: ['endpoint'],
+  buckets: [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30],
+  registers: [registry],
+});
+
+// status: the HTTP status, or 'network' when there was no response
+export const v5RequestErrors = new Counter({
+  name: `${PREFIX}v5_api_errors_total`,
+  help: 'Failed V5 API calls',
+  labelNames: ['endpoint', 'status'],
+  registers: [registry],
+});
+
+// outcome: success | failure
+export const m2mTokenRefreshes = new Counter({
+  name: `${PREFIX}m2m_token_refreshes_total`,
+  help: 'M2M token requests to Auth0 (cache misses)',
+  labelNames: ['outcome'],
+  registers: [registry],
+});
+
+// ---------- Database ----------
+
+// model is 'raw' for $queryRaw/$executeRaw
+export const prismaQueries = new Counter({
+  name: `${PREFIX}prisma_queries_total`,
+  help: 'Prisma client operations',
+  labelNames: ['model', 'action'],
+  registers: [registry],
+});
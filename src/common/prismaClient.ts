@@ -1,7 +1,14 @@
 import { PrismaClient } from '@prisma/client';
+import { prismaQueries } from './metrics';
 
 export const prisma = new PrismaClient({
   log: ['query', 'info', 'warn', 'error'],
 });
 
+// Count every operation, including those of interactive transactions
+prisma.$use(async (params, next) => {
+  prismaQueries.inc({ model: params.model ?? 'raw', action: params.action });
+  return next(params);
+});
+
 export default prisma;
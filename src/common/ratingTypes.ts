@@ -0,0 +1,120 @@
+/**
+ * Rating types handled by the processor.
+ *
+ * A rating type is an algo_rating_type_id: every coder has one algo_rating row
+ * per type. The registry maps the V5 challenge subTrack to its rating type,
+ * the algorithm that rates it and the autopilot phases that trigger it, so
+ * KafkaHandlerService and the rating services stay type-agnostic.
+ *
+ * Only the types listed in ENABLED_RATING_TYPES are rated from autopilot
+ * notifications; the others can still be rated manually (CLI).
+ */
+
+import config from 'config';
+import { prisma } from './prismaClient';
+
+/**
+ * An autopilot phase notification that triggers the rating of a challenge.
+ * Compared case-insensitively with payload.phaseTypeName and payload.state.
+ */
+export interface TriggerRule {
+  phaseTypeName: string;
+  state: string;
+}
+
+export interface RatingType {
+  // algo_rating_type_id
+  id: number;
+  name: string;
+  // V5 legacy.subTrack values rated with this type (lower case)
+  subTracks: string[];
+  // Default rating algorithm (see src/libs/algorithm/AlgorithmRegistry.ts)
+  algorithm: string;
+  triggers: TriggerRule[];
+}
+
+export const SRM_RATING_TYPE: RatingType = {
+  id: 1,
+  name: 'SRM',
+  subTracks: ['srm'],
+  algorithm: 'qubits',
+  triggers: [{ phaseTypeName: 'review', state: 'end' }],
+};
+
+export const MARATHON_MATCH_RATING_TYPE: RatingType = {
+  id: 3,
+  name: 'MARATHON_MATCH',
+  subTracks: ['marathon_match'],
+  algorithm: 'qubits',
+  triggers: [{ phaseTypeName: 'review', state: 'end' }],
+};
+
+/**
+ * Type of rounds with no recorded rating type (rounds rated before types
+ * were tracked were all marathon matches).
+ */
+export const DEFAULT_RATING_TYPE_ID = MARATHON_MATCH_RATING_TYPE.id;
+
+const registry = new Map<number, RatingType>();
+
+/**
+ * Add or replace a rating type.
+ */
+export function registerRatingType(type: RatingType): void {
+  registry.set(type.id, { ...type, subTracks: type.subTracks.map((s) => s.toLowerCase()) });
+}
+
+registerRatingType(SRM_RATING_TYPE);
+registerRatingType(MARATHON_MATCH_RATING_TYPE);
+
+/**
+ * Get a rating type by id. Throws for an unknown id.
+ */
+export function getRatingType(id: number): RatingType {
+  const type = registry.get(id);
+  if (!type) {
+    throw new Error(`Unknown rating type: ${id}`);
+  }
+  return type;
+}
+
+/**
+ * Get the rating type of a challenge subTrack, if any.
+ */
+export function getRatingTypeForSubTrack(subTrack: string | undefined): RatingType | undefined {
+  const key = (subTrack || '').toLowerCase();
+  return [...registry.values()].find((t) => t.subTracks.includes(key));
+}
+
+/**
+ * Rating types rated from autopilot notifications (ENABLED_RATING_TYPES).
+ */
+export function getEnabledRatingTypes(): RatingType[] {
+  const names = String(config.get('ENABLED_RATING_TYPES'))
+    .split(',')
+    .map((n) => n.trim().toUpperCase())
+    .filter(Boolean);
+  return [...registry.values()].filter((t) => names.includes(t.name));
+}
+
+/**
+ * Whether an autopilot phase notification matches one of the type's triggers.
+ */
+export function isTriggeredBy(type: RatingType, phaseTypeName?: string, state?: string): boolean {
+  return type.triggers.some(
+    (t) =>
+      t.phaseTypeName.toLowerCase() === (phaseTypeName || '').toLowerCase() &&
+      t.state.toLowerCase() === (state || '').toLowerCase()
+  );
+}
+
+/**
+ * Get the rating type id recorded on a round.
+ */
+export async function getRoundRatingTypeId(roundId: number): Promise<number> {
+  const round = await prisma.round.findUnique({
+    where: { round_id: roundId },
+    select: { algo_rating_type_id: true },
+  });
+  return round?.algo_rating_type_id ?? DEFAULT_RATING_TYPE_ID;
+}
@@ -0,0 +1,56 @@
+/**
+ * Retry with exponential backoff, optionally with jitter.
+ */
+
+import { isRetryableError } from './errors';
+import { createLogger } from './logger';
+
+const logger = createLogger('Retry');
+
+export interface RetryPolicy {
+  // Total number of attempts, including the first one
+  maxAttempts: number;
+  // Delay before the first retry, doubled (multiplier) on every retry
+  initialDelayMs: number;
+  maxDelayMs: number;
+  multiplier: number;
+  // Fraction of each delay drawn at random (0 = none, 1 = full jitter), so
+  // that clients failing together do not retry together
+  jitter?: number;
+}
+
+/**
+ * Delay before the given retry (1 = first retry).
+ */
+export function getBackoffDelay(policy: RetryPolicy, retry: number): number {
+  const delay = Math.min(policy.initialDelayMs * Math.pow(policy.multiplier, retry - 1), policy.maxDelayMs);
+  const jitter = Math.min(Math.max(policy.jitter ?? 0, 0), 1);
+  return Math.round(delay * (1 - jitter * Math.random()));
+}
+
+export function sleep(ms: number): Promise<void> {
+  return new Promise((resolve) => setTimeout(resolve, ms));
+}
+
+/**
+ * Run fn until it succeeds, the error is not retryable, or the attempts are
+ * used up; the last error is rethrown. fn receives the attempt number (from 1).
+ */
+export async function retryWithBackoff<T>(
+  fn: (attempt: number) => Promise<T>,
+  policy: RetryPolicy,
+  shouldRetry: (error: any) => boolean = isRetryableError
+): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await fn(attempt);
+    } catch (error) {
+      if (attempt >= policy.maxAttempts || !shouldRetry(error)) {
+        throw error;
+      }
+      const delay = getBackoffDelay(policy, attempt);
+      logger.warn(`Attempt ${attempt}/${policy.maxAttempts} failed; retrying in ${delay}ms`, { error });
+      await sleep(delay);
+    }
+  }
+}
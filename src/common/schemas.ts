@@ -0,0 +1,154 @@
+/**
+ * Joi schemas of the Kafka messages handled by the processor.
+ *
+ * KafkaHandlerService validates every message against the schema of its topic
+ * before touching the payload. The schemas are exported so producers and tests
+ * can validate the messages they build. Unknown keys are allowed: only the
+ * fields the processor reads are constrained.
+ */
+
+import config from 'config';
+import Joi from 'joi';
+import { PermanentError } from './errors';
+
+/**
+ * Originator of the rating-service events the handler acts on.
+ */
+export const RATING_SERVICE_ORIGINATOR = 'rating.calculation.service';
+
+/**
+ * Originator of the rating milestone events published by the processor.
+ */
+export const MILESTONE_ORIGINATOR = 'member-profile-processor';
+
+export const RATING_EVENT_TYPES = ['RATINGS_CALCULATION', 'LOAD_CODERS', 'LOAD_RATINGS'];
+
+export const RATING_EVENT_STATUSES = ['SUCCESS', 'FAILURE'];
+
+/**
+ * Common envelope: topic, originator, timestamp, payload.
+ */
+const envelope = {
+  topic: Joi.string().required(),
+  originator: Joi.string().required(),
+  timestamp: Joi.string().isoDate().required(),
+  'mime-type': Joi.string(),
+};
+
+/**
+ * Autopilot phase notification (KAFKA_AUTOPILOT_NOTIFICATIONS_TOPIC).
+ */
+export const autopilotNotificationSchema = Joi.object({
+  ...envelope,
+  payload: Joi.object({
+    projectId: Joi.number().integer().positive().required(),
+    phaseTypeName: Joi.string().required(),
+    state: Joi.string().required(),
+    phaseId: Joi.number().integer(),
+  }).unknown(true).required(),
+}).unknown(true);
+
+/**
+ * Payload of a rating-service status event.
+ */
+export const ratingEventPayloadSchema = Joi.object({
+  event: Joi.string().valid(...RATING_EVENT_TYPES).required(),
+  status: Joi.string().valid(...RATING_EVENT_STATUSES).required(),
+  roundId: Joi.number().integer().required(),
+  error: Joi.object({
+    name: Joi.string(),
+    message: Joi.string().allow(''),
+  }).unknown(true),
+}).unknown(true);
+
+/**
+ * Rating-service event (KAFKA_RATING_SERVICE_TOPIC). Only events of the rating
+ * service originator are acted on, so only their payload is constrained.
+ */
+export const ratingServiceEventSchema = Joi.object({
+  ...envelope,
+  payload: Joi.when('originator', {
+    is: RATING_SERVICE_ORIGINATOR,
+    then: ratingEventPayloadSchema.required(),
+    otherwise: Joi.object().unknown(true).required(),
+  }),
+}).unknown(true);
+
+/**
+ * Review or scoring update of a submission (KAFKA_SUBMISSION_SCORING_TOPIC).
+ * The challenge is given directly or found through the submission.
+ */
+export const submissionScoringSchema = Joi.object({
+  ...envelope,
+  payload: Joi.object({
+    resource: Joi.string().required(),
+    challengeId: Joi.string(),
+    submissionId: Joi.string(),
+  }).unknown(true).required(),
+}).unknown(true);
+
+/**
+ * Rating milestone event (KAFKA_RATING_MILESTONE_TOPIC), published for member
+ * notifications; not consumed by the processor.
+ */
+export const ratingMilestoneEventSchema = Joi.object({
+  ...envelope,
+  payload: Joi.object({
+    milestone: Joi.string().valid('FIRST_RATING', 'PERSONAL_BEST', 'TIER_CHANGE').required(),
+    coderId: Joi.number().integer().required(),
+    roundId: Joi.number().integer().required(),
+    ratingTypeId: Joi.number().integer().required(),
+    oldRating: Joi.number().integer().allow(null).required(),
+    newRating: Joi.number().integer().required(),
+    oldTier: Joi.string().allow(null).required(),
+    newTier: Joi.string().required(),
+  }).unknown(true).required(),
+}).unknown(true);
+
+/**
+ * A validation failure of one field.
+ */
+export interface ValidationIssue {
+  path: string;
+  message: string;
+}
+
+/**
+ * Thrown for a message that does not match its schema. Never retried.
+ */
+export class MessageValidationError extends PermanentError {
+  constructor(public topic: string, public issues: ValidationIssue[]) {
+    super(`Invalid message on ${topic}: ${issues.map((i) => `${i.path}: ${i.message}`).join('; ')}`);
+    this.name = 'MessageValidationError';
+  }
+}
+
+/**
+ * Get the schema of a topic, if it has one.
+ */
+export function getSchemaForTopic(topic: string): Joi.ObjectSchema | undefined {
+  if (topic === config.get('KAFKA_AUTOPILOT_NOTIFICATIONS_TOPIC')) return autopilotNotificationSchema;
+  if (topic === config.get('KAFKA_RATING_SERVICE_TOPIC')) return ratingServiceEventSchema;
+  if (topic === config.get('KAFKA_SUBMISSION_SCORING_TOPIC')) return submissionScoringSchema;
+  return undefined;
+}
+
+/**
+ * Validate a message against the schema of its topic and return it with
+ * values converted (e.g. numeric strings to numbers).
+ * Throws MessageValidationError listing every invalid field.
+ */
+export function validateMessage(message: any): any {
+  const topic: string = message?.topic || '';
+  const schema = getSchemaForTopic(topic);
+  if (!schema) return message;
+
+  const { error, value } = schema.validate(message, { abortEarly: false });
+  if (error) {
+    throw new MessageValidationError(
+      topic,
+      error.details.map((d) => ({ path: d.path.join('.'), message: d.message }))
+    );
+  }
+  return value;
+}
@@ -0,0 +1,64 @@
+/**
+ * AlgorithmElo - Multi-player Elo rating.
+ *
+ * A round is scored as a game between every pair of coders (higher score
+ * wins, equal scores draw). Each coder's rating moves by K times the
+ * difference between the points won and the points expected, averaged over
+ * the opponents. Elo has no volatility: it is passed through unchanged, and
+ * new coders get INITIAL_VOLATILITY, the volatility of a new Qubits coder, so
+ * that another algorithm can take over their ratings.
+ */
+
+import { CoderRating, RatingAlgorithm, isPlaced, pairwiseOutcome, setActualRanks } from './RatingAlgorithm';
+
+export const ELO_VERSION = 'elo-1.2';
+
+const INITIAL_RATING = 1200;
+const INITIAL_VOLATILITY = 515;
+const K_FACTOR = 32;
+
+/**
+ * Probability that a coder rated ra beats a coder rated rb.
+ */
+function expectedScore(ra: number, rb: number): number {
+  return 1 / (1 + Math.pow(10, (rb - ra) / 400));
+}
+
+export function runEloAlgorithm(coders: CoderRating[]): CoderRating[] {
+  const n = coders.length;
+  if (n === 0) return coders;
+  for (const c of coders) {
+    if (c.numRatings === 0) {
+      c.rating = INITIAL_RATING;
+      c.volatility = INITIAL_VOLATILITY;
+    }
+  }
+
+  setActualRanks(coders);
+  const byPlace = isPlaced(coders);
+
+  // Pre-round ratings, so the order of the updates does not matter
+  const ratings = coders.map((c) => c.rating);
+  coders.forEach((ci, i) => {
+    let expected = 0;
+    let actual = 0;
+    coders.forEach((cj, j) => {
+      if (i === j) return;
+      expected += expectedScore(ratings[i], ratings[j]);
+      actual += pairwiseOutcome(ci, cj, byPlace);
+    });
+    ci.expectedRank = n - expected;
+    const change = n > 1 ? (K_FACTOR * (actual - expected)) / (n - 1) : 0;
+    ci.newRating = Math.max(1, Math.round(ratings[i] + change));
+    ci.newVolatility = ci.volatility;
+  });
+
+  for (const c of coders) c.numRatings += 1;
+  return coders;
+}
+
+export const eloAlgorithm: RatingAlgorithm = {
+  name: 'elo',
+  version: ELO_VERSION,
+  rate: runEloAlgorithm,
+};
@@ -0,0 +1,125 @@
+/**
+ * AlgorithmGlicko2 - Glicko-2 rating (Glickman, "Example of the Glicko-2 system").
+ *
+ * A round is one rating period in which every pair of coders played a game
+ * (higher score wins, equal scores draw). The rating deviation (RD) is stored
+ * in the volatility column and the Glicko-2 volatility (sigma) in
+ * algo_rating.sigma; a coder without one starts from INITIAL_SIGMA.
+ */
+
+import { CoderRating, RatingAlgorithm, isPlaced, pairwiseOutcome, setActualRanks } from './RatingAlgorithm';
+
+export const GLICKO2_VERSION = 'glicko2-1.2';
+
+const INITIAL_RATING = 1200;
+const INITIAL_RD = 350;
+const INITIAL_SIGMA = 0.06;
+// System constant: constrains the change of sigma over time
+const TAU = 0.5;
+const SCALE = 173.7178;
+const CONVERGENCE = 0.000001;
+
+function g(phi: number): number {
+  return 1 / Math.sqrt(1 + (3 * phi * phi) / (Math.PI * Math.PI));
+}
+
+function expectation(mu: number, muj: number, phij: number): number {
+  return 1 / (1 + Math.exp(-g(phij) * (mu - muj)));
+}
+
+/**
+ * New volatility (step 5 of the paper, Illinois algorithm).
+ */
+function newSigma(sigma: number, phi: number, v: number, delta: number): number {
+  const a = Math.log(sigma * sigma);
+  const f = (x: number) =>
+    (Math.exp(x) * (delta * delta - phi * phi - v - Math.exp(x))) /
+      (2 * Math.pow(phi * phi + v + Math.exp(x), 2)) -
+    (x - a) / (TAU * TAU);
+
+  let A = a;
+  let B: number;
+  if (delta * delta > phi * phi + v) {
+    B = Math.log(delta * delta - phi * phi - v);
+  } else {
+    let k = 1;
+    while (f(a - k * TAU) < 0) k++;
+    B = a - k * TAU;
+  }
+
+  let fA = f(A);
+  let fB = f(B);
+  while (Math.abs(B - A) > CONVERGENCE) {
+    const C = A + ((A - B) * fA) / (fB - fA);
+    const fC = f(C);
+    if (fC * fB <= 0) {
+      A = B;
+      fA = fB;
+    } else {
+      fA /= 2;
+    }
+    B = C;
+    fB = fC;
+  }
+  return Math.exp(A / 2);
+}
+
+export function runGlicko2Algorithm(coders: CoderRating[]): CoderRating[] {
+  const n = coders.length;
+  if (n === 0) return coders;
+  for (const c of coders) {
+    if (c.numRatings === 0) {
+      c.rating = INITIAL_RATING;
+      c.volatility = INITIAL_RD;
+      c.sigma = INITIAL_SIGMA;
+    }
+  }
+
+  setActualRanks(coders);
+  const byPlace = isPlaced(coders);
+
+  // Glicko-2 scale, from the pre-round ratings
+  const mu = coders.map((c) => (c.rating - INITIAL_RATING) / SCALE);
+  const phi = coders.map((c) => Math.min(c.volatility, INITIAL_RD) / SCALE);
+
+  coders.forEach((ci, i) => {
+    let vInverse = 0;
+    let improvement = 0;
+    let expectedWins = 0;
+    coders.forEach((cj, j) => {
+      if (i === j) return;
+      const e = expectation(mu[i], mu[j], phi[j]);
+      vInverse += g(phi[j]) * g(phi[j]) * e * (1 - e);
+      improvement += g(phi[j]) * (pairwiseOutcome(ci, cj, byPlace) - e);
+      expectedWins += e;
+    });
+    ci.expectedRank = n - expectedWins;
+
+    let newMu = mu[i];
+    let newPhi: number;
+    let sigma = ci.sigma ?? INITIAL_SIGMA;
+    if (n === 1) {
+      // No games: only the deviation grows
+      newPhi = Math.sqrt(phi[i] * phi[i] + sigma * sigma);
+    } else {
+      const v = 1 / vInverse;
+      sigma = newSigma(sigma, phi[i], v, v * improvement);
+      const phiStar = Math.sqrt(phi[i] * phi[i] + sigma * sigma);
+      newPhi = 1 / Math.sqrt(1 / (phiStar * phiStar) + 1 / v);
+      newMu = mu[i] + newPhi * newPhi * improvement;
+    }
+
+    ci.newRating = Math.max(1, Math.round(INITIAL_RATING + SCALE * newMu));
+    ci.newVolatility = Math.round(Math.min(SCALE * newPhi, INITIAL_RD));
+    ci.newSigma = sigma;
+  });
+
+  for (const c of coders) c.numRatings += 1;
+  return coders;
+}
+
+export const glicko2Algorithm: RatingAlgorithm = {
+  name: 'glicko2',
+  version: GLICKO2_VERSION,
+  rate: runGlicko2Algorithm,
+};
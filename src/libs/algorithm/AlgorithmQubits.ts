@@ -4,25 +4,56 @@
  *
  * Faithfully ported from:
  *   com.topcoder.ratings.libs.algorithm.AlgorithmQubits (Java)
+ *
+ * The Java constants are the DEFAULT_QUBITS_PARAMETERS; other parameter sets
+ * are only meant for offline tuning (see RatingSimulator).
  */
 
-export interface CoderRating {
-  coderId: number;
-  rating: number;
-  volatility: number;
-  numRatings: number;
-  score: number;
-  expectedRank?: number;
-  expectedPerformance?: number;
-  actualRank?: number;
-  actualPerformance?: number;
-  newRating?: number;
-  newVolatility?: number;
+import { compareResults, CoderRating, isPlaced, RatingAlgorithm } from './RatingAlgorithm';
+
+export { CoderRating };
+
+/**
+ * Version recorded with every rating produced by this implementation.
+ * Bump it whenever a change alters the computed ratings.
+ */
+export const ALGORITHM_VERSION = 'qubits-1.1';
+
+/**
+ * Tunable constants of the algorithm.
+ */
+export interface QubitsParameters {
+  // Weight of the performance for a coder's first rating, decaying towards finalWeight
+  initialWeight: number;
+  finalWeight: number;
+  // Volatility after the first rating
+  firstVolatility: number;
+  // Starting point of a new coder
+  newCoderRating: number;
+  newCoderVolatility: number;
+  // Weight multipliers of high-rated coders, highest minRating first; the first match applies
+  weightDampening: { minRating: number; factor: number }[];
+  // Maximum change of a rating: capBase + capScale / (capOffset + numRatings)
+  capBase: number;
+  capScale: number;
+  capOffset: number;
 }
 
-const INITIAL_WEIGHT = 0.60;
-const FINAL_WEIGHT = 0.18;
-const FIRST_VOLATILITY = 385;
+export const DEFAULT_QUBITS_PARAMETERS: QubitsParameters = {
+  initialWeight: 0.60,
+  finalWeight: 0.18,
+  firstVolatility: 385,
+  newCoderRating: 1200,
+  newCoderVolatility: 515,
+  weightDampening: [
+    { minRating: 2500, factor: 4.0 / 5.0 },
+    { minRating: 2000, factor: 4.5 / 5.0 },
+  ],
+  capBase: 150,
+  capScale: 1500,
+  capOffset: 2,
+};
+
 const P_LOW = 0.02425;
 const P_HIGH = 1.0 - P_LOW;
 const NORMINV_A = [-3.969683028665376e+01,2.209460984245205e+02,-2.759285104469687e+02,1.383577518672690e+02,-3.066479806614716e+01,2.506628277459239e+00];
@@ -32,6 +63,10 @@ const NORMINV_D = [7.784695709041462e-03,3.224671290700398e-01,2.445134137142996
 
 function sqr(x: number): number { return x * x; }
 
+// Java's Math.round, which rounds NaN to 0: a one-coder round has no
+// standard deviation, and the legacy service stored 0 for it
+function javaRound(x: number): number { return Number.isNaN(x) ? 0 : Math.round(x); }
+
 function erf(z: number): number {
   const t = 1.0 / (1.0 + 0.5 * Math.abs(z));
   const ans = 1 - t * Math.exp(-z*z - 1.26551223 + t*(1.00002368 + t*(0.37409196 + t*(0.09678418 + t*(-0.18628806 + t*(0.27886807 + t*(-1.13520398 + t*(1.48851587 + t*(-0.82215223 + t*0.17087277)))))))));
@@ -71,10 +106,13 @@ function winProbability(r1: number, r2: number, v1: number, v2: number): number
   return (erf((r1 - r2) / Math.sqrt(2.0 * (v1*v1 + v2*v2))) + 1.0) * 0.5;
 }
 
-export function runQubitsAlgorithm(coders: CoderRating[]): CoderRating[] {
+export function runQubitsAlgorithm(
+  coders: CoderRating[],
+  params: QubitsParameters = DEFAULT_QUBITS_PARAMETERS
+): CoderRating[] {
   const n = coders.length;
   if (n === 0) return coders;
-  for (const c of coders) { if (c.numRatings === 0) { c.volatility = 515; c.rating = 1200; } }
+  for (const c of coders) { if (c.numRatings === 0) { c.volatility = params.newCoderVolatility; c.rating = params.newCoderRating; } }
   let rave = 0;
   for (const c of coders) rave += c.rating;
   rave /= n;
@@ -88,38 +126,62 @@ export function runQubitsAlgorithm(coders: CoderRating[]): CoderRating[] {
     ci.expectedPerformance = -normsinv((est - 0.5) / n);
   }
   for (const c of coders) c.actualRank = 0;
+  const byPlace = isPlaced(coders);
   let i = 0;
   while (i < n) {
-    let max = Number.NEGATIVE_INFINITY;
-    let count = 0;
-    for (const c of coders) { if (c.score >= max && c.actualRank === 0) { if (c.score === max) count++; else count = 1; max = c.score; } }
-    for (const c of coders) { if (c.score === max) { c.actualRank = i + 0.5 + count / 2.0; c.actualPerformance = -normsinv((i + count / 2.0) / n); } }
+    // The best unranked result and the coders tied with it
+    let best = coders.find((c) => c.actualRank === 0) as CoderRating;
+    for (const c of coders) { if (c.actualRank === 0 && compareResults(c, best, byPlace) < 0) best = c; }
+    const tied = coders.filter((c) => c.actualRank === 0 && compareResults(c, best, byPlace) === 0);
+    const count = tied.length;
+    for (const c of tied) { c.actualRank = i + 0.5 + count / 2.0; c.actualPerformance = -normsinv((i + count / 2.0) / n); }
     i += count;
   }
   for (const c of coders) {
     const diff = (c.actualPerformance ?? 0) - (c.expectedPerformance ?? 0);
     const oldRating = c.rating;
     const performedAs = oldRating + diff * matchStdDevEquals;
-    let weight = (INITIAL_WEIGHT - FINAL_WEIGHT) / (c.numRatings + 1) + FINAL_WEIGHT;
+    let weight = (params.initialWeight - params.finalWeight) / (c.numRatings + 1) + params.finalWeight;
     weight = 1.0 / (1.0 - weight) - 1.0;
-    if (oldRating >= 2000 && oldRating < 2500) weight = (weight * 4.5) / 5.0;
-    if (oldRating >= 2500) weight = (weight * 4.0) / 5.0;
+    const dampening = params.weightDampening.find((d) => oldRating >= d.minRating);
+    if (dampening) weight = weight * dampening.factor;
     let newRating = (oldRating + weight * performedAs) / (1 + weight);
-    const cap = 150 + 1500 / (2 + c.numRatings);
+    const cap = params.capBase + params.capScale / (params.capOffset + c.numRatings);
     if (oldRating - newRating > cap) newRating = oldRating - cap;
     if (newRating - oldRating > cap) newRating = oldRating + cap;
     if (newRating < 1) newRating = 1;
-    c.newRating = Math.round(newRating);
+    c.newRating = javaRound(newRating);
     if (c.numRatings !== 0) {
-      c.newVolatility = Math.round(Math.sqrt(sqr(c.volatility) / (1 + weight) + sqr(newRating - oldRating) / weight));
+      c.newVolatility = javaRound(Math.sqrt(sqr(c.volatility) / (1 + weight) + sqr(newRating - oldRating) / weight));
     } else {
-      c.newVolatility = Math.round(FIRST_VOLATILITY);
+      c.newVolatility = Math.round(params.firstVolatility);
     }
   }
   for (const c of coders) c.numRatings += 1;
   return coders;
 }
 
+/**
+ * Qubits as a RatingAlgorithm; the default algorithm of every rating type.
+ */
+export const qubitsAlgorithm: RatingAlgorithm = {
+  name: 'qubits',
+  version: ALGORITHM_VERSION,
+  rate: (coders) => runQubitsAlgorithm(coders),
+};
+
+/**
+ * Qubits with another parameter set, for simulations.
+ */
+export function createQubitsAlgorithm(params: Partial<QubitsParameters>): RatingAlgorithm {
+  const merged = { ...DEFAULT_QUBITS_PARAMETERS, ...params };
+  return {
+    name: 'qubits',
+    version: `${ALGORITHM_VERSION}-custom`,
+    rate: (coders) => runQubitsAlgorithm(coders, merged),
+  };
+}
+
 export function processMarathonRatings(coders: CoderRating[]): CoderRating[] {
   if (coders.length === 0) return coders;
   const provCoders = coders.map((c) => ({ ...c }));
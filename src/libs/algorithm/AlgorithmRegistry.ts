@@ -0,0 +1,55 @@
+/**
+ * AlgorithmRegistry - Rating algorithms by name.
+ *
+ * Holds the built-in algorithms (qubits, glicko2, elo); others can be added
+ * with registerAlgorithm and then selected through config like the built-ins.
+ */
+
+import { RatingAlgorithm } from './RatingAlgorithm';
+import { qubitsAlgorithm } from './AlgorithmQubits';
+import { glicko2Algorithm } from './AlgorithmGlicko2';
+import { eloAlgorithm } from './AlgorithmElo';
+
+export const DEFAULT_ALGORITHM = qubitsAlgorithm.name;
+
+const algorithms = new Map<string, RatingAlgorithm>();
+
+/**
+ * Add or replace an algorithm.
+ */
+export function registerAlgorithm(algorithm: RatingAlgorithm): void {
+  algorithms.set(algorithm.name.toLowerCase(), algorithm);
+}
+
+registerAlgorithm(qubitsAlgorithm);
+registerAlgorithm(glicko2Algorithm);
+registerAlgorithm(eloAlgorithm);
+
+/**
+ * Get an algorithm by name. Throws for an unknown name.
+ */
+export function getAlgorithm(name: string): RatingAlgorithm {
+  const algorithm = algorithms.get(name.toLowerCase());
+  if (!algorithm) {
+    throw new Error(`Unknown rating algorithm: ${name} (available: ${listAlgorithms().join(', ')})`);
+  }
+  return algorithm;
+}
+
+/**
+ * Names of the registered algorithms.
+ */
+export function listAlgorithms(): string[] {
+  return [...algorithms.keys()];
+}
+
+/**
+ * Get the algorithm that recorded a version (rating_history.algorithm_version):
+ * the algorithm of that exact version, else the one of the same name (the
+ * version's first part, e.g. 'qubits' of 'qubits-1.0'). Throws when neither
+ * is registered.
+ */
+export function getAlgorithmForVersion(version: string): RatingAlgorithm {
+  const exact = [...algorithms.values()].find((a) => a.version === version);
+  return exact ?? getAlgorithm(version.split('-')[0]);
+}
@@ -0,0 +1,157 @@
+/**
+ * InactivityModel - Adjusts returning coders before a round is rated.
+ *
+ * The algorithms rate a coder back after five years exactly like one who
+ * competed last week. An inactivity model looks at the days since the
+ * coder's last rated round (algo_rating.last_rated_round_id, by round date)
+ * and, before the coder enters the passes, raises the volatility so the
+ * rating moves faster again and may decay the rating.
+ *
+ * Every model has a version recorded in rating_history.inactivity_model, and
+ * its parameters never change under that version: a different adjustment is
+ * a new model (registerInactivityModel), so a round rated again with the
+ * recorded model gives the same ratings.
+ *
+ * Built-in models:
+ *   none           - no adjustment
+ *   volatility-v1  - volatility grows with the time away
+ *   decay-v1       - as volatility-v1, and ratings above 1200 decay towards it
+ */
+
+import { CoderRating } from './RatingAlgorithm';
+
+export const NO_INACTIVITY_MODEL = 'none';
+
+const DAYS_PER_YEAR = 365;
+
+/**
+ * Parameters of a model. The time away counts from the end of the grace
+ * period, in years.
+ */
+export interface InactivityParameters {
+  // Days away without any adjustment
+  graceDays: number;
+  // Volatility added per year away, in quadrature: sqrt(vol^2 + growth^2 * years)
+  volatilityGrowthPerYear: number;
+  // The growth stops here; a higher volatility is kept
+  maxVolatility: number;
+  // Rating lost per year away, at most maxRatingDecay and never below ratingFloor
+  ratingDecayPerYear: number;
+  maxRatingDecay: number;
+  ratingFloor: number;
+}
+
+export interface InactivityModel {
+  // Name used in config and recorded with the ratings
+  version: string;
+  /**
+   * Rating and volatility of a coder back after daysAway days, as a copy;
+   * the coder itself is left unchanged.
+   */
+  adjust(coder: CoderRating, daysAway: number): CoderRating;
+}
+
+/**
+ * A model with fixed parameters. The adjusted rating and volatility are
+ * rounded, as they would be stored.
+ */
+export function createInactivityModel(version: string, params: InactivityParameters): InactivityModel {
+  return {
+    version,
+    adjust(coder, daysAway) {
+      const years = Math.max(0, daysAway - params.graceDays) / DAYS_PER_YEAR;
+      if (years === 0) return { ...coder };
+
+      let volatility = coder.volatility;
+      if (volatility < params.maxVolatility) {
+        const grown = Math.sqrt(volatility ** 2 + params.volatilityGrowthPerYear ** 2 * years);
+        volatility = Math.round(Math.min(params.maxVolatility, grown));
+      }
+
+      let rating = coder.rating;
+      if (rating > params.ratingFloor) {
+        const decay = Math.min(params.maxRatingDecay, params.ratingDecayPerYear * years);
+        rating = Math.round(Math.max(params.ratingFloor, rating - decay));
+      }
+
+      return { ...coder, rating, volatility };
+    },
+  };
+}
+
+const noInactivityModel: InactivityModel = {
+  version: NO_INACTIVITY_MODEL,
+  adjust: (coder) => ({ ...coder }),
+};
+
+/**
+ * Volatility growth of volatility-v1: a coder away six years (five and a half
+ * beyond the grace period) at volatility 300 comes back at about 381, capped
+ * at the volatility of a new Qubits coder.
+ */
+export const VOLATILITY_V1_PARAMETERS: InactivityParameters = {
+  graceDays: 180,
+  volatilityGrowthPerYear: 100,
+  maxVolatility: 515,
+  ratingDecayPerYear: 0,
+  maxRatingDecay: 0,
+  ratingFloor: 0,
+};
+
+export const DECAY_V1_PARAMETERS: InactivityParameters = {
+  ...VOLATILITY_V1_PARAMETERS,
+  ratingDecayPerYear: 50,
+  maxRatingDecay: 300,
+  ratingFloor: 1200,
+};
+
+const models = new Map<string, InactivityModel>();
+
+/**
+ * Add a model. A version already registered is never replaced, since the
+ * ratings it recorded would no longer be reproducible.
+ */
+export function registerInactivityModel(model: InactivityModel): void {
+  const version = model.version.toLowerCase();
+  if (models.has(version)) {
+    throw new Error(`Inactivity model ${model.version} is already registered`);
+  }
+  models.set(version, model);
+}
+
+registerInactivityModel(noInactivityModel);
+registerInactivityModel(createInactivityModel('volatility-v1', VOLATILITY_V1_PARAMETERS));
+registerInactivityModel(createInactivityModel('decay-v1', DECAY_V1_PARAMETERS));
+
+/**
+ * Get a model by version. Throws for an unknown version.
+ */
+export function getInactivityModel(version: string): InactivityModel {
+  const model = models.get(version.toLowerCase());
+  if (!model) {
+    throw new Error(`Unknown inactivity model: ${version} (available: ${listInactivityModels().join(', ')})`);
+  }
+  return model;
+}
+
+/**
+ * Versions of the registered models.
+ */
+export function listInactivityModels(): string[] {
+  return [...models.keys()];
+}
+
+/**
+ * Adjust the returning coders of a round, by their days away (coders without
+ * an entry, such as first-timers, are copied unchanged).
+ */
+export function applyInactivity(
+  model: InactivityModel,
+  coders: CoderRating[],
+  daysAway: Map<number, number>
+): CoderRating[] {
+  return coders.map((c) => {
+    const days = daysAway.get(c.coderId);
+    return days === undefined || c.numRatings === 0 ? { ...c } : model.adjust(c, days);
+  });
+}
@@ -0,0 +1,113 @@
+/**
+ * RatingAlgorithm - Common interface of the rating algorithms.
+ *
+ * An algorithm rates the coders of one pass of a round: it reads rating,
+ * volatility, numRatings and score, and fills in newRating, newVolatility and
+ * the ranks. An algorithm with more state per coder keeps it in its own
+ * fields (Glicko-2: sigma/newSigma), which are stored with the ratings.
+ * Coders with numRatings 0 are new and get the algorithm's initial rating.
+ * The provisional/non-provisional passes (ratePasses) are the same whatever
+ * the algorithm.
+ */
+
+export interface CoderRating {
+  coderId: number;
+  rating: number;
+  volatility: number;
+  numRatings: number;
+  score: number;
+  // Glicko-2 volatility (algo_rating.sigma); unset for a new coder or another algorithm
+  sigma?: number;
+  // Place in the round; separates equal scores when every coder has one (see ScoreIngestionService)
+  placed?: number;
+  expectedRank?: number;
+  expectedPerformance?: number;
+  actualRank?: number;
+  actualPerformance?: number;
+  newRating?: number;
+  newVolatility?: number;
+  newSigma?: number;
+}
+
+export interface RatingAlgorithm {
+  // Name used in config (e.g. 'qubits')
+  name: string;
+  // Recorded with every rating produced; bumped whenever the ratings change
+  version: string;
+  /**
+   * Rate the coders in place and return them. Must set newRating and
+   * newVolatility and increment numRatings of every coder.
+   */
+  rate(coders: CoderRating[]): CoderRating[];
+}
+
+/**
+ * Whether the equal scores of a group are separated by placed: only when
+ * every coder has a place. Separating only the coders that have one would not
+ * be transitive (two placed coders tie an unplaced one, but not each other).
+ */
+export function isPlaced(coders: CoderRating[]): boolean {
+  return coders.every((c) => c.placed !== undefined);
+}
+
+/**
+ * Order of two results: negative when a placed higher than b, 0 for a tie.
+ * Higher scores place higher; with byPlace (see isPlaced), equal scores are
+ * separated by placed.
+ */
+export function compareResults(a: CoderRating, b: CoderRating, byPlace = false): number {
+  if (a.score !== b.score) return a.score > b.score ? -1 : 1;
+  return byPlace ? (a.placed as number) - (b.placed as number) : 0;
+}
+
+/**
+ * Outcome of a against b: 1 win, 0.5 tie, 0 loss.
+ */
+export function pairwiseOutcome(a: CoderRating, b: CoderRating, byPlace = false): number {
+  const order = compareResults(a, b, byPlace);
+  if (order < 0) return 1;
+  if (order > 0) return 0;
+  return 0.5;
+}
+
+/**
+ * Set actualRank from the results (highest first); tied coders share the
+ * average of their ranks, as in AlgorithmQubits.
+ */
+export function setActualRanks(coders: CoderRating[]): void {
+  const byPlace = isPlaced(coders);
+  for (const c of coders) {
+    const better = coders.filter((o) => compareResults(o, c, byPlace) < 0).length;
+    const tied = coders.filter((o) => compareResults(o, c, byPlace) === 0).length;
+    c.actualRank = better + (tied + 1) / 2;
+  }
+}
+
+/**
+ * Result of the two passes of a round.
+ */
+export interface RatingPasses {
+  // Every coder rated together (provisional pass)
+  provisional: CoderRating[];
+  // Coders rated for the first time, from the provisional pass
+  firstTimers: CoderRating[];
+  // Coders with earlier ratings, rated among themselves (non-provisional pass)
+  experienced: CoderRating[];
+}
+
+/**
+ * Rate the coders of a round as MarathonRatingProcess.runProcess() does:
+ *   1. Run the algorithm on ALL coders (provisional), keep first-timers only
+ *   2. Run it on the experienced coders only (non-provisional)
+ * The input coders are not modified.
+ */
+export function ratePasses(algorithm: RatingAlgorithm, coders: CoderRating[]): RatingPasses {
+  const rate = (group: CoderRating[]) => (group.length === 0 ? group : algorithm.rate(group));
+
+  const provisional = rate(coders.map((c) => ({ ...c })));
+  // numRatings === 1 after the run
+  const firstTimers = provisional.filter((c) => c.numRatings === 1);
+  const experienced = rate(coders.filter((c) => c.numRatings > 0).map((c) => ({ ...c })));
+
+  return { provisional, firstTimers, experienced };
+}
@@ -0,0 +1,249 @@
+/**
+ * RatingSimulator - Replays rounds in memory to compare algorithms and
+ * parameter sets.
+ *
+ * Every coder starts unrated; the rounds are rated one after the other with
+ * the same provisional/non-provisional passes as production (ratePasses),
+ * equal scores separated by placed and returning coders adjusted by the
+ * inactivity model (days between their dated rounds), and nothing is
+ * written. The report gives:
+ *   - the final rating distribution
+ *   - rank-prediction accuracy: per round, the Spearman correlation between
+ *     the expected ranks (provisional pass, all coders) and the actual ranks
+ *   - rating inflation: the mean and median rating of all rated coders after
+ *     every round
+ */
+
+import * as _ from 'lodash';
+import { applyInactivity, getInactivityModel, InactivityModel, NO_INACTIVITY_MODEL } from '../algorithm/InactivityModel';
+import { CoderRating, RatingAlgorithm, ratePasses } from '../algorithm/RatingAlgorithm';
+
+/**
+ * Scores of one round; rounds are replayed in the order given.
+ */
+export interface SimulationRound {
+  roundId: number;
+  // round.round_date; rounds without one do not count for the days away
+  roundDate?: Date;
+  results: { coderId: number; score: number; placed?: number }[];
+}
+
+export interface RatingDistribution {
+  coders: number;
+  mean: number;
+  stdDev: number;
+  min: number;
+  max: number;
+  percentiles: Record<'p10' | 'p25' | 'p50' | 'p75' | 'p90' | 'p99', number>;
+  // Coders per rating bucket, keyed by the bucket's lower bound
+  histogram: Record<number, number>;
+}
+
+export interface RoundSimulation {
+  roundId: number;
+  coders: number;
+  // null for rounds with fewer than 2 coders or identical scores
+  spearman: number | null;
+  // Of all coders rated so far, after the round
+  meanRating: number;
+  medianRating: number;
+  ratedCoders: number;
+}
+
+export interface SimulationReport {
+  algorithmVersion: string;
+  inactivityModel: string;
+  rounds: number;
+  finalDistribution: RatingDistribution;
+  accuracy: {
+    // Mean of the per-round correlations
+    meanSpearman: number | null;
+    // Weighted by the number of coders per round
+    weightedSpearman: number | null;
+  };
+  inflation: {
+    // Mean rating after the last round minus after the first
+    meanRatingChange: number;
+    perRound: RoundSimulation[];
+  };
+}
+
+export interface SimulationOptions {
+  // Width of the histogram buckets
+  bucketSize?: number;
+  // Adjustment of returning coders; none by default
+  inactivityModel?: InactivityModel;
+}
+
+interface CoderState {
+  rating: number;
+  volatility: number;
+  numRatings: number;
+  sigma?: number;
+  // Date of the coder's last rated round, when it had one
+  lastRoundDate?: Date;
+}
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// ---------- Statistics ----------
+
+/**
+ * Ranks of the values, 1 for the smallest; ties share the average rank.
+ */
+function rankValues(values: number[]): number[] {
+  const order = values.map((v, i) => ({ v, i })).sort((a, b) => a.v - b.v);
+  const ranks: number[] = new Array(values.length);
+  let start = 0;
+  while (start < order.length) {
+    let end = start;
+    while (end + 1 < order.length && order[end + 1].v === order[start].v) end++;
+    const rank = (start + end) / 2 + 1;
+    for (let k = start; k <= end; k++) ranks[order[k].i] = rank;
+    start = end + 1;
+  }
+  return ranks;
+}
+
+function pearson(x: number[], y: number[]): number | null {
+  const mx = _.mean(x);
+  const my = _.mean(y);
+  let sxy = 0;
+  let sxx = 0;
+  let syy = 0;
+  x.forEach((xi, i) => {
+    sxy += (xi - mx) * (y[i] - my);
+    sxx += (xi - mx) ** 2;
+    syy += (y[i] - my) ** 2;
+  });
+  if (sxx === 0 || syy === 0) return null;
+  return sxy / Math.sqrt(sxx * syy);
+}
+
+/**
+ * Spearman rank correlation of two series.
+ */
+export function spearman(x: number[], y: number[]): number | null {
+  if (x.length < 2) return null;
+  return pearson(rankValues(x), rankValues(y));
+}
+
+function percentile(sorted: number[], p: number): number {
+  if (sorted.length === 0) return 0;
+  const index = Math.min(sorted.length - 1, Math.max(0, Math.ceil((p / 100) * sorted.length) - 1));
+  return sorted[index];
+}
+
+/**
+ * Describe a set of ratings.
+ */
+export function describeDistribution(ratings: number[], bucketSize = 100): RatingDistribution {
+  const sorted = [...ratings].sort((a, b) => a - b);
+  const mean = sorted.length ? _.mean(sorted) : 0;
+  const variance = sorted.length ? _.mean(sorted.map((r) => (r - mean) ** 2)) : 0;
+  return {
+    coders: sorted.length,
+    mean,
+    stdDev: Math.sqrt(variance),
+    min: sorted[0] ?? 0,
+    max: sorted[sorted.length - 1] ?? 0,
+    percentiles: {
+      p10: percentile(sorted, 10),
+      p25: percentile(sorted, 25),
+      p50: percentile(sorted, 50),
+      p75: percentile(sorted, 75),
+      p90: percentile(sorted, 90),
+      p99: percentile(sorted, 99),
+    },
+    histogram: _.countBy(sorted, (r) => Math.floor(r / bucketSize) * bucketSize),
+  };
+}
+
+// ---------- Replay ----------
+
+/**
+ * Replay the rounds with the algorithm, starting from no ratings.
+ */
+export function simulate(
+  rounds: SimulationRound[],
+  algorithm: RatingAlgorithm,
+  options: SimulationOptions = {}
+): SimulationReport {
+  const inactivityModel = options.inactivityModel ?? getInactivityModel(NO_INACTIVITY_MODEL);
+  const states = new Map<number, CoderState>();
+  const perRound: RoundSimulation[] = [];
+
+  for (const round of rounds) {
+    const daysAway = new Map<number, number>();
+    const data: CoderRating[] = round.results.map((r) => {
+      const state = states.get(r.coderId);
+      if (round.roundDate && state?.lastRoundDate) {
+        const days = Math.floor((round.roundDate.getTime() - state.lastRoundDate.getTime()) / MS_PER_DAY);
+        daysAway.set(r.coderId, Math.max(0, days));
+      }
+      return {
+        coderId: r.coderId,
+        rating: state?.rating ?? 0,
+        volatility: state?.volatility ?? 0,
+        numRatings: state?.numRatings ?? 0,
+        score: r.score,
+        ...(r.placed !== undefined ? { placed: r.placed } : {}),
+        ...(state?.sigma !== undefined ? { sigma: state.sigma } : {}),
+      };
+    });
+
+    const { provisional, firstTimers, experienced } = ratePasses(
+      algorithm,
+      applyInactivity(inactivityModel, data, daysAway)
+    );
+
+    for (const c of [...firstTimers, ...experienced]) {
+      states.set(c.coderId, {
+        rating: c.newRating ?? c.rating,
+        volatility: c.newVolatility ?? c.volatility,
+        numRatings: c.numRatings,
+        sigma: c.newSigma,
+        lastRoundDate: round.roundDate,
+      });
+    }
+
+    const ratings = [...states.values()].map((s) => s.rating);
+    const sorted = [...ratings].sort((a, b) => a - b);
+    perRound.push({
+      roundId: round.roundId,
+      coders: data.length,
+      spearman: spearman(
+        provisional.map((c) => c.expectedRank ?? 0),
+        provisional.map((c) => c.actualRank ?? 0)
+      ),
+      meanRating: ratings.length ? _.mean(ratings) : 0,
+      medianRating: percentile(sorted, 50),
+      ratedCoders: ratings.length,
+    });
+  }
+
+  const scored = perRound.filter((r) => r.spearman !== null);
+  const totalCoders = _.sumBy(scored, 'coders');
+
+  return {
+    algorithmVersion: algorithm.version,
+    inactivityModel: inactivityModel.version,
+    rounds: rounds.length,
+    finalDistribution: describeDistribution(
+      [...states.values()].map((s) => s.rating),
+      options.bucketSize
+    ),
+    accuracy: {
+      meanSpearman: scored.length ? _.meanBy(scored, (r) => r.spearman as number) : null,
+      weightedSpearman: totalCoders
+        ? _.sumBy(scored, (r) => (r.spearman as number) * r.coders) / totalCoders
+        : null,
+    },
+    inflation: {
+      meanRatingChange: perRound.length
+        ? perRound[perRound.length - 1].meanRating - perRound[0].meanRating
+        : 0,
+      perRound,
+    },
+  };
+}
@@ -0,0 +1,92 @@
+/**
+ * CircuitBreaker - Stops calling a dependency that keeps failing.
+ *
+ *   CLOSED    - calls go through; failureThreshold failures in a row open it
+ *   OPEN      - calls fail at once with CircuitOpenError for resetTimeoutMs
+ *   HALF_OPEN - one trial call: success closes the circuit, failure reopens it
+ *
+ * Only failures that isFailure accepts count (by default the retryable ones:
+ * timeouts, network errors, 429 and 5xx); a 404 says nothing about the
+ * dependency's health.
+ */
+
+import { isRetryableError, RetryableError } from '../../common/errors';
+
+export type CircuitState = 'CLOSED' | 'OPEN' | 'HALF_OPEN';
+
+/**
+ * Thrown instead of calling while the circuit is open. Retryable: the
+ * dependency may be back by the time the work is retried.
+ */
+export class CircuitOpenError extends RetryableError {
+  constructor(public circuit: string, public retryAt: Date) {
+    super(`Circuit ${circuit} is open until ${retryAt.toISOString()}`);
+    this.name = 'CircuitOpenError';
+  }
+}
+
+export interface CircuitBreakerOptions {
+  name: string;
+  failureThreshold: number;
+  resetTimeoutMs: number;
+  isFailure?: (error: any) => boolean;
+}
+
+export interface CircuitBreaker {
+  run<T>(fn: () => Promise<T>): Promise<T>;
+  getState(): CircuitState;
+}
+
+export function createCircuitBreaker(options: CircuitBreakerOptions): CircuitBreaker {
+  const isFailure = options.isFailure || isRetryableError;
+  let state: CircuitState = 'CLOSED';
+  let failures = 0;
+  let openedAt = 0;
+  let trialInFlight = false;
+
+  function currentState(): CircuitState {
+    if (state === 'OPEN' && Date.now() - openedAt >= options.resetTimeoutMs) {
+      state = 'HALF_OPEN';
+    }
+    return state;
+  }
+
+  function close(): void {
+    state = 'CLOSED';
+    failures = 0;
+  }
+
+  return {
+    async run<T>(fn: () => Promise<T>): Promise<T> {
+      const before = currentState();
+      // While half-open, only the trial call goes through
+      if (before === 'OPEN' || (before === 'HALF_OPEN' && trialInFlight)) {
+        const retryAt = Math.max(openedAt + options.resetTimeoutMs, Date.now());
+        throw new CircuitOpenError(options.name, new Date(retryAt));
+      }
+      const trial = before === 'HALF_OPEN';
+      if (trial) trialInFlight = true;
+
+      try {
+        const result = await fn();
+        close();
+        return result;
+      } catch (error) {
+        if (isFailure(error)) {
+          failures++;
+          if (trial || failures >= options.failureThreshold) {
+            state = 'OPEN';
+            openedAt = Date.now();
+          }
+        } else if (trial) {
+          // The dependency answered: it is up again
+          close();
+        }
+        throw error;
+      } finally {
+        if (trial) trialInFlight = false;
+      }
+    },
+    getState: currentState,
+  };
+}
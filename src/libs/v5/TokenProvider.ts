@@ -0,0 +1,103 @@
+/**
+ * TokenProvider - Auth0 M2M (client credentials) token for the V5 API.
+ *
+ * The token is cached until shortly before the expiry Auth0 gives in
+ * expires_in (fallbackCacheTimeMs when it gives none), and dropped by
+ * invalidate() when the V5 API rejects it with a 401. Concurrent callers
+ * share one token request. Without Auth0 settings the token is empty.
+ */
+
+import { createLogger } from '../../common/logger';
+import { m2mTokenRefreshes } from '../../common/metrics';
+
+const logger = createLogger('TokenProvider');
+
+// Refresh this long before the token expires
+const EXPIRY_MARGIN_MS = 60000;
+
+export interface TokenProviderOptions {
+  auth0Url: string;
+  clientId: string;
+  clientSecret: string;
+  audience: string;
+  timeoutMs: number;
+  fallbackCacheTimeMs: number;
+}
+
+export interface TokenProvider {
+  getToken(): Promise<string>;
+  invalidate(): void;
+}
+
+/**
+ * An Auth0 error response (the request was answered).
+ */
+class TokenRequestError extends Error {
+  constructor(public status: number, body: string) {
+    super(`Auth0 token request failed with ${status}: ${body}`);
+    this.name = 'TokenRequestError';
+  }
+}
+
+export function createTokenProvider(options: TokenProviderOptions): TokenProvider {
+  let token: string | null = null;
+  let expiresAt = 0;
+  let pending: Promise<string> | null = null;
+
+  async function requestToken(): Promise<string> {
+    const response = await fetch(options.auth0Url, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({
+        grant_type: 'client_credentials',
+        client_id: options.clientId,
+        client_secret: options.clientSecret,
+        audience: options.audience,
+      }),
+      signal: AbortSignal.timeout(options.timeoutMs),
+    });
+    if (!response.ok) {
+      throw new TokenRequestError(response.status, await response.text());
+    }
+    const data: any = await response.json();
+    if (!data.access_token) {
+      throw new Error('Auth0 token response has no access_token');
+    }
+
+    const lifetimeMs =
+      typeof data.expires_in === 'number' ? data.expires_in * 1000 : options.fallbackCacheTimeMs;
+    token = data.access_token as string;
+    // Short-lived tokens are kept for half their lifetime rather than not at all
+    expiresAt = Date.now() + Math.max(lifetimeMs - EXPIRY_MARGIN_MS, lifetimeMs / 2);
+    return token;
+  }
+
+  return {
+    async getToken(): Promise<string> {
+      if (!options.auth0Url || !options.clientId) return '';
+      if (token && Date.now() < expiresAt) return token;
+
+      if (!pending) {
+        pending = requestToken()
+          .then((t) => {
+            m2mTokenRefreshes.inc({ outcome: 'success' });
+            return t;
+          })
+          .catch((error) => {
+            m2mTokenRefreshes.inc({ outcome: 'failure' });
+            logger.error('Failed to get M2M token', { error });
+            throw error;
+          })
+          .finally(() => {
+            pending = null;
+          });
+      }
+      return pending;
+    },
+
+    invalidate(): void {
+      token = null;
+      expiresAt = 0;
+    },
+  };
+}
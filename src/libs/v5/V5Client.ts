@@ -0,0 +1,145 @@
+/**
+ * V5Client - Topcoder V5 API client.
+ *
+ * Every GET goes through, innermost first:
+ *   - the M2M token; a 401 drops it and the call is sent once more with a
+ *     fresh token
+ *   - a per-call timeout (timeoutMs, connection to the end of the body)
+ *   - the rate limit (requests per second, 0 = none)
+ *   - the circuit breaker: after failureThreshold failed calls in a row, calls
+ *     fail fast with CircuitOpenError for resetTimeoutMs
+ *   - retries with exponential backoff and jitter for timeouts, network
+ *     errors, 429 and 5xx (never while the circuit is open)
+ *
+ * getAll() pages through a list endpoint. It stops at the page given in
+ * X-Total-Pages; when the header is missing it stops at the first short or
+ * empty page. More than maxPages pages is treated as an error, so a
+ * misbehaving endpoint cannot keep it looping.
+ */
+
+import request from 'superagent';
+import prefix from 'superagent-prefix';
+import { isRetryableError, PermanentError } from '../../common/errors';
+import { createLogger, getLogContext } from '../../common/logger';
+import { v5RequestDuration, v5RequestErrors } from '../../common/metrics';
+import { retryWithBackoff, RetryPolicy, sleep } from '../../common/retry';
+import { CircuitOpenError, createCircuitBreaker, CircuitBreaker } from './CircuitBreaker';
+import { TokenProvider } from './TokenProvider';
+
+const logger = createLogger('V5Client');
+
+export interface V5ClientOptions {
+  baseUrl: string;
+  tokenProvider: TokenProvider;
+  timeoutMs: number;
+  retry: RetryPolicy;
+  circuitBreaker: { failureThreshold: number; resetTimeoutMs: number };
+  // Requests per second; 0 for no limit
+  rateLimit: number;
+  maxPages: number;
+}
+
+export interface V5Response {
+  status: number;
+  body: any;
+  headers: Record<string, string>;
+}
+
+export interface V5Client {
+  get(path: string, query?: Record<string, any>): Promise<V5Response>;
+  getAll(path: string, query?: Record<string, any>, perPage?: number): Promise<any[]>;
+  readonly tokenProvider: TokenProvider;
+  readonly circuit: CircuitBreaker;
+}
+
+/**
+ * Space calls at least 1/rate seconds apart.
+ */
+function createRateLimiter(rate: number): () => Promise<void> {
+  const intervalMs = rate > 0 ? 1000 / rate : 0;
+  let nextSlot = 0;
+  return async () => {
+    if (!intervalMs) return;
+    const now = Date.now();
+    const slot = Math.max(now, nextSlot);
+    nextSlot = slot + intervalMs;
+    if (slot > now) await sleep(slot - now);
+  };
+}
+
+/**
+ * Metric label of a path: the resource, with the ids after it templated
+ * (/submissions/abc -> /submissions/:id), so there is one series per endpoint.
+ */
+export function endpointLabel(path: string): string {
+  const [, resource, ...ids] = path.split('/');
+  return ['', resource, ...ids.map(() => ':id')].join('/');
+}
+
+export function createV5Client(options: V5ClientOptions): V5Client {
+  const circuit = createCircuitBreaker({ name: 'v5-api', ...options.circuitBreaker });
+  const waitForSlot = createRateLimiter(options.rateLimit);
+
+  async function send(path: string, query: Record<string, any>, tokenRefreshed = false): Promise<V5Response> {
+    const token = await options.tokenProvider.getToken();
+    let req = request
+      .agent()
+      .use(prefix(options.baseUrl))
+      .get(path)
+      .query(query)
+      .timeout({ deadline: options.timeoutMs });
+    if (token) req = req.set('Authorization', `Bearer ${token}`);
+    // Lets the V5 API logs be joined with ours
+    const context = getLogContext();
+    if (context) req = req.set('X-Correlation-Id', context.correlationId);
+
+    const endpoint = endpointLabel(path);
+    const end = v5RequestDuration.startTimer({ endpoint });
+    try {
+      const response = await req;
+      return { status: response.status, body: response.body, headers: response.headers };
+    } catch (error: any) {
+      v5RequestErrors.inc({ endpoint, status: error?.status ? String(error.status) : 'network' });
+      if (error?.status === 401 && token && !tokenRefreshed) {
+        logger.info(`V5 API rejected the M2M token for ${path}; refreshing it`);
+        options.tokenProvider.invalidate();
+        return send(path, query, true);
+      }
+      throw error;
+    } finally {
+      end();
+    }
+  }
+
+  async function get(path: string, query: Record<string, any> = {}): Promise<V5Response> {
+    return retryWithBackoff(
+      () =>
+        circuit.run(async () => {
+          await waitForSlot();
+          return send(path, query);
+        }),
+      options.retry,
+      (error) => !(error instanceof CircuitOpenError) && isRetryableError(error)
+    );
+  }
+
+  async function getAll(path: string, query: Record<string, any> = {}, perPage = 100): Promise<any[]> {
+    const items: any[] = [];
+    for (let page = 1; ; page++) {
+      if (page > options.maxPages) {
+        throw new PermanentError(`${path} has more than ${options.maxPages} pages of ${perPage}`);
+      }
+      const response = await get(path, { ...query, page, perPage });
+      const pageItems = Array.isArray(response.body) ? response.body : [];
+      items.push(...pageItems);
+
+      const totalPages = parseInt(response.headers['x-total-pages'], 10);
+      const lastPage = Number.isNaN(totalPages)
+        ? pageItems.length < perPage
+        : page >= totalPages || pageItems.length === 0;
+      if (lastPage) return items;
+    }
+  }
+
+  return { get, getAll, tokenProvider: options.tokenProvider, circuit };
+}
@@ -0,0 +1,204 @@
+/**
+ * PostgresWarehouseTarget - Warehouse tables in a schema of a Postgres database.
+ *
+ * The default target lives in the processor's own database, in the DW_SCHEMA
+ * schema; tests can point it at a throw-away schema. Tables are created on
+ * first use.
+ *
+ * Upserts use INSERT ... ON CONFLICT DO UPDATE ... WHERE the row differs, so a
+ * row is only written when it is new or has changed. load_watermark holds one
+ * row per round and table.
+ */
+
+import { Prisma, PrismaClient } from '@prisma/client';
+import * as _ from 'lodash';
+import {
+  CoderDimensionRow,
+  LoadWatermark,
+  RoundRatingRow,
+  RoundResultRow,
+  WarehouseTable,
+  WarehouseTarget,
+} from './WarehouseTarget';
+
+const SCHEMA_NAME = /^[a-z_][a-z0-9_]*$/i;
+
+const BATCH_SIZE = 1000;
+
+/**
+ * Create a target writing to the given schema.
+ */
+export function createPostgresWarehouseTarget(
+  schema: string,
+  client: PrismaClient
+): WarehouseTarget {
+  if (!SCHEMA_NAME.test(schema)) {
+    throw new Error(`Invalid warehouse schema name: ${schema}`);
+  }
+  const s = Prisma.raw(`"${schema}"`);
+
+  const ddl = [
+    `CREATE SCHEMA IF NOT EXISTS "${schema}"`,
+    `CREATE TABLE IF NOT EXISTS "${schema}".coder_rating_dim (
+      coder_id INTEGER NOT NULL,
+      algo_rating_type_id INTEGER NOT NULL,
+      rating INTEGER,
+      vol INTEGER,
+      num_ratings INTEGER NOT NULL,
+      highest_rating INTEGER,
+      lowest_rating INTEGER,
+      first_rated_round_id INTEGER,
+      last_rated_round_id INTEGER,
+      loaded_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (coder_id, algo_rating_type_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS "${schema}".long_comp_result_fact (
+      round_id INTEGER NOT NULL,
+      coder_id INTEGER NOT NULL,
+      attended VARCHAR(1),
+      system_point_total DECIMAL(14,2),
+      old_rating INTEGER,
+      old_vol INTEGER,
+      new_rating INTEGER,
+      new_vol INTEGER,
+      loaded_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (round_id, coder_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS "${schema}".round_rating_fact (
+      round_id INTEGER NOT NULL,
+      coder_id INTEGER NOT NULL,
+      algo_rating_type_id INTEGER NOT NULL,
+      rating INTEGER,
+      vol INTEGER,
+      num_ratings INTEGER NOT NULL,
+      loaded_at TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+      PRIMARY KEY (round_id, coder_id, algo_rating_type_id)
+    )`,
+    `CREATE TABLE IF NOT EXISTS "${schema}".load_watermark (
+      round_id INTEGER NOT NULL,
+      table_name VARCHAR(50) NOT NULL,
+      rated_at TIMESTAMP(3) NOT NULL,
+      loaded_at TIMESTAMP(3) NOT NULL,
+      rows_loaded INTEGER NOT NULL,
+      PRIMARY KEY (round_id, table_name)
+    )`,
+  ];
+
+  let schemaReady = false;
+
+  async function ensureSchema(): Promise<void> {
+    if (schemaReady) return;
+    for (const statement of ddl) {
+      await client.$executeRawUnsafe(statement);
+    }
+    schemaReady = true;
+  }
+
+  /**
+   * Upsert rows in batches; returns the number of rows written.
+   */
+  async function upsert<T>(rows: T[], write: (batch: T[]) => Promise<number>): Promise<number> {
+    await ensureSchema();
+    let written = 0;
+    for (const batch of _.chunk(rows, BATCH_SIZE)) {
+      written += await write(batch);
+    }
+    return written;
+  }
+
+  return {
+    ensureSchema,
+
+    upsertCoders: (rows: CoderDimensionRow[]) =>
+      upsert(rows, (batch) => client.$executeRaw`
+        INSERT INTO ${s}.coder_rating_dim AS t (
+          coder_id, algo_rating_type_id, rating, vol, num_ratings, highest_rating,
+          lowest_rating, first_rated_round_id, last_rated_round_id
+        )
+        VALUES ${Prisma.join(batch.map((r) => Prisma.sql`(
+          ${r.coderId}::int, ${r.ratingTypeId}::int, ${r.rating}::int, ${r.volatility}::int,
+          ${r.numRatings}::int, ${r.highestRating}::int, ${r.lowestRating}::int,
+          ${r.firstRatedRoundId}::int, ${r.lastRatedRoundId}::int
+        )`))}
+        ON CONFLICT (coder_id, algo_rating_type_id) DO UPDATE
+        SET rating = EXCLUDED.rating,
+            vol = EXCLUDED.vol,
+            num_ratings = EXCLUDED.num_ratings,
+            highest_rating = EXCLUDED.highest_rating,
+            lowest_rating = EXCLUDED.lowest_rating,
+            first_rated_round_id = EXCLUDED.first_rated_round_id,
+            last_rated_round_id = EXCLUDED.last_rated_round_id,
+            loaded_at = CURRENT_TIMESTAMP
+        WHERE (t.rating, t.vol, t.num_ratings, t.highest_rating, t.lowest_rating,
+               t.first_rated_round_id, t.last_rated_round_id)
+          IS DISTINCT FROM
+              (EXCLUDED.rating, EXCLUDED.vol, EXCLUDED.num_ratings, EXCLUDED.highest_rating,
+               EXCLUDED.lowest_rating, EXCLUDED.first_rated_round_id, EXCLUDED.last_rated_round_id)`),
+
+    upsertRoundResults: (rows: RoundResultRow[]) =>
+      upsert(rows, (batch) => client.$executeRaw`
+        INSERT INTO ${s}.long_comp_result_fact AS t (
+          round_id, coder_id, attended, system_point_total, old_rating, old_vol, new_rating, new_vol
+        )
+        VALUES ${Prisma.join(batch.map((r) => Prisma.sql`(
+          ${r.roundId}::int, ${r.coderId}::int, ${r.attended}::varchar, ${r.systemPointTotal}::decimal,
+          ${r.oldRating}::int, ${r.oldVolatility}::int, ${r.newRating}::int, ${r.newVolatility}::int
+        )`))}
+        ON CONFLICT (round_id, coder_id) DO UPDATE
+        SET attended = EXCLUDED.attended,
+            system_point_total = EXCLUDED.system_point_total,
+            old_rating = EXCLUDED.old_rating,
+            old_vol = EXCLUDED.old_vol,
+            new_rating = EXCLUDED.new_rating,
+            new_vol = EXCLUDED.new_vol,
+            loaded_at = CURRENT_TIMESTAMP
+        WHERE (t.attended, t.system_point_total, t.old_rating, t.old_vol, t.new_rating, t.new_vol)
+          IS DISTINCT FROM
+              (EXCLUDED.attended, EXCLUDED.system_point_total, EXCLUDED.old_rating,
+               EXCLUDED.old_vol, EXCLUDED.new_rating, EXCLUDED.new_vol)`),
+
+    upsertRoundRatings: (rows: RoundRatingRow[]) =>
+      upsert(rows, (batch) => client.$executeRaw`
+        INSERT INTO ${s}.round_rating_fact AS t (
+          round_id, coder_id, algo_rating_type_id, rating, vol, num_ratings
+        )
+        VALUES ${Prisma.join(batch.map((r) => Prisma.sql`(
+          ${r.roundId}::int, ${r.coderId}::int, ${r.ratingTypeId}::int, ${r.rating}::int,
+          ${r.volatility}::int, ${r.numRatings}::int
+        )`))}
+        ON CONFLICT (round_id, coder_id, algo_rating_type_id) DO UPDATE
+        SET rating = EXCLUDED.rating,
+            vol = EXCLUDED.vol,
+            num_ratings = EXCLUDED.num_ratings,
+            loaded_at = CURRENT_TIMESTAMP
+        WHERE (t.rating, t.vol, t.num_ratings)
+          IS DISTINCT FROM (EXCLUDED.rating, EXCLUDED.vol, EXCLUDED.num_ratings)`),
+
+    async getWatermark(roundId: number, table: WarehouseTable): Promise<LoadWatermark | null> {
+      await ensureSchema();
+      const rows = await client.$queryRaw<any[]>`
+        SELECT round_id, table_name, rated_at, loaded_at, rows_loaded
+        FROM ${s}.load_watermark WHERE round_id = ${roundId} AND table_name = ${table}`;
+      if (rows.length === 0) return null;
+      return {
+        roundId: rows[0].round_id,
+        table: rows[0].table_name,
+        ratedAt: rows[0].rated_at,
+        loadedAt: rows[0].loaded_at,
+        rowsLoaded: rows[0].rows_loaded,
+      };
+    },
+
+    async setWatermark(watermark: LoadWatermark): Promise<void> {
+      await ensureSchema();
+      await client.$executeRaw`
+        INSERT INTO ${s}.load_watermark (round_id, table_name, rated_at, loaded_at, rows_loaded)
+        VALUES (${watermark.roundId}, ${watermark.table}, ${watermark.ratedAt}, ${watermark.loadedAt},
+          ${watermark.rowsLoaded})
+        ON CONFLICT (round_id, table_name) DO UPDATE
+        SET rated_at = EXCLUDED.rated_at,
+            loaded_at = EXCLUDED.loaded_at,
+            rows_loaded = EXCLUDED.rows_loaded`;
+    },
+  };
+}
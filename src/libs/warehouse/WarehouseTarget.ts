@@ -0,0 +1,81 @@
+/**
+ * WarehouseTarget - Destination of the data-warehouse loads.
+ *
+ * loadCoders() and loadRatings() read from the processor tables and write
+ * through this interface, so the destination can be swapped (e.g. a
+ * throw-away Postgres schema in tests).
+ *
+ * Every upsert is idempotent and returns the number of rows actually written:
+ * rows that are already identical in the warehouse are not rewritten, so
+ * re-running a load reports 0. The load watermarks record, per round and
+ * table, the rating the rows were loaded from.
+ */
+
+/**
+ * Coder dimension: current rating of a coder for a rating type.
+ */
+export interface CoderDimensionRow {
+  coderId: number;
+  ratingTypeId: number;
+  rating: number | null;
+  volatility: number | null;
+  numRatings: number;
+  highestRating: number | null;
+  lowestRating: number | null;
+  firstRatedRoundId: number | null;
+  lastRatedRoundId: number | null;
+}
+
+/**
+ * Result of a coder in a rated round (from long_comp_result).
+ */
+export interface RoundResultRow {
+  roundId: number;
+  coderId: number;
+  attended: string | null;
+  systemPointTotal: number | null;
+  oldRating: number | null;
+  oldVolatility: number | null;
+  newRating: number | null;
+  newVolatility: number | null;
+}
+
+/**
+ * Rating of a coder right after a round (from rating_history).
+ */
+export interface RoundRatingRow {
+  roundId: number;
+  coderId: number;
+  ratingTypeId: number;
+  rating: number | null;
+  volatility: number | null;
+  numRatings: number;
+}
+
+/**
+ * Warehouse tables, each loaded per round.
+ */
+export type WarehouseTable = 'coder_rating_dim' | 'long_comp_result_fact' | 'round_rating_fact';
+
+/**
+ * Last successful load of a round into a table. ratedAt is the round's
+ * rating_finished_at the rows were loaded from: while it is unchanged, the
+ * rows of the round are already in the table.
+ */
+export interface LoadWatermark {
+  roundId: number;
+  table: WarehouseTable;
+  ratedAt: Date;
+  loadedAt: Date;
+  rowsLoaded: number;
+}
+
+export interface WarehouseTarget {
+  // Create the warehouse tables if needed
+  ensureSchema(): Promise<void>;
+  upsertCoders(rows: CoderDimensionRow[]): Promise<number>;
+  upsertRoundResults(rows: RoundResultRow[]): Promise<number>;
+  upsertRoundRatings(rows: RoundRatingRow[]): Promise<number>;
+  getWatermark(roundId: number, table: WarehouseTable): Promise<LoadWatermark | null>;
+  setWatermark(watermark: LoadWatermark): Promise<void>;
+}
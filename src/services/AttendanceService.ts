@@ -0,0 +1,291 @@
+/**
+ * AttendanceService - Reconciles long_comp_result.attended with the V5
+ * submissions of the challenge before a round is rated.
+ *
+ * Both directions are reconciled, for the coders not rated yet:
+ *   'N' -> 'Y'  the coder's last submission has a review summation
+ *   'Y' -> 'N'  the coder has no submission, or the last one was not reviewed
+ *
+ * Without the submissions (V5 API down, or no reviewed submission at all for a
+ * round with attendees, which is far more likely an outage than a round nobody
+ * submitted to) the policy decides, from the run's options or
+ * ATTENDANCE_UNAVAILABLE_POLICY:
+ *   fail    - the run fails (PermanentError: the message is dead-lettered)
+ *   defer   - the run is retried later (AttendanceDeferredError, retryable)
+ *             with the message's backoff; there is no other retry: once the
+ *             retries are used up the message is dead-lettered, and the round
+ *             stays DEFERRED until it is re-driven or calculated by an admin
+ *   proceed - the round is rated with the attended flags it has
+ *
+ * With score ingestion (options.ingestScores, else SCORE_INGESTION_ENABLED)
+ * the coders and scores of the round are first built from the final
+ * submissions (ScoreIngestionService); the coders created are reconciled
+ * like the others.
+ *
+ * Each reconciliation is recorded in attendance_reconciliation with the
+ * coders changed and why.
+ */
+
+import config from 'config';
+import * as _ from 'lodash';
+import { Prisma } from '@prisma/client';
+import { PermanentError, RetryableError } from '../common/errors';
+import { createLogger } from '../common/logger';
+import { prisma } from '../common/prismaClient';
+import { getFinalSubmissions, getSubmissions } from '../common/helper';
+import {
+  CoderScore,
+  ingestScores,
+  IngestionResult,
+  isScoreIngestionEnabled,
+  scoreSubmissions,
+} from './ScoreIngestionService';
+
+const logger = createLogger('AttendanceService');
+
+export type AttendancePolicy = 'fail' | 'defer' | 'proceed';
+
+export const ATTENDANCE_POLICIES: AttendancePolicy[] = ['fail', 'defer', 'proceed'];
+
+/**
+ * RECONCILED  - the flags were checked against the submissions
+ * PROCEEDED   - submissions unavailable; rated with the existing flags
+ * DEFERRED    - submissions unavailable; the message will be retried
+ * FAILED      - submissions unavailable; the run failed
+ */
+export type ReconciliationOutcome = 'RECONCILED' | 'PROCEEDED' | 'DEFERRED' | 'FAILED';
+
+/**
+ * FINAL_SUBMISSION        - marked attended: reviewed last submission
+ * NO_SUBMISSION           - marked absent: no submission at all
+ * NO_REVIEWED_SUBMISSION  - marked absent: the last submission has no review summation
+ */
+export type AttendanceChangeReason = 'FINAL_SUBMISSION' | 'NO_SUBMISSION' | 'NO_REVIEWED_SUBMISSION';
+
+export interface AttendanceChange {
+  coderId: number;
+  oldAttended: string | null;
+  newAttended: 'Y' | 'N';
+  reason: AttendanceChangeReason;
+}
+
+export interface AttendanceReport {
+  roundId: number;
+  challengeId: string;
+  policy: AttendancePolicy;
+  outcome: ReconciliationOutcome;
+  // Null when the submissions were unavailable
+  finalSubmissions: number | null;
+  changes: AttendanceChange[];
+  // Coders created and scores refreshed by the score ingestion
+  scores?: IngestionResult;
+  // Dry runs: the coders and scores the score ingestion would write
+  previewScores?: CoderScore[];
+  error?: string;
+}
+
+/**
+ * Thrown under the defer policy: the round is rated once the submissions can
+ * be fetched.
+ */
+export class AttendanceDeferredError extends RetryableError {
+  constructor(public roundId: number, cause?: unknown) {
+    super(`Rating of round ${roundId} deferred: V5 submissions unavailable`, cause);
+    this.name = 'AttendanceDeferredError';
+  }
+}
+
+/**
+ * The configured policy; an unknown value is treated as defer, which never
+ * rates with unchecked flags.
+ */
+export function getAttendancePolicy(): AttendancePolicy {
+  const policy = String(config.get('ATTENDANCE_UNAVAILABLE_POLICY')).toLowerCase() as AttendancePolicy;
+  return ATTENDANCE_POLICIES.includes(policy) ? policy : 'defer';
+}
+
+/**
+ * Compare the attended flags of the unrated coders with their submissions.
+ */
+function diffAttendance(
+  entries: { coder_id: number; attended: string | null }[],
+  submissions: any[],
+  finalSubmissions: any[]
+): AttendanceChange[] {
+  const submitted = new Set(submissions.map((s) => s.memberId));
+  const reviewed = new Set(finalSubmissions.map((s) => s.memberId));
+  const changes: AttendanceChange[] = [];
+
+  for (const entry of entries) {
+    const attended = (entry.attended || 'N').toUpperCase() === 'Y';
+    if (reviewed.has(entry.coder_id) && !attended) {
+      changes.push({ coderId: entry.coder_id, oldAttended: entry.attended, newAttended: 'Y', reason: 'FINAL_SUBMISSION' });
+    } else if (!reviewed.has(entry.coder_id) && attended) {
+      changes.push({
+        coderId: entry.coder_id,
+        oldAttended: entry.attended,
+        newAttended: 'N',
+        reason: submitted.has(entry.coder_id) ? 'NO_REVIEWED_SUBMISSION' : 'NO_SUBMISSION',
+      });
+    }
+  }
+  return changes;
+}
+
+async function recordReport(client: Prisma.TransactionClient, report: AttendanceReport): Promise<void> {
+  await client.attendance_reconciliation.create({
+    data: {
+      round_id: report.roundId,
+      challenge_id: report.challengeId,
+      policy: report.policy,
+      outcome: report.outcome,
+      final_submissions: report.finalSubmissions,
+      marked_attended: report.changes.filter((c) => c.newAttended === 'Y').length,
+      marked_absent: report.changes.filter((c) => c.newAttended === 'N').length,
+      coders_created: report.scores?.created ?? 0,
+      scores_updated: report.scores?.updated ?? 0,
+      changes: report.changes.map((c) => ({ ...c })),
+      error: report.error ?? null,
+    },
+  });
+}
+
+/**
+ * Apply the policy when the submissions cannot be used. Returns the report of
+ * a run that proceeds, throws otherwise.
+ */
+async function handleUnavailable(
+  report: AttendanceReport,
+  cause: unknown,
+  dryRun: boolean
+): Promise<AttendanceReport> {
+  const outcomes: Record<AttendancePolicy, ReconciliationOutcome> = {
+    fail: 'FAILED',
+    defer: 'DEFERRED',
+    proceed: 'PROCEEDED',
+  };
+  report.outcome = outcomes[report.policy];
+  report.error = String((cause as any)?.message || cause);
+  if (!dryRun) await recordReport(prisma, report);
+
+  if (report.policy === 'proceed') {
+    logger.warn(`V5 submissions unavailable for round ${report.roundId}; rating with the existing attended flags`, {
+      error: cause,
+    });
+    return report;
+  }
+  if (report.policy === 'defer') {
+    throw new AttendanceDeferredError(report.roundId, cause);
+  }
+  throw new PermanentError(`V5 submissions unavailable for round ${report.roundId}`, cause);
+}
+
+/**
+ * Reconcile the attended flags of a round with the challenge's submissions.
+ * With dryRun the changes, and the scores the ingestion would write, are only
+ * reported: no flag, score or report is written.
+ */
+export async function reconcileAttendance(
+  challengeId: string,
+  roundId: number,
+  options: { dryRun?: boolean; policy?: AttendancePolicy; ingestScores?: boolean } = {}
+): Promise<AttendanceReport> {
+  const dryRun = !!options.dryRun;
+  const report: AttendanceReport = {
+    roundId,
+    challengeId,
+    policy: options.policy || getAttendancePolicy(),
+    outcome: 'RECONCILED',
+    finalSubmissions: null,
+    changes: [],
+  };
+
+  const rows = await prisma.long_comp_result.findMany({
+    where: { round_id: roundId },
+    select: { coder_id: true, attended: true, new_rating: true, new_vol: true },
+  });
+  // Rated coders keep the flags they were rated with
+  const entries = rows.filter((r) => r.new_rating === null && r.new_vol === null);
+
+  let submissions: any[];
+  let finalSubmissions: any[];
+  try {
+    submissions = await getSubmissions(challengeId);
+    finalSubmissions = await getFinalSubmissions(submissions);
+  } catch (error) {
+    return handleUnavailable(report, error, dryRun);
+  }
+  logger.info(`Final submissions: ${finalSubmissions.length}`);
+
+  const attendees = entries.filter((e) => (e.attended || '').toUpperCase() === 'Y').length;
+  if (finalSubmissions.length === 0 && attendees > 0) {
+    return handleUnavailable(
+      report,
+      new Error(`No reviewed submission for challenge ${challengeId}, but ${attendees} coders attended`),
+      dryRun
+    );
+  }
+
+  report.finalSubmissions = finalSubmissions.length;
+  const scores = (options.ingestScores ?? isScoreIngestionEnabled()) ? scoreSubmissions(finalSubmissions) : [];
+  const known = new Set(rows.map((r) => r.coder_id));
+  const created = scores.filter((s) => !known.has(s.coderId)).map((s) => ({ coder_id: s.coderId, attended: null }));
+  report.changes = diffAttendance([...entries, ...created], submissions, finalSubmissions);
+  const [present, absent] = _.partition(report.changes, (c) => c.newAttended === 'Y');
+
+  if (dryRun) {
+    if (scores.length > 0) {
+      report.previewScores = scores;
+      logger.info(`Preview: ${created.length} coders would be created from the submissions`);
+    }
+    for (const change of report.changes) {
+      logger.info(`Preview: coder ${change.coderId} would be marked attended=${change.newAttended} (${change.reason})`);
+    }
+    return report;
+  }
+
+  await prisma.$transaction(async (tx) => {
+    if (scores.length > 0) {
+      report.scores = await ingestScores(tx, roundId, scores);
+    }
+    if (present.length > 0) {
+      await tx.long_comp_result.updateMany({
+        where: { round_id: roundId, coder_id: { in: present.map((c) => c.coderId) } },
+        data: { attended: 'Y' },
+      });
+    }
+    if (absent.length > 0) {
+      await tx.long_comp_result.updateMany({
+        where: { round_id: roundId, coder_id: { in: absent.map((c) => c.coderId) } },
+        data: { attended: 'N' },
+      });
+    }
+    await recordReport(tx, report);
+  });
+  logger.info(`Attendance of round ${roundId}: ${present.length} marked attended, ${absent.length} marked absent`);
+  return report;
+}
+
+/**
+ * The attendance reconciliations of a round, newest first.
+ */
+export async function getReconciliations(
+  roundId: number
+): Promise<(AttendanceReport & { id: number; createdAt: Date })[]> {
+  const rows = await prisma.attendance_reconciliation.findMany({
+    where: { round_id: roundId },
+    orderBy: { id: 'desc' },
+  });
+  return rows.map((r) => ({
+    id: r.id,
+    roundId: r.round_id,
+    challengeId: r.challenge_id,
+    policy: r.policy as AttendancePolicy,
+    outcome: r.outcome as ReconciliationOutcome,
+    finalSubmissions: r.final_submissions,
+    changes: r.changes as unknown as AttendanceChange[],
+    scores: { created: r.coders_created, updated: r.scores_updated },
+    ...(r.error ? { error: r.error } : {}),
+    createdAt: r.created_at,
+  }));
+}
@@ -0,0 +1,240 @@
+/**
+ * DataWarehouseService - Loads rating data into the data warehouse.
+ *
+ * Replaces the warehouse loads of the external ratings-calculation-service
+ * (/ratings/coders/load and /ratings/mm/load):
+ *   loadCoderDimension() - current ratings of the round's rated coders
+ *   loadRoundRatings()   - the round's rated long_comp_result rows and the
+ *                          coders' ratings right after the round
+ *
+ * Loads work one round at a time and only write rows that are new or changed,
+ * so re-running a load is safe. Each table load records a watermark per round
+ * with the round's rating_finished_at: until the round is rated again, its
+ * rows are skipped by later loads. The algo_rating rows loaded are those of
+ * the round's rating type.
+ */
+
+import config from 'config';
+import { createLogger } from '../common/logger';
+import { prisma } from '../common/prismaClient';
+import { getRoundRatingTypeId } from '../common/ratingTypes';
+import { createPostgresWarehouseTarget } from '../libs/warehouse/PostgresWarehouseTarget';
+import { RoundRatingRow, WarehouseTable, WarehouseTarget } from '../libs/warehouse/WarehouseTarget';
+
+const logger = createLogger('DataWarehouseService');
+
+export type WarehouseLoader = 'coders' | 'ratings';
+
+/**
+ * Outcome of a load, published with the LOAD_CODERS / LOAD_RATINGS events.
+ */
+export interface LoadResult {
+  loader: WarehouseLoader;
+  roundId: number;
+  // Rows read from the processor tables
+  rowsRead: number;
+  // Rows inserted or changed in the warehouse (0 when already up to date)
+  rowsWritten: number;
+}
+
+// ---------- Target ----------
+
+let activeTarget: WarehouseTarget | null = null;
+
+/**
+ * Get the warehouse target; by default the DW_SCHEMA schema of the
+ * processor database.
+ */
+export function getWarehouseTarget(): WarehouseTarget {
+  if (!activeTarget) {
+    activeTarget = createPostgresWarehouseTarget(config.get('DW_SCHEMA') as string, prisma);
+  }
+  return activeTarget;
+}
+
+/**
+ * Replace the warehouse target (tests, other destinations).
+ */
+export function setWarehouseTarget(target: WarehouseTarget | null): void {
+  activeTarget = target;
+}
+
+function logLoad(result: LoadResult): void {
+  logger.info(
+    `Loaded ${result.loader} of round ${result.roundId}: ` +
+      `${result.rowsRead} rows read, ${result.rowsWritten} written`
+  );
+}
+
+/**
+ * When the round was last rated; null for a round rated before the rating
+ * status was recorded, whose loads are never skipped.
+ */
+async function getRatedAt(roundId: number): Promise<Date | null> {
+  const round = await prisma.round.findUnique({
+    where: { round_id: roundId },
+    select: { rating_finished_at: true },
+  });
+  return round?.rating_finished_at ?? null;
+}
+
+/**
+ * Write the rows of a round to a table, unless its watermark shows they were
+ * loaded from the same rating already, and advance the watermark. Returns
+ * the number of rows written.
+ */
+async function loadTable<T>(
+  roundId: number,
+  ratedAt: Date | null,
+  table: WarehouseTable,
+  rows: T[],
+  upsert: (rows: T[]) => Promise<number>
+): Promise<number> {
+  const target = getWarehouseTarget();
+  if (ratedAt) {
+    const watermark = await target.getWatermark(roundId, table);
+    if (watermark && watermark.ratedAt.getTime() === ratedAt.getTime()) {
+      logger.info(`Round ${roundId} already loaded into ${table} at ${watermark.loadedAt.toISOString()}; skipped`);
+      return 0;
+    }
+  }
+  const written = await upsert(rows);
+  if (ratedAt) {
+    await target.setWatermark({ roundId, table, ratedAt, loadedAt: new Date(), rowsLoaded: rows.length });
+  }
+  return written;
+}
+
+/**
+ * Get the coders rated in a round.
+ */
+async function getRatedCoderIds(roundId: number): Promise<number[]> {
+  const rows = await prisma.long_comp_result.findMany({
+    where: { round_id: roundId, rated_ind: 1 },
+    select: { coder_id: true },
+  });
+  return rows.map((r) => r.coder_id);
+}
+
+// ---------- Loads ----------
+
+/**
+ * Load the coder dimension (current rating) of the coders rated in a round.
+ */
+export async function loadCoderDimension(roundId: number): Promise<LoadResult> {
+  const coderIds = await getRatedCoderIds(roundId);
+  const ratingTypeId = await getRoundRatingTypeId(roundId);
+  const ratings = await prisma.algo_rating.findMany({
+    where: { algo_rating_type_id: ratingTypeId, coder_id: { in: coderIds } },
+  });
+
+  const target = getWarehouseTarget();
+  const rowsWritten = await loadTable(
+    roundId,
+    await getRatedAt(roundId),
+    'coder_rating_dim',
+    ratings.map((r) => ({
+      coderId: r.coder_id,
+      ratingTypeId: r.algo_rating_type_id,
+      rating: r.rating,
+      volatility: r.vol,
+      numRatings: r.num_ratings,
+      highestRating: r.highest_rating,
+      lowestRating: r.lowest_rating,
+      firstRatedRoundId: r.first_rated_round_id,
+      lastRatedRoundId: r.last_rated_round_id,
+    })),
+    (rows) => target.upsertCoders(rows)
+  );
+
+  const result: LoadResult = { loader: 'coders', roundId, rowsRead: ratings.length, rowsWritten };
+  logLoad(result);
+  return result;
+}
+
+/**
+ * Ratings of the coders right after a round: from the round's rating_history
+ * rows, else (rounds rated before the history existed) from algo_rating when
+ * the round is still the coder's last rated one. Never the rating of a later
+ * round: coders with neither are left out.
+ */
+async function getRoundRatings(roundId: number, ratingTypeId: number, coderIds: number[]): Promise<RoundRatingRow[]> {
+  const history = await prisma.rating_history.findMany({
+    where: { round_id: roundId, coder_id: { in: coderIds }, rolled_back_at: null },
+  });
+  const rows: RoundRatingRow[] = history.map((h) => ({
+    roundId,
+    coderId: h.coder_id,
+    ratingTypeId: h.algo_rating_type_id,
+    rating: h.new_rating,
+    volatility: h.new_vol,
+    numRatings: h.num_ratings,
+  }));
+
+  const withHistory = new Set(history.map((h) => h.coder_id));
+  const current = await prisma.algo_rating.findMany({
+    where: {
+      algo_rating_type_id: ratingTypeId,
+      last_rated_round_id: roundId,
+      coder_id: { in: coderIds.filter((id) => !withHistory.has(id)) },
+    },
+  });
+  rows.push(
+    ...current.map((r) => ({
+      roundId,
+      coderId: r.coder_id,
+      ratingTypeId: r.algo_rating_type_id,
+      rating: r.rating,
+      volatility: r.vol,
+      numRatings: r.num_ratings,
+    }))
+  );
+
+  const missing = coderIds.length - rows.length;
+  if (missing > 0) {
+    logger.warn(`Round ${roundId}: no rating of the round for ${missing} coders; not loaded in round_rating_fact`);
+  }
+  return rows;
+}
+
+/**
+ * Load the rated results of a round and the coders' ratings after it.
+ */
+export async function loadRoundRatings(roundId: number): Promise<LoadResult> {
+  const results = await prisma.long_comp_result.findMany({
+    where: { round_id: roundId, rated_ind: 1 },
+  });
+  const ratingTypeId = await getRoundRatingTypeId(roundId);
+  const ratings = await getRoundRatings(roundId, ratingTypeId, results.map((r) => r.coder_id));
+
+  const target = getWarehouseTarget();
+  const ratedAt = await getRatedAt(roundId);
+  const resultsWritten = await loadTable(
+    roundId,
+    ratedAt,
+    'long_comp_result_fact',
+    results.map((r) => ({
+      roundId,
+      coderId: r.coder_id,
+      attended: r.attended,
+      systemPointTotal: r.system_point_total === null ? null : Number(r.system_point_total),
+      oldRating: r.old_rating,
+      oldVolatility: r.old_vol,
+      newRating: r.new_rating,
+      newVolatility: r.new_vol,
+    })),
+    (rows) => target.upsertRoundResults(rows)
+  );
+  const ratingsWritten = await loadTable(roundId, ratedAt, 'round_rating_fact', ratings, (rows) =>
+    target.upsertRoundRatings(rows)
+  );
+
+  const result: LoadResult = {
+    loader: 'ratings',
+    roundId,
+    rowsRead: results.length + ratings.length,
+    rowsWritten: resultsWritten + ratingsWritten,
+  };
+  logLoad(result);
+  return result;
+}
@@ -0,0 +1,191 @@
+/**
+ * DeadLetterService - Dead-letter topic for Kafka messages that could not be handled.
+ *
+ * A message lands on KAFKA_DEAD_LETTER_TOPIC when it is permanently invalid
+ * (e.g. not JSON) or when its retries are used up. The dead-letter message keeps
+ * the original message text, the error, the number of attempts and where the
+ * message came from (topic/partition/offset), so it can be re-driven to its
+ * source topic once the cause is fixed.
+ */
+
+import config from 'config';
+import * as Kafka from 'no-kafka';
+import { isRetryableError } from '../common/errors';
+import { getKafkaOptions } from '../common/helper';
+import { getProducer } from '../common/kafkaProducer';
+import { createLogger } from '../common/logger';
+
+const logger = createLogger('DeadLetterService');
+
+const ORIGINATOR = 'member-profile-processor';
+
+/**
+ * Where a consumed message came from.
+ */
+export interface MessageSource {
+  topic: string;
+  partition: number;
+  offset: number;
+}
+
+/**
+ * Envelope of a dead-letter message.
+ */
+export interface DeadLetterMessage {
+  topic: string;
+  originator: string;
+  timestamp: string;
+  'mime-type': string;
+  payload: {
+    source: MessageSource;
+    // Original message text, kept as-is since it may not be valid JSON
+    originalMessage: string;
+    error: {
+      name: string;
+      message: string;
+      stack?: string;
+      retryable: boolean;
+    };
+    attempts: number;
+  };
+}
+
+/**
+ * The part of the no-kafka GroupConsumer the re-drive uses.
+ */
+export interface RedriveConsumer {
+  init(
+    strategies: {
+      subscriptions: string[];
+      handler: (messageSet: any[], topic: string, partition: number) => Promise<void>;
+    }[]
+  ): Promise<unknown>;
+  commitOffset(commit: { topic: string; partition: number; offset: number }): Promise<unknown>;
+  end(): Promise<unknown>;
+}
+
+export interface RedriveOptions {
+  // Stop after this many messages
+  limit?: number;
+  // Stop when no message arrived for this long (ms)
+  idleTimeoutMs?: number;
+}
+
+/**
+ * Build the dead-letter message of a failed message.
+ */
+export function buildDeadLetterMessage(
+  source: MessageSource,
+  originalMessage: string,
+  error: any,
+  attempts: number
+): DeadLetterMessage {
+  return {
+    topic: config.get('KAFKA_DEAD_LETTER_TOPIC') as string,
+    originator: ORIGINATOR,
+    timestamp: new Date().toISOString(),
+    'mime-type': 'application/json',
+    payload: {
+      source,
+      originalMessage,
+      error: {
+        name: error?.name || 'Error',
+        message: error?.message || String(error),
+        stack: error?.stack,
+        retryable: isRetryableError(error),
+      },
+      attempts,
+    },
+  };
+}
+
+/**
+ * Publish a failed message to the dead-letter topic.
+ */
+export async function sendToDeadLetter(
+  source: MessageSource,
+  originalMessage: string,
+  error: any,
+  attempts: number
+): Promise<void> {
+  const message = buildDeadLetterMessage(source, originalMessage, error, attempts);
+  await getProducer().send(message.topic, JSON.stringify(message));
+  logger.warn(
+    `Message sent to ${message.topic}; Source: ${source.topic}/${source.partition}/${source.offset}; ` +
+      `Attempts: ${attempts}; Error: ${message.payload.error.message}`
+  );
+}
+
+/**
+ * Re-publish the original message of a dead-letter message to its source topic.
+ */
+export async function redriveMessage(deadLetter: DeadLetterMessage): Promise<void> {
+  const { source, originalMessage } = deadLetter.payload;
+  await getProducer().send(source.topic, originalMessage);
+  logger.info(`Re-drove message from ${source.topic}/${source.partition}/${source.offset}`);
+}
+
+/**
+ * The consumer of the re-drive: its own consumer group, from the earliest
+ * dead letter not yet committed.
+ */
+function createRedriveConsumer(): RedriveConsumer {
+  return new Kafka.GroupConsumer({
+    ...getKafkaOptions(),
+    groupId: config.get('KAFKA_DEAD_LETTER_REDRIVE_GROUP_ID') as string,
+    startingOffset: Kafka.EARLIEST_OFFSET,
+  });
+}
+
+/**
+ * Consume the dead-letter topic and re-drive its messages to their source
+ * topics. Uses its own consumer group, so each dead letter is re-driven once.
+ * A dead letter is committed only once re-driven: the first failure stops the
+ * run, and the next run starts from that dead letter.
+ * Resolves with the number of re-driven messages.
+ */
+export async function redriveDeadLetters(
+  options: RedriveOptions = {},
+  consumer: RedriveConsumer = createRedriveConsumer()
+): Promise<number> {
+  const topic = config.get('KAFKA_DEAD_LETTER_TOPIC') as string;
+  const limit = options.limit ?? Number.POSITIVE_INFINITY;
+  const idleTimeoutMs = options.idleTimeoutMs ?? 10000;
+
+  let count = 0;
+  let idleTimer: NodeJS.Timeout | undefined;
+  let finish: () => void;
+  const done = new Promise<void>((resolve) => { finish = resolve; });
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer);
+    idleTimer = setTimeout(() => finish(), idleTimeoutMs);
+  };
+
+  // Set by a failed re-drive: its offset and all later ones stay uncommitted
+  let stopped = false;
+  const handler = async (messageSet: any[], msgTopic: string, partition: number) => {
+    for (const m of messageSet) {
+      if (count >= limit || stopped) break;
+      resetIdleTimer();
+      try {
+        await redriveMessage(JSON.parse(m.message.value.toString('utf8')));
+      } catch (error) {
+        logger.error(`Could not re-drive dead letter at offset ${m.offset}; stopping`, { error });
+        stopped = true;
+        break;
+      }
+      await consumer.commitOffset({ topic: msgTopic, partition, offset: m.offset });
+      count++;
+    }
+    if (count >= limit || stopped) finish();
+  };
+
+  await consumer.init([{ subscriptions: [topic], handler }]);
+  resetIdleTimer();
+  await done;
+  clearTimeout(idleTimer);
+  await consumer.end();
+
+  logger.info(`Re-drove ${count} dead-letter messages from ${topic}`);
+  return count;
+}
@@ -0,0 +1,178 @@
+/**
+ * IdempotencyService - Duplicate-event protection and per-round locking.
+ *
+ * Autopilot can emit the same notification more than once and Kafka redelivers
+ * messages, possibly to another processor instance of the consumer group.
+ *
+ *   processEventOnce() - claims an event in the processed_event ledger before
+ *                        handling it; a completed event is skipped, and one
+ *                        being handled elsewhere fails with the retryable
+ *                        EventInProgressError, as that delivery may have died
+ *   withRoundLock()    - holds the round_lock row of a round while it is rated
+ *                        or rolled back, so runs never overlap
+ *
+ * Both are leases: a holder that dies stops blocking others once its lease
+ * expires.
+ */
+
+import config from 'config';
+import * as os from 'os';
+import { randomUUID } from 'crypto';
+import { PermanentError, RetryableError } from '../common/errors';
+import { createLogger } from '../common/logger';
+import { prisma } from '../common/prismaClient';
+
+const logger = createLogger('IdempotencyService');
+
+/**
+ * Identifies this processor instance in the ledger and in round locks.
+ */
+export const INSTANCE_ID = `${os.hostname()}:${process.pid}`;
+
+/**
+ * Thrown when another run holds the lock of the round.
+ */
+export class RoundLockedError extends PermanentError {
+  constructor(public roundId: number, public owner?: string) {
+    super(`Round ${roundId} is locked by another run${owner ? ` (${owner})` : ''}`);
+    this.name = 'RoundLockedError';
+  }
+}
+
+/**
+ * Thrown when another delivery holds a live claim on the event. Retryable:
+ * the holder may have crashed, and its redelivered message must not be lost.
+ */
+export class EventInProgressError extends RetryableError {
+  constructor(public eventKey: string, public owner?: string) {
+    super(`Event ${eventKey} is being processed by ${owner ?? 'another delivery'}`);
+    this.name = 'EventInProgressError';
+  }
+}
+
+export interface EventMetadata {
+  topic: string;
+  roundId?: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Processed-event ledger
+// ---------------------------------------------------------------------------
+
+// Events this instance is processing. A PROCESSING row of this instance that
+// is not among them was left by an earlier process with the same identity
+// (a restarted container keeps its hostname and pid)
+const activeEvents = new Set<string>();
+
+/**
+ * Claim an event: record it as PROCESSING unless it is COMPLETED or being
+ * processed under a live lease. Failed events can be claimed again, and so
+ * can the stale claims of this instance.
+ * Returns false for a COMPLETED event; throws EventInProgressError when
+ * another delivery holds the event.
+ */
+export async function claimEvent(eventKey: string, meta: EventMetadata): Promise<boolean> {
+  const now = new Date();
+  const ownClaimIsStale = !activeEvents.has(eventKey);
+  const leaseExpiresAt = new Date(now.getTime() + (config.get('EVENT_LEASE_TTL') as number));
+
+  const claimed = await prisma.$queryRaw<{ id: number }[]>`
+    INSERT INTO processed_event (event_key, topic, round_id, status, owner, lease_expires_at, created_at, updated_at)
+    VALUES (${eventKey}, ${meta.topic}, ${meta.roundId ?? null}::int, 'PROCESSING', ${INSTANCE_ID}, ${leaseExpiresAt}, ${now}, ${now})
+    ON CONFLICT (event_key) DO UPDATE
+    SET status = 'PROCESSING',
+        owner = EXCLUDED.owner,
+        attempts = processed_event.attempts + 1,
+        error = NULL,
+        lease_expires_at = EXCLUDED.lease_expires_at,
+        updated_at = EXCLUDED.updated_at
+    WHERE processed_event.status = 'FAILED'
+       OR (processed_event.status = 'PROCESSING' AND processed_event.lease_expires_at < ${now})
+       OR (processed_event.status = 'PROCESSING' AND processed_event.owner = ${INSTANCE_ID} AND ${ownClaimIsStale})
+    RETURNING id`;
+  if (claimed.length > 0) return true;
+
+  const existing = await prisma.processed_event.findUnique({ where: { event_key: eventKey } });
+  if (existing?.status === 'COMPLETED') return false;
+  throw new EventInProgressError(eventKey, existing?.owner);
+}
+
+/**
+ * Mark a claimed event as COMPLETED or FAILED.
+ */
+async function finishEvent(eventKey: string, status: 'COMPLETED' | 'FAILED', error?: any): Promise<void> {
+  await prisma.processed_event.updateMany({
+    where: { event_key: eventKey, owner: INSTANCE_ID },
+    data: {
+      status,
+      error: error ? String(error?.message || error) : null,
+      updated_at: new Date(),
+    },
+  });
+}
+
+/**
+ * Run fn for an event unless the event was already handled. Returns false
+ * when the event was skipped; an event being handled by another delivery
+ * fails with EventInProgressError, so it is retried rather than dropped.
+ */
+export async function processEventOnce(
+  eventKey: string,
+  meta: EventMetadata,
+  fn: () => Promise<void>
+): Promise<boolean> {
+  if (!(await claimEvent(eventKey, meta))) {
+    logger.info(`Skipping duplicate event ${eventKey}`);
+    return false;
+  }
+
+  activeEvents.add(eventKey);
+  try {
+    try {
+      await fn();
+    } catch (error) {
+      await finishEvent(eventKey, 'FAILED', error);
+      throw error;
+    }
+    await finishEvent(eventKey, 'COMPLETED');
+  } finally {
+    activeEvents.delete(eventKey);
+  }
+  return true;
+}
+
+// ---------------------------------------------------------------------------
+// Round lock
+// ---------------------------------------------------------------------------
+
+/**
+ * Run fn while holding the lock of a round.
+ * Throws RoundLockedError when another run holds it.
+ */
+export async function withRoundLock<T>(roundId: number, fn: () => Promise<T>): Promise<T> {
+  // Unique per acquisition: two runs in the same instance must not share a lock
+  const owner = `${INSTANCE_ID}:${randomUUID()}`;
+  const now = new Date();
+  const expiresAt = new Date(now.getTime() + (config.get('ROUND_LOCK_TTL') as number));
+
+  const acquired = await prisma.$queryRaw<{ round_id: number }[]>`
+    INSERT INTO round_lock (round_id, owner, acquired_at, expires_at)
+    VALUES (${roundId}, ${owner}, ${now}, ${expiresAt})
+    ON CONFLICT (round_id) DO UPDATE
+    SET owner = EXCLUDED.owner,
+        acquired_at = EXCLUDED.acquired_at,
+        expires_at = EXCLUDED.expires_at
+    WHERE round_lock.expires_at < ${now}
+    RETURNING round_id`;
+
+  if (acquired.length === 0) {
+    const holder = await prisma.round_lock.findUnique({ where: { round_id: roundId } });
+    throw new RoundLockedError(roundId, holder?.owner);
+  }
+
+  try {
+    return await fn();
+  } finally {
+    await prisma.round_lock.deleteMany({ where: { round_id: roundId, owner } });
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * KafkaConsumerService - Handling of the message batches of the Kafka consumer.
+ *
+ * Each message is handled with retries for transient errors; messages that are
+ * invalid or still failing after the retries go to the dead-letter topic. The
+ * offsets of a partition are committed up to the first message that could be
+ * neither handled nor dead-lettered, and the partition is read again from it.
+ *
+ * The consumer and the message handler are passed in: app.ts uses the no-kafka
+ * GroupConsumer and KafkaHandlerService.handle.
+ */
+
+import { isRetryableError, PermanentError } from '../common/errors';
+import { createLogger, runWithLogContext } from '../common/logger';
+import { consumerLag, messagesConsumed, messagesFailed } from '../common/metrics';
+import { retryWithBackoff, RetryPolicy } from '../common/retry';
+import { MessageValidationError } from '../common/schemas';
+import { sendToDeadLetter } from './DeadLetterService';
+
+const logger = createLogger('KafkaConsumerService');
+
+/**
+ * Handler of the message batches of a partition.
+ */
+export type DataHandler = (
+  messageSet: any[],
+  topic: string,
+  partition: number,
+  highwaterMarkOffset?: number
+) => Promise<void>;
+
+/**
+ * The part of the no-kafka GroupConsumer the data handler uses.
+ */
+export interface PartitionConsumer {
+  commitOffset(commit: { topic: string; partition: number; offset: number }): unknown;
+  subscribe(
+    topic: string,
+    partition: number,
+    options: { offset: number },
+    handler: (messageSet: any[], topic: string, partition?: number, highwaterMarkOffset?: number) => Promise<void>
+  ): Promise<unknown>;
+}
+
+/**
+ * Why a message failed, for kafka_messages_failed_total.
+ */
+function failureReason(err: any): string {
+  if (err instanceof MessageValidationError) return 'invalid';
+  return isRetryableError(err) ? 'retries_exhausted' : 'permanent';
+}
+
+/**
+ * Handle a message with retries for transient errors. Messages that are
+ * invalid or still failing after the retries go to the dead-letter topic.
+ * Rejects only when the dead-letter publish fails too, as the message must
+ * then be read again. Each message is handled in its own log context
+ * (correlation id topic:partition:offset).
+ */
+export function handleMessage(
+  m: any,
+  topic: string,
+  partition: number,
+  handle: (message: any) => Promise<void>,
+  retryPolicy: RetryPolicy
+): Promise<void> {
+  return runWithLogContext(
+    { correlationId: `${topic}:${partition}:${m.offset}`, topic, partition, offset: m.offset },
+    async () => {
+      const message = m.message.value.toString('utf8');
+      logger.info(`Handle kafka event; Topic: ${topic}; Partition: ${partition}; Offset: ${m.offset}`);
+      messagesConsumed.inc({ topic });
+      let attempts = 0;
+
+      try {
+        let messageJSON: any;
+        try {
+          messageJSON = JSON.parse(message);
+        } catch (error) {
+          throw new PermanentError('Invalid message JSON.', error);
+        }
+
+        await retryWithBackoff(async (attempt) => {
+          attempts = attempt;
+          await handle(messageJSON);
+        }, retryPolicy);
+      } catch (err) {
+        logger.error(`Error handling message after ${attempts} attempt(s)`, { error: err });
+        messagesFailed.inc({ topic, reason: failureReason(err) });
+        try {
+          await sendToDeadLetter({ topic, partition, offset: m.offset }, message, err, attempts);
+        } catch (dlqError) {
+          logger.error('Could not publish to dead-letter topic; the message will be read again', {
+            error: dlqError,
+          });
+          throw dlqError;
+        }
+      }
+    }
+  );
+}
+
+/**
+ * Create the data handler of a consumer. It handles a batch of a partition,
+ * then commits the offsets of the messages that were handled or
+ * dead-lettered, up to the first one that was neither. The partition is then
+ * read again from that message, so it is not lost; the messages after it are
+ * read again too, their completed events skipped by the ledger. Once the
+ * batch is handled, the partition's lag is measured against the high-water
+ * mark no-kafka passes along.
+ */
+export function createDataHandler(
+  consumer: PartitionConsumer,
+  handle: (message: any) => Promise<void>,
+  retryPolicy: RetryPolicy
+): DataHandler {
+  const dataHandler: DataHandler = async (messageSet, topic, partition, highwaterMarkOffset) => {
+    const results = await Promise.allSettled(
+      messageSet.map((m) => handleMessage(m, topic, partition, handle, retryPolicy))
+    );
+    const failed = results.findIndex((r) => r.status === 'rejected');
+    const done = failed === -1 ? messageSet.length : failed;
+
+    if (done > 0) consumer.commitOffset({ topic, partition, offset: messageSet[done - 1].offset });
+    if (failed !== -1) {
+      // Replaces the subscription, so no-kafka does not move past the message
+      await consumer.subscribe(
+        topic,
+        partition,
+        { offset: messageSet[failed].offset },
+        (messages, t, p = partition, highwater) => dataHandler(messages, t, p, highwater)
+      );
+    }
+
+    if (highwaterMarkOffset !== undefined && messageSet.length > 0) {
+      const next = done > 0 ? messageSet[done - 1].offset + 1 : messageSet[0].offset;
+      consumerLag.set({ topic, partition: String(partition) }, Math.max(highwaterMarkOffset - next, 0));
+    }
+  };
+  return dataHandler;
+}
@@ -2,56 +2,172 @@
  * KafkaHandlerService - Kafka message handler.
  *
  * Preserves the original routing logic:
- *   - KAFKA_AUTOPILOT_NOTIFICATIONS_TOPIC: review phase end -> marathon_match check -> calculate
+ *   - KAFKA_AUTOPILOT_NOTIFICATIONS_TOPIC: trigger phase (review end) -> subTrack
+ *     rating type check -> calculate
  *   - KAFKA_RATING_SERVICE_TOPIC: event-driven sequencing (calculate -> loadCoders -> loadRatings)
+ *   - KAFKA_SUBMISSION_SCORING_TOPIC: review/scoring updates of an active
+ *     challenge -> throttled rating projection (ProvisionalRatingService)
  *
  * Rating calculation is now performed locally instead of calling the external API.
+ *
+ * Each triggering event of the first two topics is handled at most once (see IdempotencyService): its
+ * identity (topic, challenge/round, phase, timestamp) is claimed in the
+ * processed_event ledger first, and an event whose round is locked by another
+ * run is retried.
+ *
+ * The subTracks rated, and the phases that trigger them, come from the rating
+ * type registry (src/common/ratingTypes.ts); only ENABLED_RATING_TYPES are rated.
  */
 
-import * as config from 'config';
+import config from 'config';
 import * as _ from 'lodash';
-import { createLogger } from '../common/logger';
-import { getChallengeDetails } from '../common/helper';
+import { addLogContext, createLogger } from '../common/logger';
+import { RetryableError } from '../common/errors';
+import { messagesSkipped } from '../common/metrics';
+import { getChallenge, getChallengeDetails, getSubmission } from '../common/helper';
+import { validateMessage } from '../common/schemas';
+import { getEnabledRatingTypes, getRatingTypeForSubTrack, isTriggeredBy } from '../common/ratingTypes';
 import {
   calculate,
   loadRatings,
   loadCoders,
+  projectRatings,
 } from './MarathonRatingsService';
+import { isProvisionalRatingEnabled, scheduleProjection } from './ProvisionalRatingService';
+import { RATING_SERVICE_ORIGINATOR } from './RatingEventService';
+import { processEventOnce, RoundLockedError } from './IdempotencyService';
 
 const logger = createLogger('KafkaHandler');
 
+// Resources of the scoring updates that change the provisional scores
+const SCORING_RESOURCES = ['review', 'reviewSummation'];
+
+/**
+ * Build the ledger key of an event from its identity.
+ */
+export function getEventKey(message: any): string {
+  const payload = message.payload || {};
+  const parts = payload.event
+    ? [payload.event, payload.status, payload.roundId]
+    : [payload.projectId, payload.phaseTypeName, payload.state];
+  return [message.topic, ...parts, message.timestamp].map((p) => String(p ?? '')).join(':');
+}
+
+/**
+ * Count a message that leads to no work (kafka_messages_skipped_total).
+ */
+function skip(message: any, reason: string): void {
+  messagesSkipped.inc({ topic: message.topic || '', reason });
+}
+
+/**
+ * Options of handle().
+ */
+export interface HandleOptions {
+  // Bypass the processed_event ledger: handle an event even if it was
+  // processed already (CLI replay --force, for incidents and backfills)
+  force?: boolean;
+}
+
+/**
+ * Run a handler once per event, or unconditionally when forced. A round
+ * locked by another run (a rating, rollback or re-rate) leaves the event
+ * FAILED in the ledger and fails with a retryable error, so the event is
+ * handled once the round is free.
+ */
+async function handleOnce(
+  message: any,
+  roundId: number | null,
+  fn: () => Promise<unknown>,
+  force = false
+): Promise<void> {
+  let processed: boolean;
+  try {
+    processed = force
+      ? await fn().then(() => true)
+      : await processEventOnce(getEventKey(message), { topic: message.topic, roundId }, async () => {
+          await fn();
+        });
+  } catch (error) {
+    if (!(error instanceof RoundLockedError)) throw error;
+    logger.info(`Round busy, event will be retried: ${error.message}`);
+    throw new RetryableError(error.message, error);
+  }
+  if (!processed) skip(message, 'duplicate');
+}
+
+/**
+ * Project the ratings of a challenge that is still active and of an enabled
+ * rating type.
+ */
+async function projectChallenge(challengeId: string): Promise<void> {
+  addLogContext({ challengeId });
+  const challenge = await getChallenge(challengeId);
+  if (!challenge || challenge.status !== 'Active' || !challenge.legacyId) return;
+  const ratingType = getRatingTypeForSubTrack(_.get(challenge, 'legacy.subTrack', ''));
+  if (!ratingType || !getEnabledRatingTypes().some((t) => t.id === ratingType.id)) return;
+  await projectRatings(challengeId, challenge.legacyId, ratingType.id);
+}
+
+/**
+ * Schedule the projection of the challenge of a submission, under the
+ * challenge's throttle.
+ */
+async function projectSubmission(submissionId: string): Promise<void> {
+  const submission = await getSubmission(submissionId);
+  const challengeId: string | undefined = submission?.challengeId;
+  if (!challengeId) {
+    logger.info(`Submission ${submissionId} has no challenge; no projection`);
+    return;
+  }
+  scheduleProjection(challengeId, () => projectChallenge(challengeId));
+}
+
 /**
  * Handle an incoming Kafka message.
  *
  * Mirrors the original KafkaHandlerService.js switch/case logic exactly.
+ * The message is first validated against the schema of its topic; an invalid
+ * message fails with MessageValidationError (never retried). Triggering
+ * events are handled once, unless options.force is set.
  */
-export async function handle(message: any): Promise<void> {
+export async function handle(rawMessage: any, options: HandleOptions = {}): Promise<void> {
+  const message = validateMessage(rawMessage);
   const topic: string = message.topic || '';
 
   switch (topic) {
     // ---------------------------------------------------------------
-    // Autopilot notifications — review phase end triggers MM rating
+    // Autopilot notifications — a trigger phase (review end) rates the
+    // challenge as the rating type of its subTrack
     // ---------------------------------------------------------------
     case config.get('KAFKA_AUTOPILOT_NOTIFICATIONS_TOPIC') as string: {
       const payload = message.payload || {};
+      const triggered = getEnabledRatingTypes().filter((t) =>
+        isTriggeredBy(t, payload.phaseTypeName, payload.state)
+      );
 
-      if (
-        payload.phaseTypeName &&
-        payload.phaseTypeName.toLowerCase() === 'review' &&
-        payload.state &&
-        payload.state.toLowerCase() === 'end'
-      ) {
-        // Look up challenge details from V5 API
-        const challengeDetails = await getChallengeDetails({
-          legacyId: payload.projectId,
-        });
+      if (triggered.length > 0) {
+        await handleOnce(message, null, async () => {
+          // Look up challenge details from V5 API
+          const challengeDetails = await getChallengeDetails({
+            legacyId: payload.projectId,
+          });
 
-        if (
-          challengeDetails &&
-          _.get(challengeDetails, 'legacy.subTrack', '').toLowerCase() === 'marathon_match'
-        ) {
-          await calculate(challengeDetails.id, challengeDetails.legacyId);
-        }
+          if (challengeDetails) addLogContext({ challengeId: challengeDetails.id });
+          const ratingType = challengeDetails
+            ? getRatingTypeForSubTrack(_.get(challengeDetails, 'legacy.subTrack', ''))
+            : undefined;
+          if (ratingType && triggered.some((t) => t.id === ratingType.id)) {
+            await calculate(challengeDetails.id, challengeDetails.legacyId, {
+              ratingTypeId: ratingType.id,
+              roundDate: challengeDetails.endDate ? new Date(challengeDetails.endDate) : undefined,
+            });
+          } else {
+            skip(message, 'not_rated');
+          }
+        }, options.force);
+      } else {
+        skip(message, 'not_triggered');
       }
       break;
     }
@@ -60,26 +176,58 @@ export async function handle(message: any): Promise<void> {
     // Rating-service events — sequencing: calculate -> loadCoders -> loadRatings
     // ---------------------------------------------------------------
     case config.get('KAFKA_RATING_SERVICE_TOPIC') as string: {
-      if (message.originator === 'rating.calculation.service') {
+      if (message.originator === RATING_SERVICE_ORIGINATOR) {
         const payload = message.payload || {};
+        addLogContext({ roundId: payload.roundId });
 
         if (
           payload.event === 'RATINGS_CALCULATION' &&
           payload.status === 'SUCCESS'
         ) {
-          await loadCoders(payload.roundId);
+          await handleOnce(message, payload.roundId, () => loadCoders(payload.roundId), options.force);
         } else if (
           payload.event === 'LOAD_CODERS' &&
           payload.status === 'SUCCESS'
         ) {
-          await loadRatings(payload.roundId);
+          await handleOnce(message, payload.roundId, () => loadRatings(payload.roundId), options.force);
+        } else {
+          skip(message, 'ignored_event');
         }
+      } else {
+        skip(message, 'ignored_event');
+      }
+      break;
+    }
+
+    // ---------------------------------------------------------------
+    // Review and scoring updates — projected ratings of a match in progress
+    // ---------------------------------------------------------------
+    case config.get('KAFKA_SUBMISSION_SCORING_TOPIC') as string: {
+      const payload = message.payload || {};
+      if (!isProvisionalRatingEnabled() || !SCORING_RESOURCES.includes(payload.resource)) {
+        skip(message, 'ignored_event');
+        break;
+      }
+      const challengeId: string | undefined = payload.challengeId;
+      const submissionId: string | undefined = payload.submissionId;
+      if (!challengeId && !submissionId) {
+        skip(message, 'ignored_event');
+        break;
+      }
+      // A projection already scheduled will see this update. The challenge of
+      // a submission is looked up when its projection runs, not per update.
+      const scheduled = challengeId
+        ? scheduleProjection(challengeId, () => projectChallenge(challengeId))
+        : scheduleProjection(`submission:${submissionId}`, () => projectSubmission(submissionId as string));
+      if (!scheduled) {
+        skip(message, 'throttled');
       }
       break;
     }
 
     default:
       logger.warn(`Unhandled topic: ${topic}`);
+      skip(message, 'unhandled_topic');
       break;
   }
 }
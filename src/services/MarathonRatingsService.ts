@@ -8,13 +8,37 @@
  *   loadCoders()  - replaces HTTP POST to /ratings/coders/load
  *
  * The rating calculation itself (previously in the Java ratings-calculation-service)
- * is now performed locally using the ported Qubits algorithm.
+ * is now performed locally using the ported Qubits algorithm, or another
+ * RatingAlgorithm selected per rating type or round (see selectAlgorithm).
+ *
+ * Despite the name, any rating type of the registry (src/common/ratingTypes.ts)
+ * is rated here: the round records its type, which selects the algo_rating rows
+ * read and written.
  */
 
-import { createLogger } from '../common/logger';
+import config from 'config';
+import * as _ from 'lodash';
+import { Prisma } from '@prisma/client';
+import { addLogContext, createLogger } from '../common/logger';
+import { codersRatedPerRound, ratingPhaseDuration } from '../common/metrics';
 import { prisma } from '../common/prismaClient';
-import { getSubmissions, getFinalSubmissions } from '../common/helper';
-import { CoderRating } from '../libs/algorithm/AlgorithmQubits';
+import { getFinalSubmissions, getSubmissions } from '../common/helper';
+import { getRatingType, getRoundRatingTypeId, RatingType } from '../common/ratingTypes';
+import { CoderRating, RatingAlgorithm, ratePasses } from '../libs/algorithm/RatingAlgorithm';
+import { getAlgorithm } from '../libs/algorithm/AlgorithmRegistry';
+import { applyInactivity, getInactivityModel, InactivityModel } from '../libs/algorithm/InactivityModel';
+import { publishSuccess, publishFailure } from './RatingEventService';
+import { withRoundLock, RoundLockedError } from './IdempotencyService';
+import { loadCoderDimension, loadRoundRatings, LoadResult } from './DataWarehouseService';
+import { detectMilestones, publishRoundMilestones, recordMilestones } from './RatingMilestoneService';
+import { CoderScore, ensureRound, isScoreIngestionEnabled, scoreSubmissions } from './ScoreIngestionService';
+import { finalizeProjections, getProvisionalScoreMapping, saveProjections } from './ProvisionalRatingService';
+import {
+  AttendanceDeferredError,
+  AttendancePolicy,
+  AttendanceReport,
+  reconcileAttendance,
+} from './AttendanceService';
 
 const logger = createLogger('MarathonRatingsService');
 
@@ -22,6 +46,19 @@ const logger = createLogger('MarathonRatingsService');
 // Data loading (replaces MarathonDataLoader from Java)
 // ---------------------------------------------------------------------------
 
+/**
+ * Row returned by the loadCoderData query.
+ */
+interface CoderDataRow {
+  coder_id: number;
+  system_point_total: Prisma.Decimal | null;
+  placed: number | null;
+  rating: number | null;
+  vol: number | null;
+  num_ratings: number | null;
+  sigma: number | null;
+}
+
 /**
  * Load coder data for a given round from the database.
  * Mirrors the SQL in MarathonDataLoader.java:
@@ -31,177 +68,618 @@ const logger = createLogger('MarathonRatingsService');
  *     AND lcr.new_rating IS NULL AND lcr.new_vol IS NULL
  *     AND ar.coder_id = lcr.coder_id AND ar.algo_rating_type_id = 3
  *   ORDER BY lcr.system_point_total DESC
+ * with the round's rating type in place of 3, plus the place of ingested
+ * scores (ties of equal scores are broken by it) and the Glicko-2 sigma.
  */
-async function loadCoderData(roundId: number): Promise<CoderRating[]> {
+async function loadCoderData(roundId: number, ratingTypeId: number): Promise<CoderRating[]> {
   logger.info(`Loading coder data for round ${roundId}`);
 
-  const results = await prisma.long_comp_result.findMany({
-    where: {
-      round_id: roundId,
-      attended: { in: ['Y', 'y'] },
-      new_rating: null,
-      new_vol: null,
-    },
-    select: {
-      coder_id: true,
-      system_point_total: true,
-    },
-    orderBy: {
-      system_point_total: 'desc',
-    },
-  });
+  // One LEFT JOIN instead of an algo_rating lookup per coder
+  const results = await prisma.$queryRaw<CoderDataRow[]>`
+    SELECT lcr.coder_id, lcr.system_point_total, lcr.placed, ar.rating, ar.vol, ar.num_ratings, ar.sigma
+    FROM long_comp_result lcr
+    LEFT JOIN algo_rating ar
+      ON ar.coder_id = lcr.coder_id AND ar.algo_rating_type_id = ${ratingTypeId}
+    WHERE lcr.round_id = ${roundId}
+      AND lcr.attended IN ('Y', 'y')
+      AND lcr.new_rating IS NULL AND lcr.new_vol IS NULL
+    ORDER BY lcr.system_point_total DESC, lcr.placed`;
 
   logger.info(`Found ${results.length} coders for round ${roundId}`);
 
-  const coders: CoderRating[] = [];
-  for (const r of results) {
-    const algoRating = await prisma.algo_rating.findFirst({
-      where: { coder_id: r.coder_id, algo_rating_type_id: 3 },
-    });
+  return results.map(toCoderRating);
+}
+
+function toCoderRating(r: CoderDataRow): CoderRating {
+  return {
+    coderId: r.coder_id,
+    rating: r.rating ?? 0,
+    volatility: r.vol ?? 0,
+    numRatings: r.num_ratings ?? 0,
+    score: Number(r.system_point_total) || 0,
+    ...(r.placed !== null ? { placed: r.placed } : {}),
+    ...(r.sigma !== null ? { sigma: r.sigma } : {}),
+  };
+}
+
+/**
+ * A reconciliation a dry run did not write: the attended flags it would set,
+ * by coder, and the scores the score ingestion would write.
+ */
+export interface ReconciledAttendance {
+  attended: Map<number, 'Y' | 'N'>;
+  scores: CoderScore[];
+}
 
-    coders.push({
-      coderId: r.coder_id,
-      rating: algoRating?.rating ?? 0,
-      volatility: algoRating?.vol ?? 0,
-      numRatings: algoRating?.num_ratings ?? 0,
-      score: Number(r.system_point_total) || 0,
+/**
+ * Load the coder data of a round as loadCoderData would after the
+ * reconciliation was written: the coders the score ingestion would create are
+ * added, the unrated coders get the scores and places it would write, and the
+ * attendees are selected by the reconciled attended flags.
+ */
+async function loadReconciledCoderData(
+  roundId: number,
+  ratingTypeId: number,
+  reconciled: ReconciledAttendance
+): Promise<CoderRating[]> {
+  logger.info(`Loading coder data for round ${roundId}, with the reconciled attendance`);
+
+  const rows = await prisma.$queryRaw<(CoderDataRow & { attended: string | null; rated: boolean })[]>`
+    SELECT lcr.coder_id, lcr.attended, lcr.system_point_total, lcr.placed, ar.rating, ar.vol, ar.num_ratings, ar.sigma,
+      (lcr.new_rating IS NOT NULL OR lcr.new_vol IS NOT NULL) AS rated
+    FROM long_comp_result lcr
+    LEFT JOIN algo_rating ar
+      ON ar.coder_id = lcr.coder_id AND ar.algo_rating_type_id = ${ratingTypeId}
+    WHERE lcr.round_id = ${roundId}`;
+
+  const known = new Set(rows.map((r) => r.coder_id));
+  const created = reconciled.scores.filter((s) => !known.has(s.coderId)).map((s) => s.coderId);
+  const ratings = await prisma.algo_rating.findMany({
+    where: { algo_rating_type_id: ratingTypeId, coder_id: { in: created } },
+    select: { coder_id: true, rating: true, vol: true, num_ratings: true, sigma: true },
+  });
+  const ratingByCoder = _.keyBy(ratings, 'coder_id');
+  const scoreByCoder = _.keyBy(reconciled.scores, 'coderId');
+
+  const unrated = [
+    ...rows.filter((r) => !r.rated),
+    ...created.map((coderId) => ({
+      coder_id: coderId,
+      attended: null,
+      system_point_total: null,
+      placed: null,
+      rating: ratingByCoder[coderId]?.rating ?? null,
+      vol: ratingByCoder[coderId]?.vol ?? null,
+      num_ratings: ratingByCoder[coderId]?.num_ratings ?? null,
+      sigma: ratingByCoder[coderId]?.sigma ?? null,
+    })),
+  ];
+  const coders = unrated
+    .filter((r) => (reconciled.attended.get(r.coder_id) ?? r.attended ?? '').toUpperCase() === 'Y')
+    .map((r) => {
+      const score = scoreByCoder[r.coder_id];
+      return { ...toCoderRating(r), ...(score ? { score: score.score, placed: score.placed } : {}) };
     });
-  }
 
-  return coders;
+  logger.info(`Found ${coders.length} coders for round ${roundId}`);
+  return _.orderBy(coders, [(c) => c.score, (c) => c.placed ?? Infinity], ['desc', 'asc']);
+}
+
+/**
+ * Date of a round for the inactivity model: the recorded round_date, else
+ * the fallback (the run's date). runRatingProcess records the date used.
+ */
+async function getRoundDate(roundId: number, fallback: Date): Promise<Date> {
+  const round = await prisma.round.findUnique({ where: { round_id: roundId }, select: { round_date: true } });
+  return round?.round_date ?? fallback;
+}
+
+/**
+ * Days from the last rated round of each returning coder to roundDate, by
+ * coder. Coders whose last round has no date are left out.
+ */
+async function loadDaysAway(
+  ratingTypeId: number,
+  coders: CoderRating[],
+  roundDate: Date
+): Promise<Map<number, number>> {
+  const returning = coders.filter((c) => c.numRatings > 0).map((c) => c.coderId);
+  if (returning.length === 0) return new Map();
+
+  const rows = await prisma.$queryRaw<{ coder_id: number; round_date: Date }[]>`
+    SELECT ar.coder_id, r.round_date
+    FROM algo_rating ar
+    JOIN round r ON r.round_id = ar.last_rated_round_id
+    WHERE ar.algo_rating_type_id = ${ratingTypeId}
+      AND ar.coder_id IN (${Prisma.join(returning)})
+      AND r.round_date IS NOT NULL`;
+
+  const msPerDay = 24 * 60 * 60 * 1000;
+  return new Map(
+    rows.map((r) => [r.coder_id, Math.max(0, Math.floor((roundDate.getTime() - r.round_date.getTime()) / msPerDay))])
+  );
 }
 
 // ---------------------------------------------------------------------------
 // Data persistence (replaces MarathonDataPersistor from Java)
 // ---------------------------------------------------------------------------
 
+/**
+ * Inactivity model of a run and the days away it was applied with.
+ */
+interface InactivityAdjustment {
+  model: string;
+  daysAway: Map<number, number>;
+}
+
 /**
  * Persist calculated ratings back to the database.
- * Mirrors MarathonDataPersistor.java exactly:
+ * Mirrors MarathonDataPersistor.java:
  *   1. Update long_comp_result (set old_rating from algo_rating, then new)
- *   2. Update or insert algo_rating
- *   3. Mark round as rated
+ *   2. Update or insert algo_rating, keeping highest/lowest_rating up to date
+ *   3. Append the change to rating_history (not in the Java persistor)
+ *   4. Record the milestones reached (not in the Java persistor)
+ *
+ * Works in batches of RATING_PERSIST_BATCH_SIZE coders: one read of the
+ * existing algo_rating rows, one UPDATE ... FROM (VALUES ...), one
+ * INSERT ... ON CONFLICT and one history insert per batch.
+ *
+ * Runs on the transaction client of runRatingProcess; marking the round as
+ * rated is done there, in the same transaction.
  */
-async function persistRatings(roundId: number, coders: CoderRating[]): Promise<void> {
+async function persistRatings(
+  tx: Prisma.TransactionClient,
+  roundId: number,
+  ratingTypeId: number,
+  algorithmVersion: string,
+  inactivity: InactivityAdjustment,
+  coders: CoderRating[]
+): Promise<void> {
   logger.info(`Persisting ratings for ${coders.length} coders in round ${roundId}`);
 
-  for (const coder of coders) {
-    const newRating = coder.newRating ?? coder.rating;
-    const newVol = coder.newVolatility ?? coder.volatility;
+  const batchSize = config.get('RATING_PERSIST_BATCH_SIZE') as number;
+  const ratedAt = new Date();
 
-    // Fetch existing algo_rating for old_rating/old_vol
-    const existingAlgo = await prisma.algo_rating.findFirst({
-      where: { coder_id: coder.coderId, algo_rating_type_id: 3 },
+  for (const batch of _.chunk(coders, batchSize)) {
+    // Fetch existing algo_rating rows for old_rating/old_vol
+    const existingAlgo = await tx.algo_rating.findMany({
+      where: {
+        algo_rating_type_id: ratingTypeId,
+        coder_id: { in: batch.map((c) => c.coderId) },
+      },
+      select: {
+        coder_id: true,
+        rating: true,
+        vol: true,
+        num_ratings: true,
+        highest_rating: true,
+        lowest_rating: true,
+        sigma: true,
+      },
     });
+    const existingByCoder = _.keyBy(existingAlgo, 'coder_id');
+
+    const rows = batch.map((coder) => ({
+      coderId: coder.coderId,
+      oldRating: existingByCoder[coder.coderId]?.rating ?? null,
+      oldVol: existingByCoder[coder.coderId]?.vol ?? null,
+      newRating: coder.newRating ?? coder.rating,
+      newVol: coder.newVolatility ?? coder.volatility,
+      newSigma: coder.newSigma ?? null,
+    }));
 
     // 1. Update long_comp_result
-    await prisma.long_comp_result.updateMany({
-      where: { round_id: roundId, coder_id: coder.coderId },
-      data: {
-        rated_ind: 1,
-        old_rating: existingAlgo?.rating ?? null,
-        old_vol: existingAlgo?.vol ?? null,
-        new_rating: newRating,
-        new_vol: newVol,
-      },
+    await tx.$executeRaw`
+      UPDATE long_comp_result AS lcr
+      SET rated_ind = 1,
+          old_rating = v.old_rating,
+          old_vol = v.old_vol,
+          new_rating = v.new_rating,
+          new_vol = v.new_vol
+      FROM (VALUES ${Prisma.join(
+        rows.map(
+          (r) =>
+            Prisma.sql`(${r.coderId}::int, ${r.oldRating}::int, ${r.oldVol}::int, ${r.newRating}::int, ${r.newVol}::int)`
+        )
+      )}) AS v(coder_id, old_rating, old_vol, new_rating, new_vol)
+      WHERE lcr.round_id = ${roundId} AND lcr.coder_id = v.coder_id`;
+
+    // 2. Upsert algo_rating; the first round is only set on insert
+    await tx.$executeRaw`
+      INSERT INTO algo_rating (
+        coder_id, algo_rating_type_id, rating, vol, num_ratings, round_id,
+        highest_rating, lowest_rating, first_rated_round_id, last_rated_round_id, sigma
+      )
+      VALUES ${Prisma.join(
+        rows.map(
+          (r) =>
+            Prisma.sql`(${r.coderId}, ${ratingTypeId}, ${r.newRating}, ${r.newVol}, 1, ${roundId}, ${r.newRating}, ${r.newRating}, ${roundId}, ${roundId}, ${r.newSigma}::float8)`
+        )
+      )}
+      ON CONFLICT (coder_id, algo_rating_type_id) DO UPDATE
+      SET rating = EXCLUDED.rating,
+          vol = EXCLUDED.vol,
+          sigma = COALESCE(EXCLUDED.sigma, algo_rating.sigma),
+          round_id = EXCLUDED.round_id,
+          num_ratings = algo_rating.num_ratings + 1,
+          highest_rating = GREATEST(algo_rating.highest_rating, EXCLUDED.rating),
+          lowest_rating = LEAST(algo_rating.lowest_rating, EXCLUDED.rating),
+          last_rated_round_id = EXCLUDED.last_rated_round_id`;
+
+    // 3. Record the change in the rating history
+    await tx.rating_history.createMany({
+      data: batch.map((coder, i) => ({
+        coder_id: coder.coderId,
+        round_id: roundId,
+        algo_rating_type_id: ratingTypeId,
+        old_rating: rows[i].oldRating,
+        new_rating: rows[i].newRating,
+        old_vol: rows[i].oldVol,
+        new_vol: rows[i].newVol,
+        num_ratings: (existingByCoder[coder.coderId]?.num_ratings ?? 0) + 1,
+        old_sigma: existingByCoder[coder.coderId]?.sigma ?? null,
+        new_sigma: rows[i].newSigma ?? existingByCoder[coder.coderId]?.sigma ?? null,
+        old_highest_rating: existingByCoder[coder.coderId]?.highest_rating ?? null,
+        old_lowest_rating: existingByCoder[coder.coderId]?.lowest_rating ?? null,
+        expected_rank: coder.expectedRank ?? null,
+        actual_rank: coder.actualRank ?? null,
+        expected_performance: coder.expectedPerformance ?? null,
+        actual_performance: coder.actualPerformance ?? null,
+        algorithm_version: algorithmVersion,
+        inactivity_model: inactivity.model,
+        days_inactive: inactivity.daysAway.get(coder.coderId) ?? null,
+        rated_at: ratedAt,
+      })),
     });
 
-    // 2. Upsert algo_rating
-    if (existingAlgo) {
-      await prisma.algo_rating.updateMany({
-        where: { coder_id: coder.coderId, algo_rating_type_id: 3 },
-        data: {
-          rating: newRating,
-          vol: newVol,
-          round_id: roundId,
-          num_ratings: { increment: 1 },
-          last_rated_round_id: roundId,
-        },
-      });
-    } else {
-      await prisma.algo_rating.create({
-        data: {
-          coder_id: coder.coderId,
-          algo_rating_type_id: 3,
-          rating: newRating,
-          vol: newVol,
-          num_ratings: 1,
-          round_id: roundId,
-          highest_rating: newRating,
-          lowest_rating: newRating,
-          first_rated_round_id: roundId,
-          last_rated_round_id: roundId,
-        },
-      });
-    }
+    // 4. Record the milestones
+    await recordMilestones(
+      tx,
+      rows.flatMap((r) =>
+        detectMilestones(roundId, ratingTypeId, {
+          coderId: r.coderId,
+          // A coder without earlier ratings gets FIRST_RATING
+          oldRating: existingByCoder[r.coderId]?.num_ratings ? r.oldRating : null,
+          oldHighestRating: existingByCoder[r.coderId]?.highest_rating ?? null,
+          newRating: r.newRating,
+        })
+      )
+    );
   }
 
-  // 3. Mark round as rated
-  await prisma.round.updateMany({
-    where: { round_id: roundId },
-    data: { rated_ind: 1 },
-  });
-
   logger.info(`Successfully persisted ratings for round ${roundId}`);
 }
 
+// ---------------------------------------------------------------------------
+// Round rating status
+// ---------------------------------------------------------------------------
+
+/**
+ * Lifecycle of round.rating_status:
+ *   PENDING     - never rated (or rolled back)
+ *   IN_PROGRESS - a run has started; if it stays here the run died mid-way
+ *                 and its writes were rolled back with the transaction
+ *   FAILED      - the last run failed and was rolled back (see rating_error)
+ *   DEFERRED    - calculate() could not check the attendance; its message
+ *                 is retried, then dead-lettered (see AttendanceService)
+ *   RATED       - committed together with the ratings, so never half-done
+ */
+export type RoundRatingStatus = 'PENDING' | 'IN_PROGRESS' | 'FAILED' | 'RATED' | 'DEFERRED';
+
+/**
+ * Record the rating status of a round outside of the rating transaction,
+ * so the marker survives a rollback.
+ */
+async function markRoundStatus(
+  roundId: number,
+  status: RoundRatingStatus,
+  error?: any
+): Promise<void> {
+  const data: Prisma.roundUpdateManyMutationInput = { rating_status: status };
+  if (status === 'IN_PROGRESS') {
+    data.rating_started_at = new Date();
+    data.rating_finished_at = null;
+    data.rating_error = null;
+  } else {
+    data.rating_finished_at = new Date();
+    data.rating_error = error ? String(error?.message || error) : null;
+  }
+  await prisma.round.updateMany({ where: { round_id: roundId }, data });
+}
+
 // ---------------------------------------------------------------------------
 // Rating calculation (replaces Java MarathonRatingProcess.runProcess)
 // ---------------------------------------------------------------------------
 
+/**
+ * Rating change computed for one coder.
+ * oldRating/oldVolatility are null for a coder rated for the first time.
+ */
+export interface CoderRatingChange {
+  coderId: number;
+  score: number;
+  oldRating: number | null;
+  oldVolatility: number | null;
+  newRating: number;
+  newVolatility: number;
+  delta: number | null;
+  expectedRank: number | null;
+  actualRank: number | null;
+  firstRating: boolean;
+  // Days since the coder's last rated round, when known
+  daysInactive: number | null;
+}
+
+/**
+ * Duration of one phase of a run.
+ */
+export interface PhaseTiming {
+  phase: string;
+  durationMs: number;
+}
+
+/**
+ * Outcome of a rating run; the counts are published with the
+ * RATINGS_CALCULATION event.
+ */
+export interface RatingProcessResult {
+  status: 'SUCCESS' | 'ALREADY_CALCULATED' | 'PREVIEW';
+  ratingTypeId: number;
+  algorithmVersion: string;
+  inactivityModel: string;
+  firstTimers: number;
+  experiencedCoders: number;
+  changes: CoderRatingChange[];
+  // load, rate, persist and milestones, in the order they ran
+  timings: PhaseTiming[];
+  // The attendance reconciliation of calculate()
+  attendance?: AttendanceReport;
+}
+
+export interface RatingProcessOptions {
+  // Compute the ratings but write nothing (no long_comp_result, algo_rating or round changes)
+  dryRun?: boolean;
+  // Rating type to rate the round as; defaults to the type recorded on the round
+  ratingTypeId?: number;
+  // Algorithm name, overriding the configured one (e.g. to preview a trial algorithm)
+  algorithm?: string;
+  // Inactivity model version, overriding RATING_INACTIVITY_MODEL (e.g. to re-rate with the recorded one)
+  inactivityModel?: string;
+  // Date of the round when it has none recorded (the challenge's end date); defaults to the run's date
+  roundDate?: Date;
+  // What calculate() does when the V5 submissions are unavailable; defaults to ATTENDANCE_UNAVAILABLE_POLICY
+  attendancePolicy?: AttendancePolicy;
+  // Whether calculate() builds the coders and scores from the V5 review summations; defaults to SCORE_INGESTION_ENABLED
+  ingestScores?: boolean;
+  // Called as each phase completes (e.g. to record it in a rating_job)
+  onPhase?: (timing: PhaseTiming) => Promise<void> | void;
+  // Dry runs: the reconciliation calculate() did not write, rated in place of the stored attendance
+  reconciledAttendance?: ReconciledAttendance;
+}
+
+/**
+ * Run one phase of a run and record its duration, in the timings, in the
+ * rating_phase_duration_seconds metric and through onPhase.
+ */
+async function timePhase<T>(
+  timings: PhaseTiming[],
+  phase: string,
+  fn: () => Promise<T>,
+  onPhase?: RatingProcessOptions['onPhase']
+): Promise<T> {
+  const start = Date.now();
+  try {
+    return await fn();
+  } finally {
+    const timing = { phase, durationMs: Date.now() - start };
+    timings.push(timing);
+    ratingPhaseDuration.observe({ phase }, timing.durationMs / 1000);
+    await onPhase?.(timing);
+  }
+}
+
+/**
+ * Describe the change of each rated coder against the loaded data, before
+ * any inactivity adjustment.
+ */
+function describeChanges(
+  data: CoderRating[],
+  rated: CoderRating[],
+  daysAway: Map<number, number>
+): CoderRatingChange[] {
+  const original = _.keyBy(data, 'coderId');
+  return rated.map((c) => {
+    const before = original[c.coderId];
+    const firstRating = before.numRatings === 0;
+    const newRating = c.newRating ?? c.rating;
+    return {
+      coderId: c.coderId,
+      score: c.score,
+      oldRating: firstRating ? null : before.rating,
+      oldVolatility: firstRating ? null : before.volatility,
+      newRating,
+      newVolatility: c.newVolatility ?? c.volatility,
+      delta: firstRating ? null : newRating - before.rating,
+      expectedRank: c.expectedRank ?? null,
+      actualRank: c.actualRank ?? null,
+      firstRating,
+      daysInactive: daysAway.get(c.coderId) ?? null,
+    };
+  });
+}
+
 /**
  * Run the full rating calculation for a round.
  * This mirrors MarathonRatingProcess.runProcess():
- *   1. Load data
- *   2. Run algorithm on ALL coders (provisional)
- *   3. Persist first-timers only
- *   4. Run algorithm on experienced coders only (non-provisional)
- *   5. Persist experienced coders
+ *   1. Load data, and adjust the returning coders with the inactivity model
+ *      (selectInactivityModel; not in the Java process)
+ *   2. Run algorithm on ALL coders (provisional), keep first-timers only
+ *   3. Run algorithm on experienced coders only (non-provisional)
+ *   4. Persist first-timers, then experienced coders, then mark the round rated
+ *
+ * Step 4 runs in a single transaction: a failure or crash part-way leaves no
+ * partial ratings behind, and round.rating_status tells the attempt apart from
+ * a completed run. With dryRun, step 4 is skipped and the result only reports
+ * the changes that would be made.
+ *
+ * The round is rated as options.ratingTypeId, or else as its recorded type;
+ * the type used is recorded on the round with the ratings.
  */
-async function runRatingProcess(roundId: number): Promise<string> {
-  logger.info(`Starting rating process for round ${roundId}`);
-
-  const data = await loadCoderData(roundId);
+export async function runRatingProcess(
+  roundId: number,
+  options: RatingProcessOptions = {}
+): Promise<RatingProcessResult> {
+  addLogContext({ roundId });
+  const ratingTypeId = options.ratingTypeId ?? (await getRoundRatingTypeId(roundId));
+  const ratingType = getRatingType(ratingTypeId);
+  const algorithm = selectAlgorithm(roundId, ratingType, options.algorithm);
+  const algorithmVersion = algorithm.version;
+  const inactivityModel = selectInactivityModel(options.inactivityModel);
+  logger.info(
+    `Starting ${ratingType.name} rating process (${algorithmVersion}, inactivity ${inactivityModel.version})` +
+      ` for round ${roundId}${options.dryRun ? ' (dry run)' : ''}`
+  );
+
+  const timings: PhaseTiming[] = [];
+  const time = <T>(phase: string, fn: () => Promise<T>) => timePhase(timings, phase, fn, options.onPhase);
+  const roundDate = await getRoundDate(roundId, options.roundDate ?? new Date());
+  const { data, daysAway } = await time('load', async () => {
+    const coders = options.dryRun && options.reconciledAttendance
+      ? await loadReconciledCoderData(roundId, ratingTypeId, options.reconciledAttendance)
+      : await loadCoderData(roundId, ratingTypeId);
+    return { data: coders, daysAway: await loadDaysAway(ratingTypeId, coders, roundDate) };
+  });
+  const inactivity: InactivityAdjustment = { model: inactivityModel.version, daysAway };
 
   if (data.length === 0) {
     logger.info(`No unrated coders found for round ${roundId}. Already calculated or no data.`);
-    return 'ALREADY_CALCULATED';
+    return {
+      status: 'ALREADY_CALCULATED',
+      ratingTypeId,
+      algorithmVersion,
+      inactivityModel: inactivityModel.version,
+      firstTimers: 0,
+      experiencedCoders: 0,
+      changes: [],
+      timings,
+    };
+  }
+
+  // Provisional run on all coders for the first-timers, non-provisional run
+  // on the experienced coders
+  const { firstTimers, experienced: ratedNonProvData } = await time('rate', async () =>
+    ratePasses(algorithm, applyInactivity(inactivityModel, data, daysAway))
+  );
+
+  const changes = describeChanges(data, [...firstTimers, ...ratedNonProvData], daysAway);
+
+  if (options.dryRun) {
+    return {
+      status: 'PREVIEW',
+      ratingTypeId,
+      algorithmVersion,
+      inactivityModel: inactivityModel.version,
+      firstTimers: firstTimers.length,
+      experiencedCoders: ratedNonProvData.length,
+      changes,
+      timings,
+    };
   }
 
-  // Provisional run: all coders
-  const provData = data.map((c) => ({ ...c }));
-  const ratedProvData = processMarathonRatingsProvisional(provData);
+  await markRoundStatus(roundId, 'IN_PROGRESS');
+  try {
+    await time('persist', () => prisma.$transaction(
+      async (tx) => {
+        if (firstTimers.length > 0) {
+          await persistRatings(tx, roundId, ratingTypeId, algorithmVersion, inactivity, firstTimers);
+          logger.info(`Persisted ${firstTimers.length} first-timer ratings (provisional)`);
+        }
 
-  // Filter to first-timers only (numRatings === 1 after algorithm run)
-  const firstTimers = ratedProvData.filter((c) => c.numRatings === 1);
+        if (ratedNonProvData.length > 0) {
+          await persistRatings(tx, roundId, ratingTypeId, algorithmVersion, inactivity, ratedNonProvData);
+          logger.info(`Persisted ${ratedNonProvData.length} experienced-coder ratings (non-provisional)`);
+        }
 
-  // Persist first-timers
-  if (firstTimers.length > 0) {
-    await persistRatings(roundId, firstTimers);
-    logger.info(`Persisted ${firstTimers.length} first-timer ratings (provisional)`);
+        // The real ratings replace the projections of the match
+        await finalizeProjections(tx, roundId, ratingTypeId, algorithmVersion, changes);
+
+        // Keep the date the days away were counted to, for a later re-rate
+        await tx.round.updateMany({
+          where: { round_id: roundId, round_date: null },
+          data: { round_date: roundDate },
+        });
+
+        // Mark round as rated, atomically with the ratings
+        await tx.round.updateMany({
+          where: { round_id: roundId },
+          data: {
+            rated_ind: 1,
+            algo_rating_type_id: ratingTypeId,
+            rating_status: 'RATED',
+            rating_finished_at: new Date(),
+            rating_error: null,
+          },
+        });
+      },
+      {
+        maxWait: config.get('RATING_TRANSACTION_MAX_WAIT') as number,
+        timeout: config.get('RATING_TRANSACTION_TIMEOUT') as number,
+      }
+    ));
+  } catch (error) {
+    logger.error(`Rating transaction for round ${roundId} rolled back`, { error });
+    await markRoundStatus(roundId, 'FAILED', error);
+    throw error;
   }
 
-  // Non-provisional run: only experienced coders (from original data)
-  const nonProvData = data.filter((c) => c.numRatings > 0).map((c) => ({ ...c }));
+  await time('milestones', () => publishRoundMilestones(roundId));
+  codersRatedPerRound.observe({ rating_type: ratingType.name }, firstTimers.length + ratedNonProvData.length);
+
+  return {
+    status: 'SUCCESS',
+    ratingTypeId,
+    algorithmVersion,
+    inactivityModel: inactivityModel.version,
+    firstTimers: firstTimers.length,
+    experiencedCoders: ratedNonProvData.length,
+    changes,
+    timings,
+  };
+}
 
-  if (nonProvData.length > 0) {
-    const ratedNonProvData = processMarathonRatingsProvisional(nonProvData);
-    await persistRatings(roundId, ratedNonProvData);
-    logger.info(`Persisted ${ratedNonProvData.length} experienced-coder ratings (non-provisional)`);
+/**
+ * Parse '<key>:<value>,...' config into a map with upper-case keys.
+ */
+function parseAssignments(value: string): Record<string, string> {
+  const result: Record<string, string> = {};
+  for (const pair of value.split(',')) {
+    const [key, name] = pair.split(':').map((p) => p.trim());
+    if (key && name) result[key.toUpperCase()] = name;
   }
-
-  return 'SUCCESS';
+  return result;
 }
 
 /**
- * Single-pass algorithm run (used for both provisional and non-provisional).
- * Wraps the AlgorithmQubits runQubitsAlgorithm directly.
+ * Select the algorithm of a round, first match wins:
+ *   1. the override of the run (options.algorithm)
+ *   2. RATING_ALGORITHM_BY_ROUND, e.g. '10001:glicko2'
+ *   3. RATING_ALGORITHM_BY_TYPE, e.g. 'SRM:elo'
+ *   4. the algorithm of the rating type (qubits)
  */
-import { runQubitsAlgorithm } from '../libs/algorithm/AlgorithmQubits';
+function selectAlgorithm(roundId: number, ratingType: RatingType, override?: string): RatingAlgorithm {
+  const byRound = parseAssignments(String(config.get('RATING_ALGORITHM_BY_ROUND')));
+  const byType = parseAssignments(String(config.get('RATING_ALGORITHM_BY_TYPE')));
+  return getAlgorithm(
+    override || byRound[String(roundId)] || byType[ratingType.name] || ratingType.algorithm
+  );
+}
 
-function processMarathonRatingsProvisional(coders: CoderRating[]): CoderRating[] {
-  if (coders.length === 0) return coders;
-  return runQubitsAlgorithm(coders);
+/**
+ * Select the inactivity model of a run: the override of the run
+ * (options.inactivityModel), else RATING_INACTIVITY_MODEL.
+ */
+function selectInactivityModel(override?: string): InactivityModel {
+  return getInactivityModel(override || String(config.get('RATING_INACTIVITY_MODEL')));
 }
 
 // ---------------------------------------------------------------------------
@@ -209,87 +687,246 @@ function processMarathonRatingsProvisional(coders: CoderRating[]): CoderRating[]
 // ---------------------------------------------------------------------------
 
 /**
- * Main entry point — called from KafkaHandlerService for autopilot events.
+ * Resolve the roundId of a legacy challenge (contest) id.
+ * In the old code this was: infxDB.getRoundId(legacyId)
+ * The round table now has contest_id to mirror the original Informix schema;
+ * without a matching round the legacy id is used as the round id.
+ */
+export async function resolveRoundId(legacyId: number): Promise<number> {
+  const roundRow = await prisma.round.findFirst({
+    where: { contest_id: legacyId },
+  });
+  return roundRow ? roundRow.round_id : legacyId;
+}
+
+/**
+ * The reconciliation of a dry run, as reported by reconcileAttendance.
+ */
+function toReconciledAttendance(report: AttendanceReport): ReconciledAttendance {
+  return {
+    attended: new Map(report.changes.map((c) => [c.coderId, c.newAttended])),
+    scores: report.previewScores ?? [],
+  };
+}
+
+/**
+ * Main entry point — called from KafkaHandlerService for autopilot events,
+ * with the rating type of the challenge's subTrack in options.ratingTypeId.
  * Preserves original calculate() signature and behavior:
  *   1. Resolve roundId from legacyId via Prisma
- *   2. Pre-process: update attended flags from V5 submissions
+ *   2. Pre-process: reconcile attended flags with the V5 submissions (AttendanceService),
+ *      after building the coders and scores from them with score ingestion
  *   3. Run local rating calculation (replaces external API call)
+ *   4. Publish RATINGS_CALCULATION SUCCESS/FAILURE (formerly done by the external service)
+ *
+ * With options.dryRun nothing is written and no event is published: attendance
+ * fixes and ingested scores are only reported, the ratings are computed with
+ * them applied in memory, and the result carries the would-be rating changes.
+ * Otherwise steps 2-3 hold the round lock; a round locked by another run
+ * fails with RoundLockedError. A run deferred by the attendance policy marks
+ * the round DEFERRED and publishes no failure, as its message is retried.
  */
-export async function calculate(challengeId: string, legacyId: number): Promise<void> {
+export async function calculate(
+  challengeId: string,
+  legacyId: number,
+  options: RatingProcessOptions = {}
+): Promise<RatingProcessResult> {
+  let roundId = legacyId;
+  let result: RatingProcessResult;
   try {
-    logger.info('=== Marathon Match ratings calculation start ===');
+    addLogContext({ challengeId });
+    logger.info(`=== Ratings calculation start for challenge ${challengeId} ===`);
 
     // Resolve roundId from legacy challenge ID
-    // In the old code this was: infxDB.getRoundId(legacyId)
-        // The round table now has contest_id to mirror the original Informix schema.
-    const roundRow = await prisma.round.findFirst({
-      where: { contest_id: legacyId },
-    });
-    const roundId = roundRow ? roundRow.round_id : legacyId;
+    roundId = await resolveRoundId(legacyId);
+    addLogContext({ roundId });
     logger.info(`Round ID: ${roundId}`);
 
-    // Pre-process: ensure attended flags are correct
-    // Original code fetched LCR entries and V5 submissions,
-    // then updated attended='Y' for members with valid final submissions.
-    const lcrEntries = await prisma.long_comp_result.findMany({
-      where: { round_id: roundId },
-    });
-
-    try {
-      const submissions = await getSubmissions(challengeId);
-      const finalSubmissions = await getFinalSubmissions(submissions);
-      logger.info(`Final submissions: ${finalSubmissions.length}`);
-
-      for (const submission of finalSubmissions) {
-        const match = lcrEntries.find(
-          (e) => e.coder_id === submission.memberId
-        );
-        if (match && match.attended === 'N') {
-          await prisma.long_comp_result.updateMany({
-            where: { round_id: roundId, coder_id: match.coder_id },
-            data: { attended: 'Y' },
-          });
-        }
+    // Dry runs write nothing, so they do not need the round lock
+    const run = async () => {
+      const attendance: PhaseTiming[] = [];
+      const ingestScores = options.ingestScores ?? isScoreIngestionEnabled();
+      if (ingestScores && !options.dryRun) {
+        await ensureRound(roundId, legacyId, options.ratingTypeId);
       }
-    } catch (subError) {
-      // V5 API may not be available in local/test environments.
-      // Log and continue with existing data.
-      logger.warn(`Could not fetch V5 submissions (non-fatal): ${subError}`);
+      const report = await timePhase(attendance, 'attendance', () =>
+        reconcileAttendance(challengeId, roundId, {
+          dryRun: options.dryRun,
+          policy: options.attendancePolicy,
+          ingestScores,
+        }),
+        options.onPhase
+      );
+      // Run the rating calculation locally; a dry run rates on the
+      // reconciliation it did not write
+      const processResult = await runRatingProcess(
+        roundId,
+        options.dryRun ? { ...options, reconciledAttendance: toReconciledAttendance(report) } : options
+      );
+      return { ...processResult, timings: [...attendance, ...processResult.timings], attendance: report };
+    };
+    result = options.dryRun ? await run() : await withRoundLock(roundId, run);
+
+    logger.info(`=== Ratings calculation ${result.status} for round ${roundId} ===`);
+  } catch (error) {
+    logger.error(`=== Ratings calculation failure for challenge ${challengeId} ===`, { error });
+    if (!options.dryRun && error instanceof AttendanceDeferredError) {
+      await markRoundStatus(roundId, 'DEFERRED', error);
+    } else if (!options.dryRun && !(error instanceof RoundLockedError)) {
+      // A locked round is being rated by another run, which reports the outcome
+      await publishFailure('RATINGS_CALCULATION', roundId, error);
     }
+    throw error;
+  }
+
+  if (options.dryRun) {
+    return result;
+  }
+
+  // Replaces the event the external service published on completion;
+  // KafkaHandlerService chains loadCoders() on it.
+  await publishSuccess('RATINGS_CALCULATION', roundId, {
+    challengeId,
+    ratingTypeId: result.ratingTypeId,
+    calculationStatus: result.status,
+    ratedCoders: result.firstTimers + result.experiencedCoders,
+    firstTimers: result.firstTimers,
+    experiencedCoders: result.experiencedCoders,
+  });
+  return result;
+}
 
-    // Run the rating calculation locally
-    const status = await runRatingProcess(roundId);
+export interface RateRoundOptions {
+  // Rating type to rate the round as; defaults to the type recorded on the round
+  ratingTypeId?: number;
+  // Algorithm name, overriding the configured one (a re-rate uses the recorded one)
+  algorithm?: string;
+  // Inactivity model version, overriding RATING_INACTIVITY_MODEL (a re-rate uses the recorded one)
+  inactivityModel?: string;
+  // The caller already holds the round lock (rerateRound)
+  lockHeld?: boolean;
+}
 
-    logger.info(`=== Marathon Match ratings calculation ${status} ===`);
+/**
+ * Rate a round that is already prepared (attendance flags in place), without
+ * the V5 pre-processing of calculate(). Used for manual runs and re-rating.
+ * Publishes RATINGS_CALCULATION SUCCESS/FAILURE like calculate().
+ * The round is rated as options.ratingTypeId, or else as its recorded type.
+ */
+export async function rateRound(roundId: number, options: RateRoundOptions = {}): Promise<RatingProcessResult> {
+  let result: RatingProcessResult;
+  try {
+    const { ratingTypeId, algorithm, inactivityModel } = options;
+    const run = () => runRatingProcess(roundId, { ratingTypeId, algorithm, inactivityModel });
+    result = options.lockHeld ? await run() : await withRoundLock(roundId, run);
+    logger.info(`Rating of round ${roundId}: ${result.status}`);
   } catch (error) {
-    logger.error('=== Marathon Match ratings calculation failure ===');
-    logger.error(`${error}`);
+    if (!(error instanceof RoundLockedError)) {
+      await publishFailure('RATINGS_CALCULATION', roundId, error);
+    }
     throw error;
   }
+
+  await publishSuccess('RATINGS_CALCULATION', roundId, {
+    ratingTypeId: result.ratingTypeId,
+    calculationStatus: result.status,
+    ratedCoders: result.firstTimers + result.experiencedCoders,
+    firstTimers: result.firstTimers,
+    experiencedCoders: result.experiencedCoders,
+  });
+  return result;
+}
+
+/**
+ * Project the ratings of a match in progress from the current provisional
+ * scores of its final submissions (see ProvisionalRatingService), rated like
+ * the round will be: both passes, the round's algorithm and inactivity model,
+ * the coders' current algo_rating. Only provisional_rating is written.
+ * Returns the number of coders projected; 0 once the round is rated or while
+ * nobody has a score.
+ */
+export async function projectRatings(challengeId: string, legacyId: number, ratingTypeId: number): Promise<number> {
+  const roundId = await resolveRoundId(legacyId);
+  addLogContext({ challengeId, roundId });
+
+  const round = await prisma.round.findUnique({ where: { round_id: roundId }, select: { rated_ind: true } });
+  if (round?.rated_ind) {
+    logger.info(`Round ${roundId} is rated; no projection`);
+    return 0;
+  }
+
+  const scores = scoreSubmissions(
+    await getFinalSubmissions(await getSubmissions(challengeId)),
+    getProvisionalScoreMapping()
+  );
+  if (scores.length === 0) return 0;
+
+  const current = await prisma.algo_rating.findMany({
+    where: { algo_rating_type_id: ratingTypeId, coder_id: { in: scores.map((s) => s.coderId) } },
+    select: { coder_id: true, rating: true, vol: true, num_ratings: true, sigma: true },
+  });
+  const currentByCoder = _.keyBy(current, 'coder_id');
+  const data: CoderRating[] = scores.map((s) => {
+    const ar = currentByCoder[s.coderId];
+    return {
+      coderId: s.coderId,
+      rating: ar?.rating ?? 0,
+      volatility: ar?.vol ?? 0,
+      numRatings: ar?.num_ratings ?? 0,
+      score: s.score,
+      placed: s.placed,
+      ...(ar?.sigma != null ? { sigma: ar.sigma } : {}),
+    };
+  });
+
+  const algorithm = selectAlgorithm(roundId, getRatingType(ratingTypeId));
+  const daysAway = await loadDaysAway(ratingTypeId, data, await getRoundDate(roundId, new Date()));
+  const { firstTimers, experienced } = ratePasses(algorithm, applyInactivity(selectInactivityModel(), data, daysAway));
+  const changes = describeChanges(data, [...firstTimers, ...experienced], daysAway);
+  const saved = await saveProjections(roundId, ratingTypeId, algorithm.version, changes);
+  return saved ? changes.length : 0;
 }
 
 /**
  * Load marathon ratings data to DW (replaces /ratings/mm/load API call).
  * Called by KafkaHandlerService in response to LOAD_CODERS success event.
- *
- * NOTE: The /ratings/mm/load endpoint is NOT in scope for this challenge.
- * The DW loading logic remains in the external service or is a no-op here.
+ * Copies the round's rated results and ratings to the warehouse and publishes
+ * LOAD_RATINGS SUCCESS/FAILURE with the row counts, which it returns.
  */
-export async function loadRatings(roundId: number): Promise<void> {
-  logger.info(`=== Load Ratings start for round ${roundId} ===`);
-  // DW loading is out of scope for this challenge (/ratings/mm/load not in scope).
-  // In production, this would either call the external service or be migrated separately.
-  logger.info(`=== Load Ratings end for round ${roundId} ===`);
+export async function loadRatings(roundId: number): Promise<LoadResult> {
+  let result: LoadResult;
+  try {
+    addLogContext({ roundId });
+    logger.info(`=== Load Ratings start for round ${roundId} ===`);
+    result = await loadRoundRatings(roundId);
+    logger.info(`=== Load Ratings end for round ${roundId} ===`);
+  } catch (error) {
+    logger.error(`=== Load Ratings failure for round ${roundId} ===`, { error });
+    await publishFailure('LOAD_RATINGS', roundId, error);
+    throw error;
+  }
+  await publishSuccess('LOAD_RATINGS', roundId, { rowsRead: result.rowsRead, rowsWritten: result.rowsWritten });
+  return result;
 }
 
 /**
  * Load coder data to DW (replaces /ratings/coders/load API call).
  * Called by KafkaHandlerService in response to RATINGS_CALCULATION success event.
- *
- * NOTE: The /ratings/coders/load endpoint is NOT in scope for this challenge.
+ * Copies the coder dimension of the round's coders to the warehouse and
+ * publishes LOAD_CODERS SUCCESS/FAILURE; SUCCESS chains loadRatings().
  */
-export async function loadCoders(roundId: number): Promise<void> {
-  logger.info(`=== Load Coders start for round ${roundId} ===`);
-  // Coder loading is out of scope for this challenge (/ratings/coders/load not in scope).
-  logger.info(`=== Load Coders end for round ${roundId} ===`);
+export async function loadCoders(roundId: number): Promise<LoadResult> {
+  let result: LoadResult;
+  try {
+    addLogContext({ roundId });
+    logger.info(`=== Load Coders start for round ${roundId} ===`);
+    result = await loadCoderDimension(roundId);
+    logger.info(`=== Load Coders end for round ${roundId} ===`);
+  } catch (error) {
+    logger.error(`=== Load Coders failure for round ${roundId} ===`, { error });
+    await publishFailure('LOAD_CODERS', roundId, error);
+    throw error;
+  }
+  await publishSuccess('LOAD_CODERS', roundId, { rowsRead: result.rowsRead, rowsWritten: result.rowsWritten });
+  return result;
 }
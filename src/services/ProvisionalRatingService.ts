@@ -0,0 +1,242 @@
+/**
+ * ProvisionalRatingService - Projected ratings of a marathon match in
+ * progress: what each participant's rating would be if the match ended now.
+ *
+ * Review and scoring updates of an active challenge (KAFKA_SUBMISSION_SCORING_TOPIC,
+ * with PROVISIONAL_RATINGS_ENABLED) schedule a projection of its round
+ * (projectRatings in MarathonRatingsService). Projections are throttled per
+ * challenge: at most one every PROVISIONAL_RATING_INTERVAL, the updates in
+ * between collapsing into the next one. An update that only names its
+ * submission is throttled per submission, and its challenge is looked up
+ * when that runs. The throttle is per processor instance.
+ *
+ * Projections are stored in provisional_rating, one row per coder of the
+ * round, and never reach algo_rating. When the round is rated, persistRatings
+ * overwrites them with the real results (status FINAL), after which no
+ * projection replaces them; a rollback removes them.
+ */
+
+import config from 'config';
+import { Prisma } from '@prisma/client';
+import { createLogger, runWithLogContext } from '../common/logger';
+import { prisma } from '../common/prismaClient';
+import { getScoreMapping, parseSummationFilter, ScoreMapping } from './ScoreIngestionService';
+
+const logger = createLogger('ProvisionalRatingService');
+
+/**
+ * PROJECTED - from the provisional scores of a running match
+ * FINAL     - the round's real rating
+ */
+export type ProvisionalStatus = 'PROJECTED' | 'FINAL';
+
+/**
+ * Rating of one coder, projected or final.
+ */
+export interface ProvisionalRating {
+  coderId: number;
+  score: number;
+  oldRating: number | null;
+  oldVolatility: number | null;
+  newRating: number;
+  newVolatility: number;
+  expectedRank: number | null;
+  actualRank: number | null;
+}
+
+export interface ProvisionalRatings {
+  roundId: number;
+  ratingTypeId: number;
+  status: ProvisionalStatus;
+  algorithmVersion: string;
+  projectedAt: Date;
+  // Highest projected rank first
+  coders: ProvisionalRating[];
+}
+
+/**
+ * Whether review and scoring updates are consumed for projections.
+ */
+export function isProvisionalRatingEnabled(): boolean {
+  return String(config.get('PROVISIONAL_RATINGS_ENABLED')).toLowerCase() === 'true';
+}
+
+/**
+ * The score mapping of the provisional scores: the ingestion's, with
+ * PROVISIONAL_SCORE_SUMMATION_FILTER selecting the summations.
+ */
+export function getProvisionalScoreMapping(): ScoreMapping {
+  return {
+    ...getScoreMapping(),
+    filter: parseSummationFilter(String(config.get('PROVISIONAL_SCORE_SUMMATION_FILTER'))),
+  };
+}
+
+// ---------------------------------------------------------------------------
+// Throttling
+// ---------------------------------------------------------------------------
+
+interface ThrottleState {
+  lastRunAt: number;
+  timer: NodeJS.Timeout | null;
+  // The running projection; the next one waits for it
+  running: Promise<void>;
+}
+
+const throttles = new Map<string, ThrottleState>();
+
+/**
+ * Schedule a projection under a key (a challenge id, or submission:<id>), at
+ * the earliest PROVISIONAL_RATING_INTERVAL after the last one of the key.
+ * Returns false when one is already scheduled, which will see the update.
+ */
+export function scheduleProjection(key: string, project: () => Promise<unknown>): boolean {
+  let state = throttles.get(key);
+  if (!state) {
+    state = { lastRunAt: 0, timer: null, running: Promise.resolve() };
+    throttles.set(key, state);
+  }
+  if (state.timer) return false;
+
+  const throttle = state;
+  const interval = config.get('PROVISIONAL_RATING_INTERVAL') as number;
+  const delay = Math.max(0, throttle.lastRunAt + interval - Date.now());
+  throttle.timer = setTimeout(() => {
+    throttle.timer = null;
+    throttle.running = throttle.running.then(() => {
+      throttle.lastRunAt = Date.now();
+      return runWithLogContext({ correlationId: `projection:${key}` }, async () => {
+        try {
+          await project();
+        } catch (error) {
+          logger.error(`Projection ${key} failed`, { error });
+        }
+      });
+    });
+  }, delay);
+  // Pending projections do not keep the process alive
+  throttle.timer.unref();
+  return true;
+}
+
+/**
+ * Drop the scheduled projections (shutdown, tests).
+ */
+export function cancelProjections(): void {
+  throttles.forEach((state) => {
+    if (state.timer) clearTimeout(state.timer);
+  });
+  throttles.clear();
+}
+
+// ---------------------------------------------------------------------------
+// Storage
+// ---------------------------------------------------------------------------
+
+function toRows(
+  roundId: number,
+  ratingTypeId: number,
+  status: ProvisionalStatus,
+  algorithmVersion: string,
+  coders: ProvisionalRating[],
+  projectedAt: Date
+): Prisma.provisional_ratingCreateManyInput[] {
+  return coders.map((c) => ({
+    round_id: roundId,
+    coder_id: c.coderId,
+    algo_rating_type_id: ratingTypeId,
+    status,
+    score: c.score,
+    old_rating: c.oldRating,
+    old_vol: c.oldVolatility,
+    new_rating: c.newRating,
+    new_vol: c.newVolatility,
+    expected_rank: c.expectedRank,
+    actual_rank: c.actualRank,
+    algorithm_version: algorithmVersion,
+    projected_at: projectedAt,
+  }));
+}
+
+/**
+ * Replace the projections of a round. Returns false, writing nothing, once
+ * the round has its final ratings.
+ */
+export async function saveProjections(
+  roundId: number,
+  ratingTypeId: number,
+  algorithmVersion: string,
+  coders: ProvisionalRating[]
+): Promise<boolean> {
+  return prisma.$transaction(async (tx) => {
+    const final = await tx.provisional_rating.count({ where: { round_id: roundId, status: 'FINAL' } });
+    if (final > 0) return false;
+
+    await tx.provisional_rating.deleteMany({ where: { round_id: roundId } });
+    await tx.provisional_rating.createMany({
+      data: toRows(roundId, ratingTypeId, 'PROJECTED', algorithmVersion, coders, new Date()),
+    });
+    logger.info(`Projected ratings of ${coders.length} coders for round ${roundId}`);
+    return true;
+  });
+}
+
+/**
+ * Overwrite the projections of a round with its real ratings. Runs in the
+ * rating transaction; a round rated in several runs (e.g. after attendance
+ * changes) keeps the final rows of each.
+ */
+export async function finalizeProjections(
+  tx: Prisma.TransactionClient,
+  roundId: number,
+  ratingTypeId: number,
+  algorithmVersion: string,
+  coders: ProvisionalRating[]
+): Promise<void> {
+  await tx.provisional_rating.deleteMany({
+    where: {
+      round_id: roundId,
+      OR: [{ status: 'PROJECTED' }, { coder_id: { in: coders.map((c) => c.coderId) } }],
+    },
+  });
+  await tx.provisional_rating.createMany({
+    data: toRows(roundId, ratingTypeId, 'FINAL', algorithmVersion, coders, new Date()),
+  });
+}
+
+/**
+ * Remove the provisional ratings of a rolled-back round.
+ */
+export async function clearProjections(tx: Prisma.TransactionClient, roundId: number): Promise<void> {
+  await tx.provisional_rating.deleteMany({ where: { round_id: roundId } });
+}
+
+/**
+ * The provisional (or, once rated, final) ratings of a round, best projected
+ * rank first; null when the round has none.
+ */
+export async function getProvisionalRatings(roundId: number): Promise<ProvisionalRatings | null> {
+  const rows = await prisma.provisional_rating.findMany({
+    where: { round_id: roundId },
+    orderBy: [{ actual_rank: 'asc' }, { coder_id: 'asc' }],
+  });
+  if (rows.length === 0) return null;
+
+  return {
+    roundId,
+    ratingTypeId: rows[0].algo_rating_type_id,
+    status: rows.some((r) => r.status === 'FINAL') ? 'FINAL' : 'PROJECTED',
+    algorithmVersion: rows[0].algorithm_version,
+    projectedAt: new Date(Math.max(...rows.map((r) => r.projected_at.getTime()))),
+    coders: rows.map((r) => ({
+      coderId: r.coder_id,
+      score: Number(r.score),
+      oldRating: r.old_rating,
+      oldVolatility: r.old_vol,
+      newRating: r.new_rating,
+      newVolatility: r.new_vol,
+      expectedRank: r.expected_rank,
+      actualRank: r.actual_rank,
+    })),
+  };
+}
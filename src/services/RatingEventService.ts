@@ -0,0 +1,94 @@
+/**
+ * RatingEventService - Publishes rating-service status events.
+ *
+ * KafkaHandlerService sequences the rating pipeline on these events:
+ *   RATINGS_CALCULATION SUCCESS -> loadCoders()
+ *   LOAD_CODERS SUCCESS         -> loadRatings()
+ *
+ * They used to be produced by the external ratings-calculation-service; they are
+ * now published here after calculate(), loadCoders() and loadRatings(), using the
+ * same envelope (topic, originator, timestamp, payload) the handler reads.
+ */
+
+import config from 'config';
+import { createLogger } from '../common/logger';
+import { getProducer } from '../common/kafkaProducer';
+import { RATING_SERVICE_ORIGINATOR } from '../common/schemas';
+
+export { RATING_SERVICE_ORIGINATOR };
+
+const logger = createLogger('RatingEventService');
+
+export type RatingEventType = 'RATINGS_CALCULATION' | 'LOAD_CODERS' | 'LOAD_RATINGS';
+
+export type RatingEventStatus = 'SUCCESS' | 'FAILURE';
+
+/**
+ * Envelope of a rating-service event.
+ */
+export interface RatingEvent {
+  topic: string;
+  originator: string;
+  timestamp: string;
+  'mime-type': string;
+  payload: {
+    event: RatingEventType;
+    status: RatingEventStatus;
+    roundId: number;
+    [key: string]: any;
+  };
+}
+
+/**
+ * Build a rating-service event envelope.
+ */
+export function buildRatingEvent(
+  event: RatingEventType,
+  status: RatingEventStatus,
+  roundId: number,
+  details: Record<string, any> = {}
+): RatingEvent {
+  return {
+    topic: config.get('KAFKA_RATING_SERVICE_TOPIC') as string,
+    originator: RATING_SERVICE_ORIGINATOR,
+    timestamp: new Date().toISOString(),
+    'mime-type': 'application/json',
+    payload: { ...details, event, status, roundId },
+  };
+}
+
+/**
+ * Publish a SUCCESS event, with counts or other details in the payload.
+ */
+export async function publishSuccess(
+  event: RatingEventType,
+  roundId: number,
+  details: Record<string, any> = {}
+): Promise<void> {
+  const message = buildRatingEvent(event, 'SUCCESS', roundId, details);
+  await getProducer().send(message.topic, JSON.stringify(message));
+  logger.info(`Published ${event} SUCCESS for round ${roundId}`);
+}
+
+/**
+ * Publish a FAILURE event carrying the error details.
+ * Never throws, so the original error is not masked by a publishing error.
+ */
+export async function publishFailure(
+  event: RatingEventType,
+  roundId: number,
+  error: any
+): Promise<void> {
+  const message = buildRatingEvent(event, 'FAILURE', roundId, {
+    error: {
+      name: error?.name || 'Error',
+      message: error?.message || String(error),
+    },
+  });
+  try {
+    await getProducer().send(message.topic, JSON.stringify(message));
+    logger.info(`Published ${event} FAILURE for round ${roundId}`);
+  } catch (publishError) {
+    logger.error(`Failed to publish ${event} FAILURE for round ${roundId}: ${publishError}`);
+  }
+}
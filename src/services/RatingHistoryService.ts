@@ -0,0 +1,66 @@
+/**
+ * RatingHistoryService - Read access to the rating_history audit trail.
+ *
+ * persistRatings appends one rating_history row per coder per rated round;
+ * this service turns them into per-coder timelines for rating graphs and for
+ * explaining how a rating changed.
+ */
+
+import { prisma } from '../common/prismaClient';
+import { DEFAULT_RATING_TYPE_ID } from '../common/ratingTypes';
+
+/**
+ * One rating change of a coder.
+ */
+export interface RatingTimelineEntry {
+  roundId: number;
+  ratingTypeId: number;
+  oldRating: number | null;
+  newRating: number;
+  oldVolatility: number | null;
+  newVolatility: number;
+  delta: number | null;
+  numRatings: number;
+  expectedRank: number | null;
+  actualRank: number | null;
+  expectedPerformance: number | null;
+  actualPerformance: number | null;
+  algorithmVersion: string;
+  inactivityModel: string;
+  // Days since the previous rated round, when known
+  daysInactive: number | null;
+  ratedAt: Date;
+}
+
+/**
+ * Get a coder's rating timeline, oldest change first.
+ * Changes undone by a round rollback are left out.
+ */
+export async function getRatingTimeline(
+  coderId: number,
+  ratingTypeId: number = DEFAULT_RATING_TYPE_ID
+): Promise<RatingTimelineEntry[]> {
+  const rows = await prisma.rating_history.findMany({
+    where: { coder_id: coderId, algo_rating_type_id: ratingTypeId, rolled_back_at: null },
+    orderBy: [{ rated_at: 'asc' }, { id: 'asc' }],
+  });
+
+  return rows.map((r) => ({
+    roundId: r.round_id,
+    ratingTypeId: r.algo_rating_type_id,
+    oldRating: r.old_rating,
+    newRating: r.new_rating,
+    oldVolatility: r.old_vol,
+    newVolatility: r.new_vol,
+    delta: r.old_rating === null ? null : r.new_rating - r.old_rating,
+    numRatings: r.num_ratings,
+    expectedRank: r.expected_rank,
+    actualRank: r.actual_rank,
+    expectedPerformance: r.expected_performance,
+    actualPerformance: r.actual_performance,
+    algorithmVersion: r.algorithm_version,
+    inactivityModel: r.inactivity_model,
+    daysInactive: r.days_inactive,
+    ratedAt: r.rated_at,
+  }));
+}
@@ -0,0 +1,328 @@
+/**
+ * RatingJobService - Admin operations run as async jobs.
+ *
+ * The admin API submits calculate, loadCoders, loadRatings, preview and
+ * rollback as rating_job rows and answers with the job id straight away; the
+ * jobs then run one at a time in the processor that accepted them:
+ *
+ *   QUEUED -> RUNNING -> SUCCEEDED | FAILED
+ *
+ * Each job records who triggered it, the duration of each phase as it
+ * completes (for a calculation: attendance, load, rate, persist, milestones),
+ * the coder/row counts and the operation's result or error, so manual runs
+ * are auditable. While its processor runs, a QUEUED or RUNNING job has its
+ * heartbeat refreshed every JOB_HEARTBEAT_INTERVAL; a job whose processor
+ * stopped is marked FAILED once its heartbeat is older than
+ * JOB_HEARTBEAT_TIMEOUT, by any instance, or when that instance starts again
+ * (failInterruptedJobs).
+ */
+
+import config from 'config';
+import * as _ from 'lodash';
+import { Prisma, rating_job } from '@prisma/client';
+import { createLogger, runWithLogContext } from '../common/logger';
+import { prisma } from '../common/prismaClient';
+import { INSTANCE_ID } from './IdempotencyService';
+import { AttendancePolicy } from './AttendanceService';
+import {
+  calculate,
+  loadCoders,
+  loadRatings,
+  PhaseTiming,
+  resolveRoundId,
+} from './MarathonRatingsService';
+import { previewRound } from './RatingPreviewService';
+import { rerateRound, rollbackRound } from './RatingRollbackService';
+
+const logger = createLogger('RatingJobService');
+
+export type JobOperation = 'CALCULATE' | 'LOAD_CODERS' | 'LOAD_RATINGS' | 'PREVIEW' | 'ROLLBACK';
+
+export type JobStatus = 'QUEUED' | 'RUNNING' | 'SUCCEEDED' | 'FAILED';
+
+/**
+ * Parameters of each operation.
+ */
+export interface JobParams {
+  CALCULATE: {
+    challengeId: string;
+    legacyId: number;
+    ratingTypeId?: number;
+    attendancePolicy?: AttendancePolicy;
+    ingestScores?: boolean;
+    inactivityModel?: string;
+  };
+  LOAD_CODERS: { roundId: number };
+  LOAD_RATINGS: { roundId: number };
+  PREVIEW: { roundId: number; algorithm?: string; inactivityModel?: string };
+  ROLLBACK: { roundId: number; cascade?: boolean; rerate?: boolean };
+}
+
+export interface RatingJob {
+  id: number;
+  operation: JobOperation;
+  roundId: number | null;
+  params: Record<string, unknown>;
+  status: JobStatus;
+  triggeredBy: string;
+  instance: string;
+  phases: PhaseTiming[];
+  counts: Record<string, number> | null;
+  result: unknown;
+  error: string | null;
+  createdAt: Date;
+  startedAt: Date | null;
+  finishedAt: Date | null;
+}
+
+/**
+ * What an operation hands back: its counts and result.
+ */
+interface JobOutcome {
+  counts: Record<string, number>;
+  result?: unknown;
+}
+
+/**
+ * Times the phases of a running job, recording each as it completes.
+ */
+type PhaseRunner = <T>(phase: string, fn: () => Promise<T>) => Promise<T>;
+
+/**
+ * Records a phase timed by the operation itself.
+ */
+type PhaseRecorder = (timing: PhaseTiming) => Promise<void>;
+
+type OperationRunner<O extends JobOperation> = (
+  params: JobParams[O],
+  phase: PhaseRunner,
+  recordPhase: PhaseRecorder
+) => Promise<JobOutcome>;
+
+const OPERATIONS: { [O in JobOperation]: OperationRunner<O> } = {
+  // The calculation's own phases are the job's phases
+  CALCULATE: async (params, _phase, recordPhase) => {
+    const result = await calculate(params.challengeId, params.legacyId, {
+      ratingTypeId: params.ratingTypeId,
+      attendancePolicy: params.attendancePolicy,
+      ingestScores: params.ingestScores,
+      inactivityModel: params.inactivityModel,
+      onPhase: recordPhase,
+    });
+    return {
+      counts: {
+        ratedCoders: result.changes.length,
+        firstTimers: result.firstTimers,
+        experiencedCoders: result.experiencedCoders,
+      },
+      // The timings are in phases and the coders' changes in rating_history
+      result: _.omit(result, ['changes', 'timings']),
+    };
+  },
+  LOAD_CODERS: async (params, phase) => {
+    const { rowsRead, rowsWritten } = await phase('loadCoders', () => loadCoders(params.roundId));
+    return { counts: { rowsRead, rowsWritten } };
+  },
+  LOAD_RATINGS: async (params, phase) => {
+    const { rowsRead, rowsWritten } = await phase('loadRatings', () => loadRatings(params.roundId));
+    return { counts: { rowsRead, rowsWritten } };
+  },
+  PREVIEW: async (params, phase) => {
+    const report = await phase('preview', () => previewRound(params.roundId, params.algorithm, params.inactivityModel));
+    return { counts: { coders: report.coders.length }, result: report };
+  },
+  ROLLBACK: async (params, phase): Promise<JobOutcome> => {
+    const options = { cascade: params.cascade };
+    if (params.rerate) {
+      const result = await phase('rollbackAndRerate', () => rerateRound(params.roundId, options));
+      return {
+        counts: {
+          restoredCoders: result.rollback.restoredCoders,
+          reratedCoders: result.rerated.reduce((n, r) => n + r.result.changes.length, 0),
+        },
+        result: {
+          rollback: result.rollback,
+          rerated: result.rerated.map((r) => ({ roundId: r.roundId, status: r.result.status })),
+        },
+      };
+    }
+    const result = await phase('rollback', () => rollbackRound(params.roundId, options));
+    return { counts: { restoredCoders: result.restoredCoders }, result };
+  },
+};
+
+// Jobs run one at a time, in submission order
+let queue: Promise<void> = Promise.resolve();
+
+// Refreshes the heartbeat of this instance's jobs; started with the first job
+let heartbeat: NodeJS.Timeout | undefined;
+
+const ACTIVE_STATUSES: JobStatus[] = ['QUEUED', 'RUNNING'];
+
+function toJob(row: rating_job): RatingJob {
+  return {
+    id: row.id,
+    operation: row.operation as JobOperation,
+    roundId: row.round_id,
+    params: row.params as Record<string, unknown>,
+    status: row.status as JobStatus,
+    triggeredBy: row.triggered_by,
+    instance: row.instance,
+    phases: row.phases as unknown as PhaseTiming[],
+    counts: row.counts as Record<string, number> | null,
+    result: row.result,
+    error: row.error,
+    createdAt: row.created_at,
+    startedAt: row.started_at,
+    finishedAt: row.finished_at,
+  };
+}
+
+async function runJob<O extends JobOperation>(jobId: number, operation: O, params: JobParams[O]): Promise<void> {
+  const phases: PhaseTiming[] = [];
+  const recordPhase: PhaseRecorder = async (timing) => {
+    phases.push(timing);
+    await prisma.rating_job.update({ where: { id: jobId }, data: { phases: phases.map((p) => ({ ...p })) } });
+  };
+  const phase: PhaseRunner = async (name, fn) => {
+    const start = Date.now();
+    try {
+      return await fn();
+    } finally {
+      await recordPhase({ phase: name, durationMs: Date.now() - start });
+    }
+  };
+
+  await prisma.rating_job.update({ where: { id: jobId }, data: { status: 'RUNNING', started_at: new Date() } });
+  logger.info(`Job ${jobId} (${operation}) started`);
+  try {
+    const outcome = await (OPERATIONS[operation] as OperationRunner<O>)(params, phase, recordPhase);
+    await prisma.rating_job.update({
+      where: { id: jobId },
+      data: {
+        status: 'SUCCEEDED',
+        counts: outcome.counts,
+        result: outcome.result === undefined ? Prisma.JsonNull : (outcome.result as Prisma.InputJsonValue),
+        finished_at: new Date(),
+      },
+    });
+    logger.info(`Job ${jobId} (${operation}) succeeded`);
+  } catch (error) {
+    logger.error(`Job ${jobId} (${operation}) failed`, { error });
+    await prisma.rating_job.update({
+      where: { id: jobId },
+      data: { status: 'FAILED', error: String((error as Error)?.message || error), finished_at: new Date() },
+    });
+  }
+}
+
+/**
+ * Mark FAILED the QUEUED and RUNNING jobs matching the filter; returns their number.
+ */
+async function failJobs(where: Prisma.rating_jobWhereInput): Promise<number> {
+  const { count } = await prisma.rating_job.updateMany({
+    where: { ...where, status: { in: ACTIVE_STATUSES } },
+    data: { status: 'FAILED', error: 'Interrupted: the processor stopped before the job finished', finished_at: new Date() },
+  });
+  return count;
+}
+
+/**
+ * The jobs whose processor has not refreshed their heartbeat for
+ * JOB_HEARTBEAT_TIMEOUT: it stopped, and nothing runs them any more.
+ */
+function expiredJobs(): Prisma.rating_jobWhereInput {
+  return { heartbeat_at: { lt: new Date(Date.now() - (config.get('JOB_HEARTBEAT_TIMEOUT') as number)) } };
+}
+
+/**
+ * Refresh the heartbeat of this instance's jobs and fail the expired jobs of
+ * the other instances.
+ */
+async function beat(): Promise<void> {
+  await prisma.rating_job.updateMany({
+    where: { instance: INSTANCE_ID, status: { in: ACTIVE_STATUSES } },
+    data: { heartbeat_at: new Date() },
+  });
+  const count = await failJobs(expiredJobs());
+  if (count > 0) logger.warn(`Marked ${count} jobs of stopped processors FAILED`);
+}
+
+function startHeartbeat(): void {
+  if (heartbeat) return;
+  heartbeat = setInterval(() => {
+    beat().catch((error) => logger.error('Could not refresh the job heartbeat', { error }));
+  }, config.get('JOB_HEARTBEAT_INTERVAL') as number);
+  // The heartbeat alone does not keep the process alive
+  heartbeat.unref();
+}
+
+/**
+ * Queue an operation; returns the QUEUED job. The job runs in the background.
+ */
+export async function submitJob<O extends JobOperation>(
+  operation: O,
+  params: JobParams[O],
+  triggeredBy: string
+): Promise<RatingJob> {
+  // A calculation is recorded against the round of its legacy id
+  const roundId =
+    'roundId' in params ? params.roundId : await resolveRoundId((params as JobParams['CALCULATE']).legacyId);
+  const row = await prisma.rating_job.create({
+    data: {
+      operation,
+      round_id: roundId,
+      params: params as Prisma.InputJsonValue,
+      status: 'QUEUED',
+      triggered_by: triggeredBy,
+      instance: INSTANCE_ID,
+    },
+  });
+  logger.info(`Job ${row.id} (${operation}) queued by ${triggeredBy}`);
+  startHeartbeat();
+
+  queue = queue
+    .then(() =>
+      runWithLogContext({ correlationId: `job:${row.id}`, jobId: row.id, roundId: roundId ?? undefined }, () =>
+        runJob(row.id, operation, params)
+      )
+    )
+    .catch((error) => {
+      logger.error(`Job ${row.id} could not be recorded`, { error });
+    });
+  return toJob(row);
+}
+
+/**
+ * Mark FAILED the jobs left QUEUED or RUNNING by processors that stopped:
+ * those of this instance (a restarted container keeps its hostname and pid)
+ * and those of any instance whose heartbeat expired. Called on start-up,
+ * before any job is accepted; returns the number of jobs failed.
+ */
+export async function failInterruptedJobs(): Promise<number> {
+  const count = await failJobs({ OR: [{ instance: INSTANCE_ID }, expiredJobs()] });
+  if (count > 0) logger.warn(`Marked ${count} interrupted jobs FAILED`);
+  return count;
+}
+
+/**
+ * Get a job; null for an unknown id.
+ */
+export async function getJob(jobId: number): Promise<RatingJob | null> {
+  const row = await prisma.rating_job.findUnique({ where: { id: jobId } });
+  return row ? toJob(row) : null;
+}
+
+/**
+ * List jobs, newest first, optionally of one round or status.
+ */
+export async function listJobs(
+  filter: { roundId?: number; status?: JobStatus; limit?: number } = {}
+): Promise<RatingJob[]> {
+  const rows = await prisma.rating_job.findMany({
+    where: { round_id: filter.roundId, status: filter.status },
+    orderBy: { id: 'desc' },
+    take: filter.limit ?? 50,
+  });
+  return rows.map(toJob);
+}
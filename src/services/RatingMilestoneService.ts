@@ -0,0 +1,197 @@
+/**
+ * RatingMilestoneService - Milestones reached by coders when a round is rated.
+ *
+ *   FIRST_RATING  - the coder's first rating of the rating type
+ *   PERSONAL_BEST - a rating above the coder's highest rating so far
+ *   TIER_CHANGE   - the rating crossed a tier threshold (1200/1500/2200/3000),
+ *                   up or down
+ *
+ * persistRatings detects and records them (rating_milestone) in the rating
+ * transaction. Once it has committed, runRatingProcess publishes the round's
+ * unpublished milestones to KAFKA_RATING_MILESTONE_TOPIC for member
+ * notifications; rows are marked published_at, so a failed publication can be
+ * retried (CLI: milestones --round <id>).
+ */
+
+import config from 'config';
+import { Prisma } from '@prisma/client';
+import * as _ from 'lodash';
+import { createLogger } from '../common/logger';
+import { prisma } from '../common/prismaClient';
+import { getProducer } from '../common/kafkaProducer';
+import { MILESTONE_ORIGINATOR } from '../common/schemas';
+
+const logger = createLogger('RatingMilestoneService');
+
+// Milestone events sent together by publishRoundMilestones
+const PUBLISH_BATCH_SIZE = 100;
+
+export type MilestoneType = 'FIRST_RATING' | 'PERSONAL_BEST' | 'TIER_CHANGE';
+
+/**
+ * Rating tiers (profile colours), lowest first.
+ */
+export const RATING_TIERS: { name: string; minRating: number }[] = [
+  { name: 'GRAY', minRating: 0 },
+  { name: 'BLUE', minRating: 1200 },
+  { name: 'YELLOW', minRating: 1500 },
+  { name: 'RED', minRating: 2200 },
+  { name: 'TARGET', minRating: 3000 },
+];
+
+export interface RatingMilestone {
+  coderId: number;
+  roundId: number;
+  ratingTypeId: number;
+  type: MilestoneType;
+  oldRating: number | null;
+  newRating: number;
+  oldTier: string | null;
+  newTier: string;
+}
+
+/**
+ * A coder's rating change, as seen by persistRatings.
+ */
+export interface MilestoneInput {
+  coderId: number;
+  // null for a first rating
+  oldRating: number | null;
+  oldHighestRating: number | null;
+  newRating: number;
+}
+
+/**
+ * Get the tier of a rating.
+ */
+export function getRatingTier(rating: number): string {
+  let tier = RATING_TIERS[0].name;
+  for (const t of RATING_TIERS) {
+    if (rating >= t.minRating) tier = t.name;
+  }
+  return tier;
+}
+
+/**
+ * Detect the milestones of one rating change.
+ */
+export function detectMilestones(
+  roundId: number,
+  ratingTypeId: number,
+  change: MilestoneInput
+): RatingMilestone[] {
+  const newTier = getRatingTier(change.newRating);
+  const base = { coderId: change.coderId, roundId, ratingTypeId, newRating: change.newRating, newTier };
+
+  if (change.oldRating === null) {
+    return [{ ...base, type: 'FIRST_RATING', oldRating: null, oldTier: null }];
+  }
+
+  const oldTier = getRatingTier(change.oldRating);
+  const milestones: RatingMilestone[] = [];
+  const best = change.oldHighestRating ?? change.oldRating;
+  if (change.newRating > best) {
+    milestones.push({ ...base, type: 'PERSONAL_BEST', oldRating: change.oldRating, oldTier });
+  }
+  if (oldTier !== newTier) {
+    milestones.push({ ...base, type: 'TIER_CHANGE', oldRating: change.oldRating, oldTier });
+  }
+  return milestones;
+}
+
+/**
+ * Record milestones; already recorded ones (same coder, round, type) are skipped.
+ */
+export async function recordMilestones(
+  tx: Prisma.TransactionClient,
+  milestones: RatingMilestone[]
+): Promise<number> {
+  if (milestones.length === 0) return 0;
+  const { count } = await tx.rating_milestone.createMany({
+    data: milestones.map((m) => ({
+      coder_id: m.coderId,
+      round_id: m.roundId,
+      algo_rating_type_id: m.ratingTypeId,
+      milestone_type: m.type,
+      old_rating: m.oldRating,
+      new_rating: m.newRating,
+      old_tier: m.oldTier,
+      new_tier: m.newTier,
+    })),
+    skipDuplicates: true,
+  });
+  return count;
+}
+
+/**
+ * Build the Kafka event of a milestone.
+ */
+export function buildMilestoneEvent(milestone: RatingMilestone) {
+  return {
+    topic: config.get('KAFKA_RATING_MILESTONE_TOPIC') as string,
+    originator: MILESTONE_ORIGINATOR,
+    timestamp: new Date().toISOString(),
+    'mime-type': 'application/json',
+    payload: {
+      milestone: milestone.type,
+      coderId: milestone.coderId,
+      roundId: milestone.roundId,
+      ratingTypeId: milestone.ratingTypeId,
+      oldRating: milestone.oldRating,
+      newRating: milestone.newRating,
+      oldTier: milestone.oldTier,
+      newTier: milestone.newTier,
+    },
+  };
+}
+
+/**
+ * Publish the unpublished milestones of a round and mark them published.
+ * The events of a batch are sent together and the sent ones marked in one
+ * update; publication stops at the first batch with a failed send.
+ * Never throws: the ratings are committed already, and what could not be
+ * published stays pending. Returns the number of milestones published.
+ */
+export async function publishRoundMilestones(roundId: number): Promise<number> {
+  let published = 0;
+  try {
+    const pending = await prisma.rating_milestone.findMany({
+      where: { round_id: roundId, published_at: null },
+      orderBy: { id: 'asc' },
+    });
+
+    for (const batch of _.chunk(pending, PUBLISH_BATCH_SIZE)) {
+      const results = await Promise.allSettled(
+        batch.map((row) => {
+          const event = buildMilestoneEvent({
+            coderId: row.coder_id,
+            roundId: row.round_id,
+            ratingTypeId: row.algo_rating_type_id,
+            type: row.milestone_type as MilestoneType,
+            oldRating: row.old_rating,
+            newRating: row.new_rating,
+            oldTier: row.old_tier,
+            newTier: row.new_tier,
+          });
+          return getProducer().send(event.topic, JSON.stringify(event));
+        })
+      );
+      const sentIds = batch.filter((_row, i) => results[i].status === 'fulfilled').map((row) => row.id);
+      if (sentIds.length > 0) {
+        await prisma.rating_milestone.updateMany({
+          where: { id: { in: sentIds } },
+          data: { published_at: new Date() },
+        });
+        published += sentIds.length;
+      }
+      const failed = results.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+      if (failed) throw failed.reason;
+    }
+    if (pending.length > 0) {
+      logger.info(`Published ${published} milestones of round ${roundId}`);
+    }
+  } catch (error) {
+    logger.error(`Failed to publish milestones of round ${roundId} (${published} published)`, { error });
+  }
+  return published;
+}
@@ -0,0 +1,102 @@
+/**
+ * RatingPreviewService - Preview the ratings a round would produce.
+ *
+ * Runs the rating process in dry-run mode (loadCoderData + the round's rating
+ * algorithm, no writes) and turns the result into a per-coder report that
+ * reviewers can approve before the ratings are committed. Reports can be
+ * exported as JSON or CSV. Passing another algorithm name or inactivity model
+ * version trials it on the round's data.
+ */
+
+import {
+  runRatingProcess,
+  CoderRatingChange,
+  RatingProcessResult,
+} from './MarathonRatingsService';
+
+export type PreviewFormat = 'json' | 'csv';
+
+/**
+ * Ratings a round would produce.
+ */
+export interface RatingPreviewReport {
+  roundId: number;
+  ratingTypeId: number;
+  algorithmVersion: string;
+  inactivityModel: string;
+  generatedAt: string;
+  // ALREADY_CALCULATED when the round has no unrated coders left
+  status: RatingProcessResult['status'];
+  coders: CoderRatingChange[];
+}
+
+const CSV_COLUMNS: (keyof CoderRatingChange)[] = [
+  'coderId',
+  'score',
+  'oldRating',
+  'newRating',
+  'delta',
+  'oldVolatility',
+  'newVolatility',
+  'expectedRank',
+  'actualRank',
+  'firstRating',
+  'daysInactive',
+];
+
+function buildReport(roundId: number, result: RatingProcessResult): RatingPreviewReport {
+  return {
+    roundId,
+    ratingTypeId: result.ratingTypeId,
+    algorithmVersion: result.algorithmVersion,
+    inactivityModel: result.inactivityModel,
+    generatedAt: new Date().toISOString(),
+    status: result.status,
+    coders: [...result.changes].sort((a, b) => (a.actualRank ?? 0) - (b.actualRank ?? 0)),
+  };
+}
+
+/**
+ * Preview the ratings of a round from the data currently in the database.
+ * For a challenge, calculate(challengeId, legacyId, { dryRun: true }) also
+ * logs the attendance fixes V5 submissions would trigger.
+ * algorithm and inactivityModel override the configured ones of the round.
+ */
+export async function previewRound(
+  roundId: number,
+  algorithm?: string,
+  inactivityModel?: string
+): Promise<RatingPreviewReport> {
+  return buildReport(roundId, await runRatingProcess(roundId, { dryRun: true, algorithm, inactivityModel }));
+}
+
+/**
+ * Export a report as pretty-printed JSON.
+ */
+export function toJSON(report: RatingPreviewReport): string {
+  return JSON.stringify(report, null, 2);
+}
+
+/**
+ * Export the coder rows of a report as CSV (header line first).
+ */
+export function toCSV(report: RatingPreviewReport): string {
+  const lines = [CSV_COLUMNS.join(',')];
+  for (const coder of report.coders) {
+    lines.push(CSV_COLUMNS.map((column) => formatCsvValue(coder[column])).join(','));
+  }
+  return `${lines.join('\n')}\n`;
+}
+
+/**
+ * Export a report in the given format.
+ */
+export function exportReport(report: RatingPreviewReport, format: PreviewFormat): string {
+  return format === 'csv' ? toCSV(report) : toJSON(report);
+}
+
+function formatCsvValue(value: unknown): string {
+  if (value === null || value === undefined) return '';
+  if (typeof value === 'number' && !Number.isInteger(value)) return value.toFixed(2);
+  return String(value);
+}
@@ -0,0 +1,204 @@
+/**
+ * RatingQueryService - Read access to ratings and rounds for the HTTP API.
+ *
+ * Reads algo_rating, long_comp_result and round (plus rating_history for the
+ * ranks of a round's results); nothing is written. Rating histories come from
+ * RatingHistoryService.
+ */
+
+import { prisma } from '../common/prismaClient';
+import { DEFAULT_RATING_TYPE_ID } from '../common/ratingTypes';
+import { getRatingTier } from './RatingMilestoneService';
+
+/**
+ * A coder's current rating of one rating type.
+ */
+export interface CoderRatingView {
+  coderId: number;
+  ratingTypeId: number;
+  rating: number;
+  volatility: number;
+  numRatings: number;
+  tier: string;
+  highestRating: number | null;
+  lowestRating: number | null;
+  firstRatedRoundId: number | null;
+  lastRatedRoundId: number | null;
+}
+
+/**
+ * One coder's result in a round and the rating change it caused.
+ */
+export interface RoundResultView {
+  coderId: number;
+  attended: boolean;
+  score: number | null;
+  rated: boolean;
+  oldRating: number | null;
+  newRating: number | null;
+  oldVolatility: number | null;
+  newVolatility: number | null;
+  delta: number | null;
+  numRatings: number;
+  expectedRank: number | null;
+  actualRank: number | null;
+}
+
+export interface RoundStatusView {
+  roundId: number;
+  contestId: number | null;
+  ratingTypeId: number;
+  rated: boolean;
+  ratingStatus: string;
+  ratingStartedAt: Date | null;
+  ratingFinishedAt: Date | null;
+  ratingError: string | null;
+}
+
+export interface LeaderboardEntry {
+  rank: number;
+  coderId: number;
+  rating: number;
+  volatility: number;
+  numRatings: number;
+  tier: string;
+}
+
+export interface LeaderboardPage {
+  ratingTypeId: number;
+  page: number;
+  perPage: number;
+  total: number;
+  entries: LeaderboardEntry[];
+}
+
+/**
+ * Get a coder's current rating; null when the coder is not rated in the type.
+ */
+export async function getCoderRating(
+  coderId: number,
+  ratingTypeId: number = DEFAULT_RATING_TYPE_ID
+): Promise<CoderRatingView | null> {
+  const row = await prisma.algo_rating.findUnique({
+    where: { coder_id_algo_rating_type_id: { coder_id: coderId, algo_rating_type_id: ratingTypeId } },
+  });
+  if (!row || row.num_ratings === 0) return null;
+
+  const rating = row.rating ?? 0;
+  return {
+    coderId: row.coder_id,
+    ratingTypeId: row.algo_rating_type_id,
+    rating,
+    volatility: row.vol ?? 0,
+    numRatings: row.num_ratings,
+    tier: getRatingTier(rating),
+    highestRating: row.highest_rating,
+    lowestRating: row.lowest_rating,
+    firstRatedRoundId: row.first_rated_round_id,
+    lastRatedRoundId: row.last_rated_round_id,
+  };
+}
+
+/**
+ * Get a round's rating status; null for an unknown round.
+ */
+export async function getRoundStatus(roundId: number): Promise<RoundStatusView | null> {
+  const round = await prisma.round.findUnique({ where: { round_id: roundId } });
+  if (!round) return null;
+
+  return {
+    roundId: round.round_id,
+    contestId: round.contest_id,
+    ratingTypeId: round.algo_rating_type_id,
+    rated: round.rated_ind === 1,
+    ratingStatus: round.rating_status,
+    ratingStartedAt: round.rating_started_at,
+    ratingFinishedAt: round.rating_finished_at,
+    ratingError: round.rating_error,
+  };
+}
+
+/**
+ * Get a round's results, highest score first, with the rating deltas; null
+ * for an unknown round. Ranks come from the round's rating_history rows and
+ * are null until it is rated.
+ */
+export async function getRoundResults(roundId: number): Promise<RoundResultView[] | null> {
+  const round = await prisma.round.findUnique({ where: { round_id: roundId } });
+  if (!round) return null;
+
+  const [rows, history] = await Promise.all([
+    prisma.long_comp_result.findMany({
+      where: { round_id: roundId },
+      orderBy: [{ system_point_total: { sort: 'desc', nulls: 'last' } }, { coder_id: 'asc' }],
+    }),
+    prisma.rating_history.findMany({
+      where: { round_id: roundId, algo_rating_type_id: round.algo_rating_type_id, rolled_back_at: null },
+      select: { coder_id: true, expected_rank: true, actual_rank: true },
+    }),
+  ]);
+  const ranks = new Map(history.map((h) => [h.coder_id, h]));
+
+  return rows.map((r) => {
+    const rated = r.rated_ind === 1 && r.new_rating !== null;
+    const delta = rated && r.old_rating !== null ? (r.new_rating as number) - r.old_rating : null;
+    return {
+      coderId: r.coder_id,
+      attended: r.attended === 'Y' || r.attended === 'y',
+      score: r.system_point_total === null ? null : Number(r.system_point_total),
+      rated,
+      oldRating: r.old_rating,
+      newRating: r.new_rating,
+      oldVolatility: r.old_vol,
+      newVolatility: r.new_vol,
+      delta,
+      numRatings: r.num_ratings,
+      expectedRank: ranks.get(r.coder_id)?.expected_rank ?? null,
+      actualRank: ranks.get(r.coder_id)?.actual_rank ?? null,
+    };
+  });
+}
+
+/**
+ * Get one page of the rated coders of a rating type, highest rating first.
+ * Coders with the same rating share a rank (1, 2, 2, 4, ...).
+ */
+export async function getLeaderboard(
+  ratingTypeId: number,
+  page: number,
+  perPage: number
+): Promise<LeaderboardPage> {
+  const where = { algo_rating_type_id: ratingTypeId, num_ratings: { gt: 0 } };
+  const [total, rows] = await Promise.all([
+    prisma.algo_rating.count({ where }),
+    prisma.algo_rating.findMany({
+      where,
+      orderBy: [{ rating: 'desc' }, { coder_id: 'asc' }],
+      skip: (page - 1) * perPage,
+      take: perPage,
+    }),
+  ]);
+
+  const entries: LeaderboardEntry[] = [];
+  if (rows.length > 0) {
+    // Rank of the page's first coder: one more than the coders rated higher
+    const firstRating = rows[0].rating ?? 0;
+    let rank = 1 + (await prisma.algo_rating.count({ where: { ...where, rating: { gt: firstRating } } }));
+    rows.forEach((row, i) => {
+      const rating = row.rating ?? 0;
+      if (i > 0 && rating !== (rows[i - 1].rating ?? 0)) {
+        rank = (page - 1) * perPage + i + 1;
+      }
+      entries.push({
+        rank,
+        coderId: row.coder_id,
+        rating,
+        volatility: row.vol ?? 0,
+        numRatings: row.num_ratings,
+        tier: getRatingTier(rating),
+      });
+    });
+  }
+
+  return { ratingTypeId, page, perPage, total, entries };
+}
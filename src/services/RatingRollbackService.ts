@@ -0,0 +1,420 @@
+/**
+ * RatingRollbackService - Undo and redo the rating of a round.
+ *
+ * Rolling back a round restores each coder's algo_rating to the values it had
+ * before the round (from rating_history), clears the new values in
+ * long_comp_result, removes its provisional ratings and resets the round
+ * flags, so that runRatingProcess picks the round up again.
+ *
+ * Rounds rated after the round that share coders with it were computed from
+ * its ratings. A rollback refuses to run while such rounds exist, unless asked
+ * to cascade: they are then rolled back first (newest first) and, on re-rate,
+ * rated again in their original order. A cascade holds the locks of all these
+ * rounds, and refuses to run while any of them is locked.
+ *
+ * Only the round's rating type (round.algo_rating_type_id) is touched: rounds
+ * of other types never depend on it.
+ */
+
+import config from 'config';
+import * as _ from 'lodash';
+import { Prisma } from '@prisma/client';
+import { createLogger } from '../common/logger';
+import { prisma } from '../common/prismaClient';
+import { DEFAULT_RATING_TYPE_ID, getRoundRatingTypeId } from '../common/ratingTypes';
+import { getAlgorithmForVersion } from '../libs/algorithm/AlgorithmRegistry';
+import { rateRound, RatingProcessResult } from './MarathonRatingsService';
+import { withRoundLock } from './IdempotencyService';
+import { clearProjections } from './ProvisionalRatingService';
+
+const logger = createLogger('RatingRollbackService');
+
+/**
+ * Thrown when later rounds were rated on top of the round and cascading
+ * was not requested.
+ */
+export class LaterRoundsRatedError extends Error {
+  constructor(public roundId: number, public laterRoundIds: number[]) {
+    super(
+      `Round ${roundId} cannot be rolled back: rounds ${laterRoundIds.join(', ')} ` +
+        'were rated on top of it (use cascade to roll them back too)'
+    );
+    this.name = 'LaterRoundsRatedError';
+  }
+}
+
+export interface RollbackOptions {
+  // Roll back the rounds rated on top of the round as well
+  cascade?: boolean;
+}
+
+export interface RollbackResult {
+  roundId: number;
+  // Every round rolled back, in the order it was done (newest first)
+  rolledBackRounds: number[];
+  restoredCoders: number;
+}
+
+export interface RerateResult {
+  rollback: RollbackResult;
+  rerated: { roundId: number; result: RatingProcessResult }[];
+}
+
+interface HistoryEntry {
+  id: number;
+  coder_id: number;
+  old_rating: number | null;
+  old_vol: number | null;
+  num_ratings: number;
+  old_sigma: number | null;
+  old_highest_rating: number | null;
+  old_lowest_rating: number | null;
+}
+
+// ---------------------------------------------------------------------------
+// Helpers
+// ---------------------------------------------------------------------------
+
+/**
+ * Get the active (not rolled back) history entries of a round.
+ */
+async function getRoundEntries(
+  tx: Prisma.TransactionClient,
+  roundId: number,
+  ratingTypeId: number
+): Promise<HistoryEntry[]> {
+  return tx.rating_history.findMany({
+    where: { round_id: roundId, algo_rating_type_id: ratingTypeId, rolled_back_at: null },
+    select: {
+      id: true,
+      coder_id: true,
+      old_rating: true,
+      old_vol: true,
+      num_ratings: true,
+      old_sigma: true,
+      old_highest_rating: true,
+      old_lowest_rating: true,
+    },
+    orderBy: { id: 'asc' },
+  });
+}
+
+/**
+ * Find the rounds rated after the given entries that depend on them, directly
+ * or through another dependent round, in the order they were rated.
+ */
+async function findDependentRounds(
+  tx: Prisma.TransactionClient,
+  roundId: number,
+  ratingTypeId: number,
+  entries: HistoryEntry[]
+): Promise<number[]> {
+  const later = await tx.rating_history.findMany({
+    where: {
+      algo_rating_type_id: ratingTypeId,
+      rolled_back_at: null,
+      round_id: { not: roundId },
+      id: { gt: entries[0].id },
+    },
+    select: { round_id: true, coder_id: true },
+    orderBy: { id: 'asc' },
+  });
+
+  const coders = new Set(entries.map((e) => e.coder_id));
+  const codersByRound = _.groupBy(later, 'round_id');
+  const dependents: number[] = [];
+
+  for (const laterRoundId of _.uniq(later.map((r) => r.round_id))) {
+    const laterCoders = codersByRound[laterRoundId].map((r) => r.coder_id);
+    if (laterCoders.some((c) => coders.has(c))) {
+      dependents.push(laterRoundId);
+      laterCoders.forEach((c) => coders.add(c));
+    }
+  }
+
+  return dependents;
+}
+
+/**
+ * Find, per coder, the round rated before the one being rolled back.
+ * Falls back to long_comp_result for ratings that predate rating_history,
+ * which were all of the default (marathon) type.
+ */
+async function findPreviousRounds(
+  tx: Prisma.TransactionClient,
+  roundId: number,
+  ratingTypeId: number,
+  coderIds: number[]
+): Promise<Record<number, number>> {
+  const previous: Record<number, number> = {};
+
+  const history = await tx.rating_history.findMany({
+    where: {
+      algo_rating_type_id: ratingTypeId,
+      rolled_back_at: null,
+      round_id: { not: roundId },
+      coder_id: { in: coderIds },
+    },
+    select: { coder_id: true, round_id: true },
+    orderBy: { id: 'asc' },
+  });
+  history.forEach((h) => { previous[h.coder_id] = h.round_id; });
+
+  const missing = coderIds.filter((id) => previous[id] === undefined);
+  if (missing.length > 0 && ratingTypeId === DEFAULT_RATING_TYPE_ID) {
+    const legacy = await tx.long_comp_result.groupBy({
+      by: ['coder_id'],
+      where: {
+        coder_id: { in: missing },
+        round_id: { not: roundId },
+        new_rating: { not: null },
+      },
+      _max: { round_id: true },
+    });
+    legacy.forEach((l) => {
+      if (l._max.round_id !== null) previous[l.coder_id] = l._max.round_id;
+    });
+  }
+
+  return previous;
+}
+
+/**
+ * Roll back a single round whose dependents are already rolled back.
+ * Returns the number of coders restored.
+ */
+async function restoreRound(
+  tx: Prisma.TransactionClient,
+  roundId: number,
+  ratingTypeId: number
+): Promise<number> {
+  const entries = await getRoundEntries(tx, roundId, ratingTypeId);
+  const batchSize = config.get('RATING_PERSIST_BATCH_SIZE') as number;
+
+  const [firstRatings, laterRatings] = _.partition(entries, (e) => e.old_rating === null);
+
+  // First-ever ratings: the coder had no algo_rating row before the round
+  for (const batch of _.chunk(firstRatings, batchSize)) {
+    await tx.algo_rating.deleteMany({
+      where: {
+        algo_rating_type_id: ratingTypeId,
+        coder_id: { in: batch.map((e) => e.coder_id) },
+      },
+    });
+  }
+
+  // Other ratings: restore the values from before the round; peaks are kept
+  // when the history row predates their recording
+  for (const batch of _.chunk(laterRatings, batchSize)) {
+    const previous = await findPreviousRounds(tx, roundId, ratingTypeId, batch.map((e) => e.coder_id));
+    await tx.$executeRaw`
+      UPDATE algo_rating AS ar
+      SET rating = v.rating,
+          vol = v.vol,
+          sigma = v.sigma,
+          num_ratings = v.num_ratings,
+          round_id = v.prev_round_id,
+          last_rated_round_id = v.prev_round_id,
+          highest_rating = COALESCE(v.highest_rating, ar.highest_rating),
+          lowest_rating = COALESCE(v.lowest_rating, ar.lowest_rating)
+      FROM (VALUES ${Prisma.join(
+        batch.map(
+          (e) =>
+            Prisma.sql`(${e.coder_id}::int, ${e.old_rating}::int, ${e.old_vol}::int, ${e.num_ratings - 1}::int, ${previous[e.coder_id] ?? null}::int, ${e.old_highest_rating}::int, ${e.old_lowest_rating}::int, ${e.old_sigma}::float8)`
+        )
+      )}) AS v(coder_id, rating, vol, num_ratings, prev_round_id, highest_rating, lowest_rating, sigma)
+      WHERE ar.coder_id = v.coder_id AND ar.algo_rating_type_id = ${ratingTypeId}`;
+  }
+
+  await tx.long_comp_result.updateMany({
+    where: { round_id: roundId },
+    data: { rated_ind: 0, old_rating: null, old_vol: null, new_rating: null, new_vol: null },
+  });
+
+  await tx.rating_history.updateMany({
+    where: { round_id: roundId, algo_rating_type_id: ratingTypeId, rolled_back_at: null },
+    data: { rolled_back_at: new Date() },
+  });
+
+  // Milestones of the round no longer hold (published ones cannot be recalled)
+  await tx.rating_milestone.deleteMany({
+    where: { round_id: roundId, algo_rating_type_id: ratingTypeId },
+  });
+  await clearProjections(tx, roundId);
+
+  await tx.round.updateMany({
+    where: { round_id: roundId },
+    data: {
+      rated_ind: 0,
+      rating_status: 'PENDING',
+      rating_started_at: null,
+      rating_finished_at: null,
+      rating_error: null,
+    },
+  });
+
+  logger.info(`Rolled back round ${roundId}: ${entries.length} coders restored`);
+  return entries.length;
+}
+
+/**
+ * Run fn holding the lock of the round and, with cascade, the locks of the
+ * rounds rated on top of it, so that none of them is rated or rolled back
+ * meanwhile. fn receives the locked rounds.
+ * Throws RoundLockedError when another run holds any of the locks.
+ */
+async function withRollbackLocks<T>(
+  roundId: number,
+  ratingTypeId: number,
+  options: RollbackOptions,
+  fn: (lockedRounds: Set<number>) => Promise<T>
+): Promise<T> {
+  return withRoundLock(roundId, async () => {
+    const entries = options.cascade ? await getRoundEntries(prisma, roundId, ratingTypeId) : [];
+    const dependents = entries.length > 0 ? await findDependentRounds(prisma, roundId, ratingTypeId, entries) : [];
+
+    const lockAll = (ids: number[]): Promise<T> =>
+      ids.length === 0
+        ? fn(new Set([roundId, ...dependents]))
+        : withRoundLock(ids[0], () => lockAll(ids.slice(1)));
+    return lockAll(dependents);
+  });
+}
+
+/**
+ * Roll back the ratings of a round (and, with cascade, of the rounds rated on
+ * top of it) in a single transaction. The caller holds the locks of the
+ * rounds (withRollbackLocks).
+ */
+async function rollbackLocked(
+  roundId: number,
+  ratingTypeId: number,
+  options: RollbackOptions,
+  lockedRounds: Set<number>
+): Promise<RollbackResult> {
+  return prisma.$transaction(
+    async (tx) => {
+      const entries = await getRoundEntries(tx, roundId, ratingTypeId);
+      if (entries.length === 0) {
+        throw new Error(`Round ${roundId} has no rating history to roll back`);
+      }
+
+      const dependents = await findDependentRounds(tx, roundId, ratingTypeId, entries);
+      if (dependents.length > 0 && !options.cascade) {
+        throw new LaterRoundsRatedError(roundId, dependents);
+      }
+      // A round rated on top of it since the locks were taken
+      const unlocked = dependents.filter((id) => !lockedRounds.has(id));
+      if (unlocked.length > 0) {
+        throw new Error(`Rounds ${unlocked.join(', ')} were rated on top of round ${roundId} meanwhile; try again`);
+      }
+
+      const rolledBackRounds = [...dependents.reverse(), roundId];
+      let restoredCoders = 0;
+      for (const id of rolledBackRounds) {
+        restoredCoders += await restoreRound(tx, id, ratingTypeId);
+      }
+
+      return { roundId, rolledBackRounds, restoredCoders };
+    },
+    {
+      maxWait: config.get('RATING_TRANSACTION_MAX_WAIT') as number,
+      timeout: config.get('RATING_TRANSACTION_TIMEOUT') as number,
+    }
+  );
+}
+
+/**
+ * Get the algorithm and inactivity model each rolled-back round was last
+ * rated with.
+ */
+async function getRecordedRuns(
+  roundIds: number[],
+  ratingTypeId: number
+): Promise<Map<number, { algorithm_version: string; inactivity_model: string }>> {
+  const rows = await prisma.rating_history.findMany({
+    where: { round_id: { in: roundIds }, algo_rating_type_id: ratingTypeId, rolled_back_at: { not: null } },
+    select: { round_id: true, algorithm_version: true, inactivity_model: true },
+    orderBy: { id: 'desc' },
+    distinct: ['round_id'],
+  });
+  return new Map(rows.map(({ round_id, ...run }) => [round_id, run]));
+}
+
+// ---------------------------------------------------------------------------
+// Public API
+// ---------------------------------------------------------------------------
+
+/**
+ * Roll back the ratings of a round (and, with cascade, of the rounds rated on
+ * top of it) in a single transaction, holding the locks of those rounds.
+ */
+export async function rollbackRound(
+  roundId: number,
+  options: RollbackOptions = {}
+): Promise<RollbackResult> {
+  logger.info(`=== Rollback of round ${roundId} start ===`);
+  const ratingTypeId = await getRoundRatingTypeId(roundId);
+
+  const result = await withRollbackLocks(roundId, ratingTypeId, options, (locked) =>
+    rollbackLocked(roundId, ratingTypeId, options, locked)
+  );
+
+  logger.info(`=== Rollback of round ${roundId} end: rounds ${result.rolledBackRounds.join(', ')} ===`);
+  return result;
+}
+
+/**
+ * Roll a round back and rate it again, e.g. after its scores were corrected.
+ * With cascade, the dependent rounds are rated again afterwards, oldest first.
+ *
+ * The locks of the rounds are held from the rollback until they are rated
+ * again, and every round is rated with the algorithm and inactivity model it
+ * was rated with before, not the ones configured now. A re-rate that fails
+ * stops the run and leaves the remaining rounds rolled back (PENDING), to be
+ * rated once the cause is fixed.
+ */
+export async function rerateRound(
+  roundId: number,
+  options: RollbackOptions = {}
+): Promise<RerateResult> {
+  logger.info(`=== Re-rate of round ${roundId} start ===`);
+  const ratingTypeId = await getRoundRatingTypeId(roundId);
+
+  const result = await withRollbackLocks(roundId, ratingTypeId, options, async (locked) => {
+    const rollback = await rollbackLocked(roundId, ratingTypeId, options, locked);
+    const recorded = await getRecordedRuns(rollback.rolledBackRounds, ratingTypeId);
+
+    const rerated: RerateResult['rerated'] = [];
+    const order = [...rollback.rolledBackRounds].reverse();
+    for (const [i, id] of order.entries()) {
+      const run = recorded.get(id) as { algorithm_version: string; inactivity_model: string };
+      try {
+        const algorithm = getAlgorithmForVersion(run.algorithm_version);
+        if (algorithm.version !== run.algorithm_version) {
+          logger.warn(
+            `Round ${id} was rated with ${run.algorithm_version}, which is no longer registered: using ${algorithm.version}`
+          );
+        }
+        rerated.push({
+          roundId: id,
+          result: await rateRound(id, {
+            ratingTypeId,
+            algorithm: algorithm.name,
+            inactivityModel: run.inactivity_model,
+            lockHeld: true,
+          }),
+        });
+      } catch (error) {
+        const unrated = order.slice(i).join(', ');
+        logger.error(`Re-rate of round ${id} failed: rounds ${unrated} are rolled back and not rated`, { error });
+        throw error;
+      }
+    }
+
+    return { rollback, rerated };
+  });
+
+  logger.info(`=== Re-rate of round ${roundId} end ===`);
+  return result;
+}
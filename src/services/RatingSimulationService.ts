@@ -0,0 +1,101 @@
+/**
+ * RatingSimulationService - Replays the rated rounds of a rating type from the
+ * database through RatingSimulator.
+ *
+ * Rounds are replayed by round date, then round_id (rounds without a date,
+ * rated before round_date was recorded, come first), with the attended
+ * coders' scores and places in long_comp_result; only the rounds' recorded
+ * rating type is replayed. Used to compare algorithms, Qubits parameter sets
+ * and inactivity models offline: nothing is written.
+ */
+
+import config from 'config';
+import * as _ from 'lodash';
+import { createLogger } from '../common/logger';
+import { prisma } from '../common/prismaClient';
+import { DEFAULT_RATING_TYPE_ID, getRatingType } from '../common/ratingTypes';
+import { getAlgorithm } from '../libs/algorithm/AlgorithmRegistry';
+import { createQubitsAlgorithm, QubitsParameters } from '../libs/algorithm/AlgorithmQubits';
+import { getInactivityModel } from '../libs/algorithm/InactivityModel';
+import { RatingAlgorithm } from '../libs/algorithm/RatingAlgorithm';
+import {
+  simulate,
+  SimulationReport,
+  SimulationRound,
+} from '../libs/simulation/RatingSimulator';
+
+const logger = createLogger('RatingSimulationService');
+
+// Rounds whose results are read per query
+const ROUNDS_PER_QUERY = 500;
+
+export interface SimulationRequest {
+  ratingTypeId?: number;
+  // Algorithm name; defaults to the rating type's algorithm
+  algorithm?: string;
+  // Qubits parameters overriding the defaults (qubits only)
+  qubitsParameters?: Partial<QubitsParameters>;
+  // Inactivity model version; defaults to RATING_INACTIVITY_MODEL, as in production
+  inactivityModel?: string;
+  bucketSize?: number;
+}
+
+/**
+ * Load the scores of the rated rounds of a rating type, oldest round first.
+ */
+export async function loadHistoricalRounds(ratingTypeId: number): Promise<SimulationRound[]> {
+  const rounds = await prisma.round.findMany({
+    where: { rated_ind: 1, algo_rating_type_id: ratingTypeId },
+    select: { round_id: true, round_date: true },
+    orderBy: [{ round_date: { sort: 'asc', nulls: 'first' } }, { round_id: 'asc' }],
+  });
+
+  const results: SimulationRound[] = [];
+  for (const batch of _.chunk(rounds, ROUNDS_PER_QUERY)) {
+    const rows = await prisma.long_comp_result.findMany({
+      where: { round_id: { in: batch.map((r) => r.round_id) }, attended: { in: ['Y', 'y'] } },
+      select: { round_id: true, coder_id: true, system_point_total: true, placed: true },
+    });
+    const byRound = _.groupBy(rows, 'round_id');
+    for (const round of batch) {
+      results.push({
+        roundId: round.round_id,
+        ...(round.round_date ? { roundDate: round.round_date } : {}),
+        results: (byRound[round.round_id] || []).map((r) => ({
+          coderId: r.coder_id,
+          score: Number(r.system_point_total) || 0,
+          ...(r.placed !== null ? { placed: r.placed } : {}),
+        })),
+      });
+    }
+  }
+  return results;
+}
+
+function resolveAlgorithm(request: SimulationRequest, defaultName: string): RatingAlgorithm {
+  const name = request.algorithm || defaultName;
+  if (request.qubitsParameters) {
+    if (name !== 'qubits') {
+      throw new Error(`Qubits parameters cannot be used with the ${name} algorithm`);
+    }
+    return createQubitsAlgorithm(request.qubitsParameters);
+  }
+  return getAlgorithm(name);
+}
+
+/**
+ * Replay the rated rounds of a rating type with an algorithm or parameter set.
+ */
+export async function runSimulation(request: SimulationRequest = {}): Promise<SimulationReport> {
+  const ratingType = getRatingType(request.ratingTypeId ?? DEFAULT_RATING_TYPE_ID);
+  const algorithm = resolveAlgorithm(request, ratingType.algorithm);
+  const inactivityModel = getInactivityModel(request.inactivityModel || String(config.get('RATING_INACTIVITY_MODEL')));
+
+  const rounds = await loadHistoricalRounds(ratingType.id);
+  logger.info(
+    `Replaying ${rounds.length} ${ratingType.name} rounds with ${algorithm.version}` +
+      ` (inactivity ${inactivityModel.version})`
+  );
+
+  return simulate(rounds, algorithm, { bucketSize: request.bucketSize, inactivityModel });
+}
@@ -0,0 +1,189 @@
+/**
+ * ScoreIngestionService - Builds long_comp_result from the V5 review
+ * summations, so a round can be rated from V5 data alone.
+ *
+ * For each member's final submission (getFinalSubmissions), the score is read
+ * from its review summations:
+ *   SCORE_SUMMATION_FILTER  keeps the summations matching '<path>=<value>'
+ *                           (e.g. 'metadata.testType=final'); empty keeps all
+ *   SCORE_FIELD             path of the score in a summation ('aggregateScore')
+ * and the most recent matching summation (updated, else created) wins.
+ *
+ * Coders are placed by score, highest first. Equal scores are separated by
+ * SCORE_TIE_BREAK:
+ *   shared               - tied coders share the place (and the rank)
+ *   earliest_submission  - the earlier final submission places higher
+ * The place is stored in long_comp_result.placed and breaks the ties of
+ * equal scores when the round is rated.
+ *
+ * reconcileAttendance() ingests the scores, when enabled, before checking the
+ * attended flags: missing coders are created and the scores of the unrated
+ * coders refreshed. Rated coders are never touched. calculate() creates the
+ * round itself first when it does not exist (ensureRound).
+ */
+
+import config from 'config';
+import * as _ from 'lodash';
+import { Prisma } from '@prisma/client';
+import { createLogger } from '../common/logger';
+import { prisma } from '../common/prismaClient';
+import { DEFAULT_RATING_TYPE_ID } from '../common/ratingTypes';
+
+const logger = createLogger('ScoreIngestionService');
+
+export type TieBreak = 'shared' | 'earliest_submission';
+
+export const TIE_BREAKS: TieBreak[] = ['shared', 'earliest_submission'];
+
+export interface ScoreMapping {
+  field: string;
+  filter: { path: string; value: string } | null;
+  tieBreak: TieBreak;
+}
+
+export interface CoderScore {
+  coderId: number;
+  score: number;
+  submittedAt: Date;
+  placed: number;
+}
+
+export interface IngestionResult {
+  created: number;
+  updated: number;
+}
+
+/**
+ * Whether calculate() ingests the scores when the run does not say.
+ */
+export function isScoreIngestionEnabled(): boolean {
+  return String(config.get('SCORE_INGESTION_ENABLED')).toLowerCase() === 'true';
+}
+
+/**
+ * Parse a '<path>=<value>' summation filter; null for an empty one.
+ */
+export function parseSummationFilter(setting: string): ScoreMapping['filter'] {
+  const [path, ...value] = setting.split('=');
+  return path.trim() && value.length ? { path: path.trim(), value: value.join('=').trim() } : null;
+}
+
+/**
+ * The configured field mapping and tie-break; an unknown tie-break is shared.
+ */
+export function getScoreMapping(): ScoreMapping {
+  const tieBreak = String(config.get('SCORE_TIE_BREAK')).toLowerCase() as TieBreak;
+  return {
+    field: String(config.get('SCORE_FIELD')),
+    filter: parseSummationFilter(String(config.get('SCORE_SUMMATION_FILTER'))),
+    tieBreak: TIE_BREAKS.includes(tieBreak) ? tieBreak : 'shared',
+  };
+}
+
+/**
+ * Read the score of a final submission; null when no summation matches or
+ * the score is not a number.
+ */
+function readScore(submission: any, mapping: ScoreMapping): number | null {
+  const summations = _.castArray(submission.reviewSummation || []).filter(
+    (s: any) => !mapping.filter || String(_.get(s, mapping.filter.path)) === mapping.filter.value
+  );
+  const latest = _.maxBy(summations, (s: any) => new Date(s.updated || s.created || 0).getTime());
+  const score = Number(_.get(latest, mapping.field));
+  // Rounded as stored (system_point_total has 2 decimals), so ties are judged alike
+  return latest && Number.isFinite(score) ? Math.round(score * 100) / 100 : null;
+}
+
+/**
+ * Score and place the final submissions, highest score first.
+ */
+export function scoreSubmissions(finalSubmissions: any[], mapping: ScoreMapping = getScoreMapping()): CoderScore[] {
+  const scored: Omit<CoderScore, 'placed'>[] = [];
+  for (const submission of finalSubmissions) {
+    const score = readScore(submission, mapping);
+    if (score === null) {
+      logger.warn(`No ${mapping.field} in the review summations of member ${submission.memberId}; not scored`);
+      continue;
+    }
+    scored.push({ coderId: submission.memberId, score, submittedAt: new Date(submission.created) });
+  }
+
+  const ordered = _.orderBy(
+    scored,
+    mapping.tieBreak === 'earliest_submission' ? ['score', 'submittedAt', 'coderId'] : ['score', 'coderId'],
+    mapping.tieBreak === 'earliest_submission' ? ['desc', 'asc', 'asc'] : ['desc', 'asc']
+  );
+  // Competition ranking: shared places skip the following ones (1, 2, 2, 4)
+  let placed = 0;
+  return ordered.map((s, i) => {
+    const tied = mapping.tieBreak === 'shared' && i > 0 && ordered[i - 1].score === s.score;
+    if (!tied) placed = i + 1;
+    return { ...s, placed };
+  });
+}
+
+/**
+ * Create the missing coders of a round and refresh the scores and places of
+ * the unrated ones. New coders get no attended flag: the reconciliation that
+ * follows marks them. The changed coders are updated with one
+ * UPDATE ... FROM (VALUES ...) per batch of RATING_PERSIST_BATCH_SIZE.
+ */
+export async function ingestScores(
+  tx: Prisma.TransactionClient,
+  roundId: number,
+  scores: CoderScore[]
+): Promise<IngestionResult> {
+  const existing = await tx.long_comp_result.findMany({
+    where: { round_id: roundId, coder_id: { in: scores.map((s) => s.coderId) } },
+    select: { coder_id: true, system_point_total: true, placed: true, new_rating: true, new_vol: true },
+  });
+  const existingByCoder = _.keyBy(existing, 'coder_id');
+
+  const missing = scores.filter((s) => !existingByCoder[s.coderId]);
+  if (missing.length > 0) {
+    await tx.long_comp_result.createMany({
+      data: missing.map((s) => ({
+        round_id: roundId,
+        coder_id: s.coderId,
+        system_point_total: s.score,
+        placed: s.placed,
+      })),
+    });
+  }
+
+  const changed = scores.filter((s) => {
+    const row = existingByCoder[s.coderId];
+    if (!row || row.new_rating !== null || row.new_vol !== null) return false;
+    return Number(row.system_point_total) !== s.score || row.placed !== s.placed;
+  });
+  let updated = 0;
+  for (const batch of _.chunk(changed, config.get('RATING_PERSIST_BATCH_SIZE') as number)) {
+    updated += await tx.$executeRaw`
+      UPDATE long_comp_result AS lcr
+      SET system_point_total = v.score,
+          placed = v.placed
+      FROM (VALUES ${Prisma.join(
+        batch.map((s) => Prisma.sql`(${s.coderId}::int, ${s.score}::numeric, ${s.placed}::int)`)
+      )}) AS v(coder_id, score, placed)
+      WHERE lcr.round_id = ${roundId} AND lcr.coder_id = v.coder_id`;
+  }
+
+  logger.info(`Scores of round ${roundId}: ${missing.length} coders created, ${updated} updated`);
+  return { created: missing.length, updated };
+}
+
+/**
+ * Create the round of a legacy challenge id when it does not exist yet; an
+ * existing round is left as it is.
+ */
+export async function ensureRound(roundId: number, legacyId: number, ratingTypeId?: number): Promise<void> {
+  await prisma.round.upsert({
+    where: { round_id: roundId },
+    create: {
+      round_id: roundId,
+      contest_id: legacyId,
+      algo_rating_type_id: ratingTypeId ?? DEFAULT_RATING_TYPE_ID,
+    },
+    update: {},
+  });
+}
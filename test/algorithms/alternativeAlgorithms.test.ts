@@ -0,0 +1,151 @@
+/**
+ * State the Glicko-2 and Elo algorithms keep between rounds, and its storage
+ * when rounds of a rating type are rated by different algorithms.
+ *
+ * The storage tests need a migrated database: DATABASE_URL=postgresql://... npm test
+ * They are skipped when DATABASE_URL is not set.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+import { createInMemoryProducer, setProducer } from '../../src/common/kafkaProducer';
+import { runEloAlgorithm } from '../../src/libs/algorithm/AlgorithmElo';
+import { runGlicko2Algorithm } from '../../src/libs/algorithm/AlgorithmGlicko2';
+import { CoderRating } from '../../src/libs/algorithm/RatingAlgorithm';
+
+const ROUNDS = [900500000, 900500001];
+const CODERS = [900500001, 900500002, 900500003];
+const RATING_TYPE_ID = 3;
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+const coder = (coderId: number, score: number, rating = 0, volatility = 0, numRatings = 0): CoderRating => ({
+  coderId,
+  rating,
+  volatility,
+  numRatings,
+  score,
+});
+
+// The next round's input from a rated coder, as loaded from algo_rating
+const next = (c: CoderRating, score: number): CoderRating => ({
+  ...coder(c.coderId, score, c.newRating, c.newVolatility, c.numRatings),
+  sigma: c.newSigma,
+});
+
+describe('Glicko-2', () => {
+  test('new coders start from sigma 0.06 and get the updated sigma', () => {
+    const rated = runGlicko2Algorithm([coder(1, 100), coder(2, 50)]);
+
+    for (const c of rated) {
+      expect(c.newSigma).toBeGreaterThan(0);
+      expect(c.newSigma).toBeCloseTo(0.06, 2);
+    }
+  });
+
+  test('sigma is carried into the next round', () => {
+    const [first] = runGlicko2Algorithm([coder(1, 100), coder(2, 50), coder(3, 10)]);
+    const [carried] = runGlicko2Algorithm([next(first, 100), coder(4, 50, 1200, 200, 3), coder(5, 10, 1200, 200, 3)]);
+    const [restarted] = runGlicko2Algorithm([
+      { ...next(first, 100), sigma: undefined },
+      coder(4, 50, 1200, 200, 3),
+      coder(5, 10, 1200, 200, 3),
+    ]);
+
+    expect(carried.newSigma).not.toBe(restarted.newSigma);
+  });
+
+  test('a coder with a higher sigma moves further on the same result', () => {
+    const field = (sigma: number) => [
+      { ...coder(1, 100, 1500, 150, 5), sigma },
+      coder(2, 50, 1500, 150, 5),
+      coder(3, 10, 1500, 150, 5),
+    ];
+
+    const [steady] = runGlicko2Algorithm(field(0.03));
+    const [erratic] = runGlicko2Algorithm(field(0.2));
+
+    expect(erratic.newRating as number).toBeGreaterThan(steady.newRating as number);
+  });
+
+  test('a coder alone keeps the sigma and only the deviation grows', () => {
+    const [alone] = runGlicko2Algorithm([{ ...coder(1, 100, 1500, 100, 5), sigma: 0.1 }]);
+
+    expect(alone).toMatchObject({ newRating: 1500, newSigma: 0.1 });
+    expect(alone.newVolatility as number).toBeGreaterThan(100);
+  });
+});
+
+describe('Elo', () => {
+  test('new coders get an initial volatility, experienced coders keep theirs', () => {
+    const rated = runEloAlgorithm([coder(1, 100), coder(2, 50, 1300, 280, 4)]);
+
+    expect(rated.map((c) => c.newVolatility)).toEqual([515, 280]);
+    expect(rated[0].volatility).toBe(515);
+  });
+});
+
+describeWithDb('sigma storage (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+  let runRatingProcess: typeof import('../../src/services/MarathonRatingsService').runRatingProcess;
+
+  async function cleanUp(): Promise<void> {
+    await prisma.rating_history.deleteMany({ where: { round_id: { in: ROUNDS } } });
+    await prisma.rating_milestone.deleteMany({ where: { round_id: { in: ROUNDS } } });
+    await prisma.long_comp_result.deleteMany({ where: { round_id: { in: ROUNDS } } });
+    await prisma.algo_rating.deleteMany({ where: { coder_id: { in: CODERS }, algo_rating_type_id: RATING_TYPE_ID } });
+    await prisma.round.deleteMany({ where: { round_id: { in: ROUNDS } } });
+  }
+
+  const sigmas = async () => {
+    const rows = await prisma.algo_rating.findMany({
+      where: { coder_id: { in: CODERS }, algo_rating_type_id: RATING_TYPE_ID },
+      orderBy: { coder_id: 'asc' },
+    });
+    return rows.map((r) => r.sigma);
+  };
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+    ({ runRatingProcess } = await import('../../src/services/MarathonRatingsService'));
+    setProducer(createInMemoryProducer());
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    for (const roundId of ROUNDS) {
+      await prisma.round.create({ data: { round_id: roundId, rated_ind: 0, algo_rating_type_id: RATING_TYPE_ID } });
+      await prisma.long_comp_result.createMany({
+        data: CODERS.map((coderId, i) => ({
+          round_id: roundId,
+          coder_id: coderId,
+          attended: 'Y',
+          system_point_total: 90 - i * 10,
+        })),
+      });
+    }
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    setProducer(null);
+    await prisma.$disconnect();
+  });
+
+  test('a round rated by Qubits keeps the sigma of the Glicko-2 rounds', async () => {
+    await runRatingProcess(ROUNDS[0], { algorithm: 'glicko2' });
+    const glicko2 = await sigmas();
+    expect(glicko2).toHaveLength(CODERS.length);
+    for (const sigma of glicko2) expect(sigma).toBeGreaterThan(0);
+
+    await runRatingProcess(ROUNDS[1], { algorithm: 'qubits' });
+
+    expect(await sigmas()).toEqual(glicko2);
+    const history = await prisma.rating_history.findMany({
+      where: { round_id: ROUNDS[1] },
+      orderBy: { coder_id: 'asc' },
+    });
+    expect(history.map((h) => h.old_sigma)).toEqual(glicko2);
+    expect(history.map((h) => h.new_sigma)).toEqual(glicko2);
+  });
+});
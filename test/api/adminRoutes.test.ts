@@ -0,0 +1,196 @@
+/**
+ * Authentication and validation of the admin API, and the jobs its routes
+ * submit, over HTTP.
+ *
+ * The submissions need a migrated database: DATABASE_URL=postgresql://... npm test
+ * They are skipped when DATABASE_URL is not set; the calculations go to the
+ * V5 stub server.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals';
+import { Server } from 'http';
+import { AddressInfo } from 'net';
+import { startV5StubServer, V5StubServer } from '../support/v5StubServer';
+
+// Read by config when the API is imported
+process.env.ADMIN_API_TOKENS = 'alice:alice-token-1, bob:bob-token-22';
+const TOKEN = 'alice-token-1';
+const ROUND_ID = 900800000;
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+let server: Server;
+let baseUrl: string;
+
+function request(method: string, path: string, body?: unknown, token: string | null = TOKEN) {
+  const headers: Record<string, string> = {};
+  if (token !== null) headers.Authorization = `Bearer ${token}`;
+  if (body !== undefined) headers['Content-Type'] = 'application/json';
+  return fetch(`${baseUrl}${path}`, {
+    method,
+    headers,
+    body: body === undefined ? undefined : typeof body === 'string' ? body : JSON.stringify(body),
+  });
+}
+
+// The JSON body of a response
+const json = (res: Response): Promise<any> => res.json();
+
+beforeAll(async () => {
+  // Imported lazily: config reads ADMIN_API_TOKENS on load
+  const { createApiApp } = await import('../../src/api/server');
+  server = await new Promise<Server>((resolve) => {
+    const listening = createApiApp().listen(0, '127.0.0.1', () => resolve(listening));
+  });
+  baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+  await new Promise((resolve) => server.close(resolve));
+});
+
+describe('findOperator', () => {
+  test('finds the operator of a token, compared over its full length', async () => {
+    const { findOperator } = await import('../../src/api/auth');
+
+    expect(findOperator('alice-token-1')).toBe('alice');
+    expect(findOperator('bob-token-22')).toBe('bob');
+    expect(findOperator('alice-token-2')).toBeUndefined();
+    expect(findOperator('alice-token-')).toBeUndefined();
+    expect(findOperator('alice-token-11')).toBeUndefined();
+    expect(findOperator('')).toBeUndefined();
+  });
+});
+
+describe('admin API authentication', () => {
+  test.each([
+    ['no token', null],
+    ['an unknown token', 'mallory-token'],
+    ['a token of another length', 'alice-token-1x'],
+  ])('refuses a request with %s', async (_case, token) => {
+    const res = await request('GET', '/admin/jobs', undefined, token);
+
+    expect(res.status).toBe(401);
+    expect(res.headers.get('www-authenticate')).toBe('Bearer');
+    expect(await json(res)).toEqual({ message: 'A valid admin token is required' });
+  });
+
+  test('refuses a token that is not a bearer token', async () => {
+    const res = await fetch(`${baseUrl}/admin/jobs`, { headers: { Authorization: `Basic ${TOKEN}` } });
+
+    expect(res.status).toBe(401);
+  });
+});
+
+describe('admin API validation', () => {
+  test.each([
+    ['POST', '/admin/calculations', {}, '"challengeId" is required'],
+    ['POST', '/admin/calculations', { challengeId: 'c1', legacyId: -1 }, '"legacyId" must be a positive number'],
+    ['POST', '/admin/calculations', { challengeId: 'c1', legacyId: 1, attendancePolicy: 'maybe' }, '"attendancePolicy"'],
+    ['POST', '/admin/rounds/abc/load-coders', undefined, '"roundId" must be a number'],
+    ['POST', '/admin/rounds/0/load-ratings', undefined, '"roundId" must be a positive number'],
+    ['POST', '/admin/rounds/1/preview', { algorithm: 'unknown' }, '"algorithm" must be a registered algorithm'],
+    ['POST', '/admin/rounds/1/preview', { inactivityModel: 'v0' }, '"inactivityModel" must be a registered inactivity model'],
+    ['POST', '/admin/rounds/1/rollback', { cascade: 'sometimes' }, '"cascade" must be a boolean'],
+    ['GET', '/admin/jobs/first', undefined, '"jobId" must be a number'],
+    ['GET', '/admin/jobs?status=DONE', undefined, '"status" must be one of'],
+  ])('%s %s answers 400', async (method, path, body, message) => {
+    const res = await request(method, path, body);
+
+    expect(res.status).toBe(400);
+    expect((await json(res)).message).toContain(message);
+  });
+
+  test('answers 400 to a malformed JSON body', async () => {
+    const res = await request('POST', '/admin/rounds/1/rollback', '{"cascade":');
+
+    expect(res.status).toBe(400);
+    expect(await json(res)).toEqual({ message: 'Invalid JSON body' });
+  });
+});
+
+describeWithDb('admin API jobs (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+  let stub: V5StubServer;
+
+  async function cleanUp(): Promise<void> {
+    await prisma.rating_job.deleteMany({ where: { round_id: ROUND_ID } });
+  }
+
+  // Wait for a job to finish, so that it does not outlive the test
+  async function finished(jobId: number): Promise<{ status: string }> {
+    const { sleep } = await import('../../src/common/retry');
+    for (let i = 0; i < 200; i++) {
+      const job = await json(await request('GET', `/admin/jobs/${jobId}`));
+      if (job.status === 'SUCCEEDED' || job.status === 'FAILED') return job;
+      await sleep(50);
+    }
+    throw new Error(`Job ${jobId} did not finish`);
+  }
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+    const { setV5Client } = await import('../../src/common/helper');
+    const { createV5Client } = await import('../../src/libs/v5/V5Client');
+    const { createTokenProvider } = await import('../../src/libs/v5/TokenProvider');
+
+    stub = await startV5StubServer();
+    setV5Client(
+      createV5Client({
+        baseUrl: stub.url,
+        tokenProvider: createTokenProvider({
+          auth0Url: '',
+          clientId: '',
+          clientSecret: '',
+          audience: '',
+          timeoutMs: 1000,
+          fallbackCacheTimeMs: 0,
+        }),
+        timeoutMs: 1000,
+        retry: { maxAttempts: 1, initialDelayMs: 0, maxDelayMs: 0, multiplier: 2 },
+        circuitBreaker: { failureThreshold: 100, resetTimeoutMs: 1000 },
+        rateLimit: 0,
+        maxPages: 10,
+      })
+    );
+    await cleanUp();
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await stub.close();
+    await prisma.$disconnect();
+  });
+
+  test.each([
+    ['/admin/calculations', 'CALCULATE', { challengeId: 'challenge-1', legacyId: ROUND_ID }],
+    [`/admin/rounds/${ROUND_ID}/load-coders`, 'LOAD_CODERS', undefined],
+    [`/admin/rounds/${ROUND_ID}/load-ratings`, 'LOAD_RATINGS', undefined],
+    [`/admin/rounds/${ROUND_ID}/preview`, 'PREVIEW', { algorithm: 'elo' }],
+    [`/admin/rounds/${ROUND_ID}/rollback`, 'ROLLBACK', { cascade: true }],
+  ])('POST %s queues a %s job of the operator', async (path, operation, body) => {
+    const res = await request('POST', path, body);
+    const job = await json(res);
+
+    expect(res.status).toBe(202);
+    expect(res.headers.get('location')).toBe(`/admin/jobs/${job.id}`);
+    expect(job).toMatchObject({ operation, roundId: ROUND_ID, status: 'QUEUED', triggeredBy: 'alice' });
+    expect(job.params).toMatchObject(body ?? {});
+    expect(['SUCCEEDED', 'FAILED']).toContain((await finished(job.id)).status);
+  });
+
+  test('GET /admin/jobs lists the jobs of a round, newest first', async () => {
+    const res = await request('GET', `/admin/jobs?roundId=${ROUND_ID}&limit=2`);
+    const jobs = await json(res);
+
+    expect(res.status).toBe(200);
+    expect(jobs.map((j: { operation: string }) => j.operation)).toEqual(['ROLLBACK', 'PREVIEW']);
+  });
+
+  test('GET /admin/jobs/:jobId answers 404 for an unknown job', async () => {
+    const res = await request('GET', '/admin/jobs/999999999');
+
+    expect(res.status).toBe(404);
+  });
+});
@@ -0,0 +1,152 @@
+/**
+ * Attendance reconciliation against the V5 stub server, through Postgres.
+ *
+ * Needs a migrated database: DATABASE_URL=postgresql://... npm test
+ * Skipped when DATABASE_URL is not set.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+import { startV5StubServer, V5StubServer } from '../support/v5StubServer';
+
+const ROUND_ID = 900100000;
+const CODERS = { reviewed: 900100001, unreviewed: 900100002, absent: 900100003, late: 900100004 };
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDb('reconcileAttendance (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+  let service: typeof import('../../src/services/AttendanceService');
+  let stub: V5StubServer;
+
+  async function cleanUp(): Promise<void> {
+    await prisma.attendance_reconciliation.deleteMany({ where: { round_id: ROUND_ID } });
+    await prisma.long_comp_result.deleteMany({ where: { round_id: ROUND_ID } });
+    await prisma.round.deleteMany({ where: { round_id: ROUND_ID } });
+  }
+
+  async function attendedFlags(): Promise<Record<number, string | null>> {
+    const rows = await prisma.long_comp_result.findMany({ where: { round_id: ROUND_ID } });
+    return Object.fromEntries(rows.map((r) => [r.coder_id, r.attended]));
+  }
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+    service = await import('../../src/services/AttendanceService');
+    const { setV5Client } = await import('../../src/common/helper');
+    const { createV5Client } = await import('../../src/libs/v5/V5Client');
+    const { createTokenProvider } = await import('../../src/libs/v5/TokenProvider');
+
+    stub = await startV5StubServer();
+    setV5Client(
+      createV5Client({
+        baseUrl: stub.url,
+        tokenProvider: createTokenProvider({
+          auth0Url: '',
+          clientId: '',
+          clientSecret: '',
+          audience: '',
+          timeoutMs: 1000,
+          fallbackCacheTimeMs: 0,
+        }),
+        timeoutMs: 1000,
+        retry: { maxAttempts: 1, initialDelayMs: 0, maxDelayMs: 0, multiplier: 2 },
+        circuitBreaker: { failureThreshold: 100, resetTimeoutMs: 1000 },
+        rateLimit: 0,
+        maxPages: 10,
+      })
+    );
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    await prisma.long_comp_result.createMany({
+      data: [
+        { round_id: ROUND_ID, coder_id: CODERS.reviewed, attended: 'N' },
+        { round_id: ROUND_ID, coder_id: CODERS.unreviewed, attended: 'Y' },
+        { round_id: ROUND_ID, coder_id: CODERS.absent, attended: 'Y' },
+        { round_id: ROUND_ID, coder_id: CODERS.late, attended: 'Y' },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await stub.close();
+    await prisma.$disconnect();
+  });
+
+  test('marks submitters attended and non-submitters absent, with the reasons', async () => {
+    stub.respond('/submissions', {
+      body: [
+        { memberId: CODERS.reviewed, created: '2026-01-01', reviewSummation: [{ aggregateScore: 90 }] },
+        { memberId: CODERS.unreviewed, created: '2026-01-01' },
+        { memberId: CODERS.late, created: '2026-01-01', reviewSummation: [{ aggregateScore: 80 }] },
+      ],
+    });
+
+    const report = await service.reconcileAttendance('challenge-1', ROUND_ID, { policy: 'fail' });
+
+    expect(report.outcome).toBe('RECONCILED');
+    expect(report.changes).toEqual(
+      expect.arrayContaining([
+        { coderId: CODERS.reviewed, oldAttended: 'N', newAttended: 'Y', reason: 'FINAL_SUBMISSION' },
+        { coderId: CODERS.unreviewed, oldAttended: 'Y', newAttended: 'N', reason: 'NO_REVIEWED_SUBMISSION' },
+        { coderId: CODERS.absent, oldAttended: 'Y', newAttended: 'N', reason: 'NO_SUBMISSION' },
+      ])
+    );
+    expect(report.changes).toHaveLength(3);
+    expect(await attendedFlags()).toEqual({
+      [CODERS.reviewed]: 'Y',
+      [CODERS.unreviewed]: 'N',
+      [CODERS.absent]: 'N',
+      [CODERS.late]: 'Y',
+    });
+    const [recorded] = await service.getReconciliations(ROUND_ID);
+    expect(recorded).toMatchObject({ outcome: 'RECONCILED', finalSubmissions: 2, changes: report.changes });
+  });
+
+  test('a dry-run calculation rates the reconciled attendees without writing the flags', async () => {
+    const { calculate } = await import('../../src/services/MarathonRatingsService');
+    await prisma.round.create({ data: { round_id: ROUND_ID, rated_ind: 0, algo_rating_type_id: 3 } });
+    stub.respond('/submissions', {
+      body: [
+        { memberId: CODERS.reviewed, created: '2026-01-01', reviewSummation: [{ aggregateScore: 90 }] },
+        { memberId: CODERS.unreviewed, created: '2026-01-01' },
+        { memberId: CODERS.late, created: '2026-01-01', reviewSummation: [{ aggregateScore: 80 }] },
+      ],
+    });
+
+    const result = await calculate('challenge-1', ROUND_ID, {
+      dryRun: true,
+      attendancePolicy: 'fail',
+      ingestScores: false,
+    });
+
+    expect(result.status).toBe('PREVIEW');
+    expect(result.changes.map((c) => c.coderId).sort()).toEqual([CODERS.reviewed, CODERS.late]);
+    expect(Object.values(await attendedFlags()).sort()).toEqual(['N', 'Y', 'Y', 'Y']);
+    expect(await service.getReconciliations(ROUND_ID)).toEqual([]);
+  });
+
+  test('defers without touching the flags when the submissions are unavailable', async () => {
+    stub.respond('/submissions', { status: 503 });
+
+    await expect(service.reconcileAttendance('challenge-1', ROUND_ID, { policy: 'defer' })).rejects.toBeInstanceOf(
+      service.AttendanceDeferredError
+    );
+
+    expect(Object.values(await attendedFlags()).sort()).toEqual(['N', 'Y', 'Y', 'Y']);
+    const [recorded] = await service.getReconciliations(ROUND_ID);
+    expect(recorded).toMatchObject({ outcome: 'DEFERRED', policy: 'defer', finalSubmissions: null });
+  });
+
+  test('treats an empty submission list for a round with attendees as unavailable', async () => {
+    stub.respond('/submissions', { body: [] });
+
+    const report = await service.reconcileAttendance('challenge-1', ROUND_ID, { policy: 'proceed' });
+
+    expect(report).toMatchObject({ outcome: 'PROCEEDED', changes: [] });
+    expect(Object.values(await attendedFlags()).sort()).toEqual(['N', 'Y', 'Y', 'Y']);
+  });
+});
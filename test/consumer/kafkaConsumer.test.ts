@@ -0,0 +1,208 @@
+/**
+ * Handling of the consumed message batches (retries, dead letters, offset
+ * commits) and the re-drive of the dead letters. Messages are published to an
+ * in-memory producer and the consumers are stand-ins recording the commits.
+ */
+
+import config from 'config';
+import { afterAll, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { PermanentError, RetryableError } from '../../src/common/errors';
+import { createInMemoryProducer, InMemoryProducer, setProducer } from '../../src/common/kafkaProducer';
+import { RetryPolicy } from '../../src/common/retry';
+import {
+  buildDeadLetterMessage,
+  DeadLetterMessage,
+  redriveDeadLetters,
+  RedriveConsumer,
+} from '../../src/services/DeadLetterService';
+import { createDataHandler, PartitionConsumer } from '../../src/services/KafkaConsumerService';
+
+const TOPIC = 'test.source.topic';
+const DEAD_LETTER_TOPIC = config.get('KAFKA_DEAD_LETTER_TOPIC') as string;
+const retryPolicy: RetryPolicy = { maxAttempts: 3, initialDelayMs: 1, maxDelayMs: 1, multiplier: 2 };
+
+const kafkaMessage = (offset: number, value: string) => ({ offset, message: { value: Buffer.from(value) } });
+
+// In-memory producer whose sends of the matching messages fail
+function createFailingProducer(fails: (value: string) => boolean): InMemoryProducer {
+  const producer = createInMemoryProducer();
+  return {
+    ...producer,
+    async send(topic: string, value: string) {
+      if (fails(value)) throw new Error('broker unavailable');
+      await producer.send(topic, value);
+    },
+  };
+}
+
+function createTestConsumer() {
+  const commits: number[] = [];
+  const subscriptions: { partition: number; offset: number }[] = [];
+  const consumer: PartitionConsumer = {
+    commitOffset: ({ offset }) => commits.push(offset),
+    subscribe: async (_topic, partition, { offset }) => subscriptions.push({ partition, offset }),
+  };
+  return { consumer, commits, subscriptions };
+}
+
+describe('Kafka message handling', () => {
+  let producer: InMemoryProducer;
+
+  const deadLetters = () =>
+    producer.messages
+      .filter((m) => m.topic === DEAD_LETTER_TOPIC)
+      .map((m) => (JSON.parse(m.value) as DeadLetterMessage).payload);
+
+  beforeEach(() => {
+    producer = createInMemoryProducer();
+    setProducer(producer);
+  });
+
+  afterAll(() => {
+    setProducer(null);
+  });
+
+  test('sends invalid JSON to the dead-letter topic without handling it', async () => {
+    const handle = jest.fn(async () => undefined);
+    const { consumer, commits } = createTestConsumer();
+
+    await createDataHandler(consumer, handle, retryPolicy)([kafkaMessage(7, '{not json')], TOPIC, 0);
+
+    expect(handle).not.toHaveBeenCalled();
+    expect(deadLetters()).toEqual([
+      expect.objectContaining({
+        source: { topic: TOPIC, partition: 0, offset: 7 },
+        originalMessage: '{not json',
+        attempts: 0,
+        error: expect.objectContaining({ name: 'PermanentError', retryable: false }),
+      }),
+    ]);
+    expect(commits).toEqual([7]);
+  });
+
+  test('retries a retryable error and dead-letters the message once the attempts are used up', async () => {
+    const flaky = jest.fn(async (message: any) => {
+      if (flaky.mock.calls.length < 2) throw new RetryableError(`database unavailable (${message.id})`);
+    });
+    const down = jest.fn(async () => {
+      throw new RetryableError('database unavailable');
+    });
+    const { consumer } = createTestConsumer();
+
+    await createDataHandler(consumer, flaky, retryPolicy)([kafkaMessage(1, '{"id":1}')], TOPIC, 0);
+    await createDataHandler(consumer, down, retryPolicy)([kafkaMessage(2, '{"id":2}')], TOPIC, 0);
+
+    expect(flaky).toHaveBeenCalledTimes(2);
+    expect(down).toHaveBeenCalledTimes(3);
+    expect(deadLetters()).toEqual([
+      expect.objectContaining({
+        source: { topic: TOPIC, partition: 0, offset: 2 },
+        attempts: 3,
+        error: expect.objectContaining({ name: 'RetryableError', retryable: true }),
+      }),
+    ]);
+  });
+
+  test('commits the offsets up to the first message that could not be dead-lettered', async () => {
+    // The dead letter of offset 11 cannot be published
+    producer = createFailingProducer((value) => value.includes('"offset":11'));
+    setProducer(producer);
+    const handle = async (message: any) => {
+      if (message.id !== 10) throw new PermanentError(`bad data (${message.id})`);
+    };
+    const { consumer, commits, subscriptions } = createTestConsumer();
+
+    await createDataHandler(consumer, handle, retryPolicy)(
+      [kafkaMessage(10, '{"id":10}'), kafkaMessage(11, '{"id":11}'), kafkaMessage(12, '{"id":12}')],
+      TOPIC,
+      3,
+      20
+    );
+
+    expect(commits).toEqual([10]);
+    expect(subscriptions).toEqual([{ partition: 3, offset: 11 }]);
+    // Offset 12 was dead-lettered, but is read again from offset 11
+    expect(deadLetters().map((d) => d.source.offset)).toEqual([12]);
+  });
+
+  test('commits the whole batch when every message was handled or dead-lettered', async () => {
+    const handle = async (message: any) => {
+      if (message.id === 11) throw new PermanentError('bad data');
+    };
+    const { consumer, commits, subscriptions } = createTestConsumer();
+
+    await createDataHandler(consumer, handle, retryPolicy)(
+      [kafkaMessage(10, '{"id":10}'), kafkaMessage(11, '{"id":11}'), kafkaMessage(12, '{"id":12}')],
+      TOPIC,
+      0
+    );
+
+    expect(commits).toEqual([12]);
+    expect(subscriptions).toEqual([]);
+  });
+});
+
+describe('redriveDeadLetters', () => {
+  const deadLetter = (offset: number, originalMessage: string) =>
+    kafkaMessage(
+      offset,
+      JSON.stringify(
+        buildDeadLetterMessage({ topic: TOPIC, partition: 0, offset: offset + 100 }, originalMessage, new Error('x'), 3)
+      )
+    );
+
+  // Consumer delivering the given dead letters in one batch, recording the
+  // re-drives and commits in order
+  function createDeadLetterConsumer(messages: ReturnType<typeof deadLetter>[], events: string[]): RedriveConsumer {
+    return {
+      init: async ([{ handler }]) => {
+        setImmediate(() => handler(messages, DEAD_LETTER_TOPIC, 0));
+      },
+      commitOffset: async ({ offset }) => events.push(`commit ${offset}`),
+      end: async () => undefined,
+    };
+  }
+
+  afterAll(() => {
+    setProducer(null);
+  });
+
+  test('commits each dead letter only once it is republished, and stops at the first failure', async () => {
+    const events: string[] = [];
+    const inner = createFailingProducer((value) => value === 'second');
+    setProducer({
+      ...inner,
+      async send(topic: string, value: string) {
+        events.push(`send ${value}`);
+        await inner.send(topic, value);
+      },
+    });
+
+    const count = await redriveDeadLetters(
+      { idleTimeoutMs: 1000 },
+      createDeadLetterConsumer([deadLetter(0, 'first'), deadLetter(1, 'second'), deadLetter(2, 'third')], events)
+    );
+
+    expect(count).toBe(1);
+    expect(events).toEqual(['send first', 'commit 0', 'send second']);
+    expect(inner.messages).toEqual([{ topic: TOPIC, value: 'first' }]);
+  });
+
+  test('republishes the original messages to their source topics', async () => {
+    const producer = createInMemoryProducer();
+    setProducer(producer);
+    const events: string[] = [];
+
+    const count = await redriveDeadLetters(
+      { limit: 2, idleTimeoutMs: 1000 },
+      createDeadLetterConsumer([deadLetter(0, '{"a":1}'), deadLetter(1, 'not json')], events)
+    );
+
+    expect(count).toBe(2);
+    expect(producer.messages).toEqual([
+      { topic: TOPIC, value: '{"a":1}' },
+      { topic: TOPIC, value: 'not json' },
+    ]);
+    expect(events).toEqual(['commit 0', 'commit 1']);
+  });
+});
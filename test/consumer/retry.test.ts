@@ -0,0 +1,77 @@
+/**
+ * Exponential backoff of the retried Kafka messages and V5 API calls.
+ */
+
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { PermanentError, RetryableError } from '../../src/common/errors';
+import { getBackoffDelay, retryWithBackoff, RetryPolicy } from '../../src/common/retry';
+
+const policy: RetryPolicy = { maxAttempts: 4, initialDelayMs: 100, maxDelayMs: 300, multiplier: 2 };
+
+describe('getBackoffDelay', () => {
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  test('multiplies the delay on every retry, up to the maximum', () => {
+    expect([1, 2, 3, 4].map((retry) => getBackoffDelay(policy, retry))).toEqual([100, 200, 300, 300]);
+  });
+
+  test('draws the jitter fraction of the delay at random', () => {
+    jest.spyOn(Math, 'random').mockReturnValue(0.5);
+
+    expect(getBackoffDelay({ ...policy, jitter: 1 }, 2)).toBe(100);
+    expect(getBackoffDelay({ ...policy, jitter: 0.2 }, 2)).toBe(180);
+  });
+});
+
+describe('retryWithBackoff', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+  });
+
+  test('retries a retryable error after the backoff delays', async () => {
+    const fn = jest.fn(async (attempt: number) => {
+      if (attempt < 3) throw new RetryableError('database unavailable');
+      return 'done';
+    });
+
+    const result = retryWithBackoff(fn, policy);
+    await jest.advanceTimersByTimeAsync(99);
+    expect(fn).toHaveBeenCalledTimes(1);
+    await jest.advanceTimersByTimeAsync(1);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(199);
+    expect(fn).toHaveBeenCalledTimes(2);
+    await jest.advanceTimersByTimeAsync(1);
+
+    await expect(result).resolves.toBe('done');
+    expect(fn).toHaveBeenCalledTimes(3);
+  });
+
+  test('does not retry a permanent error', async () => {
+    const fn = jest.fn(async () => {
+      throw new PermanentError('bad data');
+    });
+
+    await expect(retryWithBackoff(fn, policy)).rejects.toThrow('bad data');
+    expect(fn).toHaveBeenCalledTimes(1);
+  });
+
+  test('rethrows the last error once the attempts are used up', async () => {
+    const fn = jest.fn(async (attempt: number) => {
+      throw new RetryableError(`attempt ${attempt} failed`);
+    });
+
+    const result = retryWithBackoff(fn, policy);
+    const failure = expect(result).rejects.toThrow('attempt 4 failed');
+    await jest.advanceTimersByTimeAsync(100 + 200 + 300);
+
+    await failure;
+    expect(fn).toHaveBeenCalledTimes(4);
+  });
+});
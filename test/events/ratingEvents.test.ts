@@ -0,0 +1,192 @@
+/**
+ * RATINGS_CALCULATION, LOAD_CODERS and LOAD_RATINGS events published by
+ * calculate(), loadCoders() and loadRatings(), through Postgres.
+ *
+ * Needs a migrated database: DATABASE_URL=postgresql://... npm test
+ * Skipped when DATABASE_URL is not set. Events are recorded by an in-memory
+ * producer and the warehouse loads go to an in-memory target.
+ */
+
+import config from 'config';
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+import { createInMemoryProducer, setProducer } from '../../src/common/kafkaProducer';
+import { RATING_SERVICE_ORIGINATOR } from '../../src/common/schemas';
+import { WarehouseTarget } from '../../src/libs/warehouse/WarehouseTarget';
+import { startV5StubServer, V5StubServer } from '../support/v5StubServer';
+
+const ROUND_ID = 900200000;
+const CODERS = [900200001, 900200002, 900200003];
+const RATING_TYPE_ID = 3;
+const RATING_SERVICE_TOPIC = config.get('KAFKA_RATING_SERVICE_TOPIC') as string;
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+// Warehouse target that counts every row as written, or fails every load
+function createTestTarget(failure?: Error): WarehouseTarget {
+  const upsert = async (rows: unknown[]) => {
+    if (failure) throw failure;
+    return rows.length;
+  };
+  return {
+    ensureSchema: async () => undefined,
+    upsertCoders: upsert,
+    upsertRoundResults: upsert,
+    upsertRoundRatings: upsert,
+    getWatermark: async () => null,
+    setWatermark: async () => undefined,
+  };
+}
+
+describeWithDb('rating-service events (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+  let service: typeof import('../../src/services/MarathonRatingsService');
+  let setWarehouseTarget: typeof import('../../src/services/DataWarehouseService').setWarehouseTarget;
+  let stub: V5StubServer;
+  const producer = createInMemoryProducer();
+
+  // Rating-service events only: the milestones of the rated coders are published as well
+  const published = () =>
+    producer.messages.filter((m) => m.topic === RATING_SERVICE_TOPIC).map((m) => JSON.parse(m.value));
+
+  async function cleanUp(): Promise<void> {
+    await prisma.rating_history.deleteMany({ where: { round_id: ROUND_ID } });
+    await prisma.rating_milestone.deleteMany({ where: { round_id: ROUND_ID } });
+    await prisma.provisional_rating.deleteMany({ where: { round_id: ROUND_ID } });
+    await prisma.attendance_reconciliation.deleteMany({ where: { round_id: ROUND_ID } });
+    await prisma.long_comp_result.deleteMany({ where: { round_id: ROUND_ID } });
+    await prisma.algo_rating.deleteMany({ where: { coder_id: { in: CODERS }, algo_rating_type_id: RATING_TYPE_ID } });
+    await prisma.round.deleteMany({ where: { round_id: ROUND_ID } });
+  }
+
+  async function calculate() {
+    return service.calculate('challenge-1', ROUND_ID, { ingestScores: false, attendancePolicy: 'fail' });
+  }
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+    service = await import('../../src/services/MarathonRatingsService');
+    ({ setWarehouseTarget } = await import('../../src/services/DataWarehouseService'));
+    const { setV5Client } = await import('../../src/common/helper');
+    const { createV5Client } = await import('../../src/libs/v5/V5Client');
+    const { createTokenProvider } = await import('../../src/libs/v5/TokenProvider');
+
+    stub = await startV5StubServer();
+    setV5Client(
+      createV5Client({
+        baseUrl: stub.url,
+        tokenProvider: createTokenProvider({
+          auth0Url: '',
+          clientId: '',
+          clientSecret: '',
+          audience: '',
+          timeoutMs: 1000,
+          fallbackCacheTimeMs: 0,
+        }),
+        timeoutMs: 1000,
+        retry: { maxAttempts: 1, initialDelayMs: 0, maxDelayMs: 0, multiplier: 2 },
+        circuitBreaker: { failureThreshold: 100, resetTimeoutMs: 1000 },
+        rateLimit: 0,
+        maxPages: 10,
+      })
+    );
+    setProducer(producer);
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    producer.clear();
+    setWarehouseTarget(createTestTarget());
+    await prisma.round.create({ data: { round_id: ROUND_ID, rated_ind: 0, algo_rating_type_id: RATING_TYPE_ID } });
+    await prisma.long_comp_result.createMany({
+      data: CODERS.map((coderId, i) => ({
+        round_id: ROUND_ID,
+        coder_id: coderId,
+        attended: 'Y',
+        system_point_total: 90 - i * 10,
+      })),
+    });
+    stub.respond('/submissions', {
+      body: CODERS.map((memberId, i) => ({
+        memberId,
+        created: '2026-01-01',
+        reviewSummation: [{ aggregateScore: 90 - i * 10 }],
+      })),
+    });
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    setProducer(null);
+    setWarehouseTarget(null);
+    await stub.close();
+    await prisma.$disconnect();
+  });
+
+  test('calculate publishes RATINGS_CALCULATION SUCCESS with the rated coders', async () => {
+    await calculate();
+
+    expect(published()).toEqual([
+      expect.objectContaining({
+        originator: RATING_SERVICE_ORIGINATOR,
+        'mime-type': 'application/json',
+        payload: {
+          event: 'RATINGS_CALCULATION',
+          status: 'SUCCESS',
+          roundId: ROUND_ID,
+          challengeId: 'challenge-1',
+          ratingTypeId: RATING_TYPE_ID,
+          calculationStatus: 'SUCCESS',
+          ratedCoders: 3,
+          firstTimers: 3,
+          experiencedCoders: 0,
+        },
+      }),
+    ]);
+  });
+
+  test('calculate publishes RATINGS_CALCULATION FAILURE with the error', async () => {
+    stub.respond('/submissions', { status: 503 });
+
+    await expect(calculate()).rejects.toThrow(/submissions unavailable/);
+
+    expect(published()).toEqual([
+      expect.objectContaining({
+        payload: {
+          event: 'RATINGS_CALCULATION',
+          status: 'FAILURE',
+          roundId: ROUND_ID,
+          error: { name: 'PermanentError', message: expect.stringMatching(/submissions unavailable/) },
+        },
+      }),
+    ]);
+  });
+
+  test('loadCoders and loadRatings publish SUCCESS with the row counts', async () => {
+    await calculate();
+    producer.clear();
+
+    await service.loadCoders(ROUND_ID);
+    await service.loadRatings(ROUND_ID);
+
+    expect(published().map((e) => e.payload)).toEqual([
+      { event: 'LOAD_CODERS', status: 'SUCCESS', roundId: ROUND_ID, rowsRead: 3, rowsWritten: 3 },
+      { event: 'LOAD_RATINGS', status: 'SUCCESS', roundId: ROUND_ID, rowsRead: 6, rowsWritten: 6 },
+    ]);
+  });
+
+  test('loadCoders and loadRatings publish FAILURE when the warehouse fails', async () => {
+    await calculate();
+    producer.clear();
+    setWarehouseTarget(createTestTarget(new Error('warehouse down')));
+
+    await expect(service.loadCoders(ROUND_ID)).rejects.toThrow('warehouse down');
+    await expect(service.loadRatings(ROUND_ID)).rejects.toThrow('warehouse down');
+
+    const error = { name: 'Error', message: 'warehouse down' };
+    expect(published().map((e) => e.payload)).toEqual([
+      { event: 'LOAD_CODERS', status: 'FAILURE', roundId: ROUND_ID, error },
+      { event: 'LOAD_RATINGS', status: 'FAILURE', roundId: ROUND_ID, error },
+    ]);
+  });
+});
@@ -0,0 +1,97 @@
+/**
+ * Golden-file harness for the Qubits port.
+ *
+ * Each fixture in test/fixtures/qubits holds the input coders of a round and
+ * the expected output:
+ *   algorithm - one runQubitsAlgorithm pass over all coders
+ *   process   - what runRatingProcess writes (first-timers from the
+ *               provisional pass, experienced coders from the
+ *               non-provisional pass), or null when not applicable
+ *
+ * The expected values were captured from this port, not from the legacy
+ * Java service: the tests catch regressions of the port, they do not show
+ * that it matches Java.
+ */
+
+import * as fs from 'fs';
+import * as path from 'path';
+
+export const FIXTURE_DIR = path.join(__dirname, '..', 'fixtures', 'qubits');
+
+// Ranks are floating point; ratings and volatilities are compared exactly
+const RANK_TOLERANCE = 1e-6;
+
+export interface FixtureCoder {
+  coderId: number;
+  rating: number;
+  volatility: number;
+  numRatings: number;
+  score: number;
+}
+
+export interface ExpectedCoder {
+  coderId: number;
+  newRating: number | null;
+  newVolatility: number | null;
+  expectedRank?: number | null;
+  actualRank?: number | null;
+}
+
+export interface GoldenFixture {
+  name: string;
+  description: string;
+  notes?: string;
+  coders: FixtureCoder[];
+  algorithm: ExpectedCoder[];
+  process: ExpectedCoder[] | null;
+}
+
+export function loadFixtures(): GoldenFixture[] {
+  return fs
+    .readdirSync(FIXTURE_DIR)
+    .filter((file) => file.endsWith('.json'))
+    .sort()
+    .map((file) => JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), 'utf8')));
+}
+
+function same(field: keyof ExpectedCoder, expected: number | null, actual: number | null | undefined): boolean {
+  const a = actual === undefined || (actual !== null && Number.isNaN(actual)) ? null : actual;
+  if (expected === null || a === null) return expected === a;
+  if (field === 'expectedRank' || field === 'actualRank') {
+    return Math.abs(expected - a) <= RANK_TOLERANCE;
+  }
+  return expected === a;
+}
+
+/**
+ * Compare actual results with the expected ones; returns one line per
+ * differing field ("coder 1001 newRating: expected 1620, got 1618"), so a
+ * failing test lists every drift.
+ */
+export function diffCoders(
+  expected: ExpectedCoder[],
+  actual: Partial<Record<keyof ExpectedCoder, number | null>>[]
+): string[] {
+  const diffs: string[] = [];
+  const actualById = new Map(actual.map((c) => [c.coderId, c]));
+
+  for (const e of expected) {
+    const a = actualById.get(e.coderId);
+    if (!a) {
+      diffs.push(`coder ${e.coderId}: missing from the results`);
+      continue;
+    }
+    for (const field of Object.keys(e) as (keyof ExpectedCoder)[]) {
+      if (field === 'coderId') continue;
+      const expectedValue = e[field] ?? null;
+      if (!same(field, expectedValue, a[field])) {
+        diffs.push(`coder ${e.coderId} ${field}: expected ${expectedValue}, got ${a[field]}`);
+      }
+    }
+    actualById.delete(e.coderId);
+  }
+  for (const coderId of actualById.keys()) {
+    diffs.push(`coder ${coderId}: not expected in the results`);
+  }
+  return diffs;
+}
@@ -0,0 +1,26 @@
+/**
+ * Regression tests of runQubitsAlgorithm and of the provisional/non-provisional
+ * passes against the golden files (no database needed).
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { qubitsAlgorithm, runQubitsAlgorithm } from '../../src/libs/algorithm/AlgorithmQubits';
+import { ratePasses } from '../../src/libs/algorithm/RatingAlgorithm';
+import { diffCoders, loadFixtures } from './goldenHarness';
+
+const fixtures = loadFixtures();
+
+describe.each(fixtures.map((f) => [f.name, f] as const))('Qubits golden file: %s', (_name, fixture) => {
+  test('runQubitsAlgorithm matches the expected ratings and ranks', () => {
+    const rated = runQubitsAlgorithm(fixture.coders.map((c) => ({ ...c })));
+
+    expect(diffCoders(fixture.algorithm, rated)).toEqual([]);
+  });
+
+  const processTest = fixture.process ? test : test.skip;
+  processTest('provisional and non-provisional passes match the expected ratings', () => {
+    const { firstTimers, experienced } = ratePasses(qubitsAlgorithm, fixture.coders);
+
+    expect(diffCoders(fixture.process || [], [...firstTimers, ...experienced])).toEqual([]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Regression test of runRatingProcess against the golden files, through Postgres.
+ *
+ * Needs a migrated database: DATABASE_URL=postgresql://... npm test
+ * Skipped when DATABASE_URL is not set. Each fixture is loaded as its own
+ * round, with ids offset by ID_OFFSET so existing data is not touched, and
+ * removed afterwards.
+ */
+
+import { afterAll, beforeAll, describe, expect, test } from '@jest/globals';
+import { diffCoders, loadFixtures, GoldenFixture } from './goldenHarness';
+
+const ID_OFFSET = 900000000;
+const RATING_TYPE_ID = 3;
+
+const fixtures = loadFixtures().filter((f) => f.process);
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDb('runRatingProcess golden files (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+  let runRatingProcess: typeof import('../../src/services/MarathonRatingsService').runRatingProcess;
+
+  const roundIdOf = (index: number) => ID_OFFSET + index;
+  const allCoderIds = fixtures.flatMap((f) => f.coders.map((c) => ID_OFFSET + c.coderId));
+  const allRoundIds = fixtures.map((_f, i) => roundIdOf(i));
+
+  async function cleanUp(): Promise<void> {
+    await prisma.rating_history.deleteMany({ where: { round_id: { in: allRoundIds } } });
+    await prisma.rating_milestone.deleteMany({ where: { round_id: { in: allRoundIds } } });
+    await prisma.long_comp_result.deleteMany({ where: { round_id: { in: allRoundIds } } });
+    await prisma.algo_rating.deleteMany({
+      where: { coder_id: { in: allCoderIds }, algo_rating_type_id: RATING_TYPE_ID },
+    });
+    await prisma.round.deleteMany({ where: { round_id: { in: allRoundIds } } });
+  }
+
+  async function loadFixture(fixture: GoldenFixture, roundId: number): Promise<void> {
+    await prisma.round.create({
+      data: { round_id: roundId, rated_ind: 0, algo_rating_type_id: RATING_TYPE_ID },
+    });
+    await prisma.long_comp_result.createMany({
+      data: fixture.coders.map((c) => ({
+        round_id: roundId,
+        coder_id: ID_OFFSET + c.coderId,
+        attended: 'Y',
+        system_point_total: c.score,
+      })),
+    });
+    await prisma.algo_rating.createMany({
+      data: fixture.coders
+        .filter((c) => c.numRatings > 0)
+        .map((c) => ({
+          coder_id: ID_OFFSET + c.coderId,
+          algo_rating_type_id: RATING_TYPE_ID,
+          rating: c.rating,
+          vol: c.volatility,
+          num_ratings: c.numRatings,
+        })),
+    });
+  }
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+    ({ runRatingProcess } = await import('../../src/services/MarathonRatingsService'));
+    await cleanUp();
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await prisma.$disconnect();
+  });
+
+  test.each(fixtures.map((f, i) => [f.name, f, i] as const))(
+    '%s: persisted ratings match the expected ratings',
+    async (_name, fixture, index) => {
+      const roundId = roundIdOf(index);
+      await loadFixture(fixture, roundId);
+
+      await runRatingProcess(roundId);
+
+      const rows = await prisma.long_comp_result.findMany({ where: { round_id: roundId } });
+      const actual = rows.map((r) => ({
+        coderId: r.coder_id - ID_OFFSET,
+        newRating: r.new_rating,
+        newVolatility: r.new_vol,
+      }));
+      expect(diffCoders(fixture.process || [], actual)).toEqual([]);
+    }
+  );
+});
@@ -0,0 +1,81 @@
+/**
+ * A coder's rating timeline read from the rating history, through Postgres.
+ *
+ * Needs a migrated database: DATABASE_URL=postgresql://... npm test
+ * Skipped when DATABASE_URL is not set.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+
+const ROUNDS = { first: 901200000, second: 901200001, rolledBack: 901200002, third: 901200003 };
+const CODERS = { coder: 901200001, other: 901200002 };
+const RATING_TYPE_ID = 3;
+const SRM_RATING_TYPE_ID = 1;
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDb('getRatingTimeline (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+  let getRatingTimeline: typeof import('../../src/services/RatingHistoryService').getRatingTimeline;
+
+  async function cleanUp(): Promise<void> {
+    await prisma.rating_history.deleteMany({ where: { coder_id: { in: Object.values(CODERS) } } });
+  }
+
+  // A history row of a round rated on the given day of January 2026
+  const entry = (coderId: number, roundId: number, day: number, oldRating: number | null, newRating: number) => ({
+    coder_id: coderId,
+    round_id: roundId,
+    algo_rating_type_id: RATING_TYPE_ID,
+    old_rating: oldRating,
+    new_rating: newRating,
+    old_vol: oldRating === null ? null : 300,
+    new_vol: 300,
+    num_ratings: 1,
+    algorithm_version: 'qubits',
+    rated_at: new Date(Date.UTC(2026, 0, day)),
+  });
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+    ({ getRatingTimeline } = await import('../../src/services/RatingHistoryService'));
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    // Inserted out of round order
+    await prisma.rating_history.createMany({
+      data: [
+        entry(CODERS.coder, ROUNDS.third, 20, 1300, 1250),
+        entry(CODERS.coder, ROUNDS.first, 5, null, 1200),
+        { ...entry(CODERS.coder, ROUNDS.rolledBack, 15, 1300, 1600), rolled_back_at: new Date() },
+        entry(CODERS.coder, ROUNDS.second, 10, 1200, 1300),
+        { ...entry(CODERS.coder, ROUNDS.second, 10, null, 1500), algo_rating_type_id: SRM_RATING_TYPE_ID },
+        entry(CODERS.other, ROUNDS.second, 10, null, 1400),
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await prisma.$disconnect();
+  });
+
+  test("returns the coder's changes of the rating type in round order, without the rolled-back ones", async () => {
+    const timeline = await getRatingTimeline(CODERS.coder);
+
+    expect(timeline.map((e) => [e.roundId, e.oldRating, e.newRating, e.delta])).toEqual([
+      [ROUNDS.first, null, 1200, null],
+      [ROUNDS.second, 1200, 1300, 100],
+      [ROUNDS.third, 1300, 1250, -50],
+    ]);
+    expect(timeline.every((e) => e.ratingTypeId === RATING_TYPE_ID)).toBe(true);
+  });
+
+  test('reads the timeline of another rating type', async () => {
+    const timeline = await getRatingTimeline(CODERS.coder, SRM_RATING_TYPE_ID);
+
+    expect(timeline.map((e) => [e.roundId, e.newRating])).toEqual([[ROUNDS.second, 1500]]);
+  });
+});
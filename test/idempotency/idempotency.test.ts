@@ -0,0 +1,121 @@
+/**
+ * The processed-event ledger and the round locks, through Postgres.
+ *
+ * Needs a migrated database: DATABASE_URL=postgresql://... npm test
+ * Skipped when DATABASE_URL is not set.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+
+const EVENT_KEY = 'test:idempotency:900600000';
+const ROUND_ID = 900600000;
+const META = { topic: 'test.topic', roundId: ROUND_ID };
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDb('IdempotencyService (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+  let service: typeof import('../../src/services/IdempotencyService');
+
+  async function cleanUp(): Promise<void> {
+    await prisma.processed_event.deleteMany({ where: { event_key: EVENT_KEY } });
+    await prisma.round_lock.deleteMany({ where: { round_id: ROUND_ID } });
+  }
+
+  // A claim left by another instance, with its lease expiring in leaseMs
+  async function claimElsewhere(leaseMs: number): Promise<void> {
+    await prisma.processed_event.create({
+      data: {
+        event_key: EVENT_KEY,
+        topic: META.topic,
+        round_id: ROUND_ID,
+        status: 'PROCESSING',
+        owner: 'other-host:1',
+        lease_expires_at: new Date(Date.now() + leaseMs),
+      },
+    });
+  }
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+    service = await import('../../src/services/IdempotencyService');
+  });
+
+  beforeEach(cleanUp);
+
+  afterAll(async () => {
+    await cleanUp();
+    await prisma.$disconnect();
+  });
+
+  test('a completed event is skipped', async () => {
+    let runs = 0;
+    const handle = async () => {
+      runs += 1;
+    };
+
+    expect(await service.processEventOnce(EVENT_KEY, META, handle)).toBe(true);
+    expect(await service.processEventOnce(EVENT_KEY, META, handle)).toBe(false);
+
+    expect(runs).toBe(1);
+    expect(await prisma.processed_event.findUnique({ where: { event_key: EVENT_KEY } })).toMatchObject({
+      status: 'COMPLETED',
+      owner: service.INSTANCE_ID,
+      attempts: 1,
+    });
+  });
+
+  test('a failed event can be claimed again', async () => {
+    await expect(
+      service.processEventOnce(EVENT_KEY, META, async () => {
+        throw new Error('V5 unavailable');
+      })
+    ).rejects.toThrow('V5 unavailable');
+    expect(await prisma.processed_event.findUnique({ where: { event_key: EVENT_KEY } })).toMatchObject({
+      status: 'FAILED',
+      error: 'V5 unavailable',
+    });
+
+    expect(await service.processEventOnce(EVENT_KEY, META, async () => undefined)).toBe(true);
+    expect(await prisma.processed_event.findUnique({ where: { event_key: EVENT_KEY } })).toMatchObject({
+      status: 'COMPLETED',
+      error: null,
+      attempts: 2,
+    });
+  });
+
+  test('a live claim of another instance is retried, a stale one is taken over', async () => {
+    await claimElsewhere(60_000);
+    await expect(service.claimEvent(EVENT_KEY, META)).rejects.toBeInstanceOf(service.EventInProgressError);
+
+    await cleanUp();
+    await claimElsewhere(-1000);
+    expect(await service.claimEvent(EVENT_KEY, META)).toBe(true);
+    expect(await prisma.processed_event.findUnique({ where: { event_key: EVENT_KEY } })).toMatchObject({
+      status: 'PROCESSING',
+      owner: service.INSTANCE_ID,
+      attempts: 2,
+    });
+  });
+
+  test('a second lock of a round is refused until the first is released', async () => {
+    let refused: unknown;
+    await service.withRoundLock(ROUND_ID, async () => {
+      refused = await service.withRoundLock(ROUND_ID, async () => 'rated').catch((err) => err);
+    });
+
+    expect(refused).toBeInstanceOf(service.RoundLockedError);
+    expect((refused as InstanceType<typeof service.RoundLockedError>).owner).toMatch(service.INSTANCE_ID);
+    expect(await service.withRoundLock(ROUND_ID, async () => 'rated')).toBe('rated');
+    expect(await prisma.round_lock.findUnique({ where: { round_id: ROUND_ID } })).toBeNull();
+  });
+
+  test('an expired round lock is taken over', async () => {
+    await prisma.round_lock.create({
+      data: { round_id: ROUND_ID, owner: 'other-host:1:dead', expires_at: new Date(Date.now() - 1000) },
+    });
+
+    expect(await service.withRoundLock(ROUND_ID, async () => 'rated')).toBe('rated');
+  });
+});
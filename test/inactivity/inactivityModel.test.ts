@@ -0,0 +1,74 @@
+/**
+ * Adjustment of returning coders by the versioned inactivity models.
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { runQubitsAlgorithm } from '../../src/libs/algorithm/AlgorithmQubits';
+import { CoderRating } from '../../src/libs/algorithm/RatingAlgorithm';
+import {
+  applyInactivity,
+  createInactivityModel,
+  getInactivityModel,
+  registerInactivityModel,
+  VOLATILITY_V1_PARAMETERS,
+} from '../../src/libs/algorithm/InactivityModel';
+
+const coder = (coderId: number, rating: number, volatility: number, numRatings = 10): CoderRating => ({
+  coderId,
+  rating,
+  volatility,
+  numRatings,
+  score: 0,
+});
+
+describe('inactivity models', () => {
+  test('none leaves every coder as it is', () => {
+    const [adjusted] = applyInactivity(getInactivityModel('none'), [coder(1, 2000, 300)], new Map([[1, 5000]]));
+    expect(adjusted).toMatchObject({ rating: 2000, volatility: 300 });
+  });
+
+  test('volatility-v1 grows the volatility with the years away beyond the grace period', () => {
+    const model = getInactivityModel('volatility-v1');
+
+    expect(model.adjust(coder(1, 2000, 300), 180)).toMatchObject({ rating: 2000, volatility: 300 });
+    // 5.5 years beyond the grace period: sqrt(300^2 + 100^2 * 5.5)
+    expect(model.adjust(coder(1, 2000, 300), 180 + 5.5 * 365)).toMatchObject({ rating: 2000, volatility: 381 });
+    expect(model.adjust(coder(1, 2000, 300), 180 + 50 * 365).volatility).toBe(515);
+    expect(model.adjust(coder(1, 2000, 600), 180 + 50 * 365).volatility).toBe(600);
+  });
+
+  test('decay-v1 decays ratings above 1200, capped, and never below it', () => {
+    const model = getInactivityModel('decay-v1');
+
+    expect(model.adjust(coder(1, 2000, 300), 180 + 2 * 365).rating).toBe(1900);
+    expect(model.adjust(coder(1, 2000, 300), 180 + 20 * 365).rating).toBe(1700);
+    expect(model.adjust(coder(1, 1250, 300), 180 + 5 * 365).rating).toBe(1200);
+    expect(model.adjust(coder(1, 1000, 300), 180 + 5 * 365).rating).toBe(1000);
+  });
+
+  test('only returning coders with known days away are adjusted, on copies', () => {
+    const coders = [coder(1, 2000, 300), coder(2, 2000, 300), coder(3, 0, 0, 0)];
+    const adjusted = applyInactivity(getInactivityModel('decay-v1'), coders, new Map([[1, 3000], [3, 3000]]));
+
+    expect(adjusted.map((c) => c.rating)).toEqual([1700, 2000, 0]);
+    expect(coders[0].rating).toBe(2000);
+  });
+
+  test('a registered version cannot be replaced', () => {
+    expect(() => registerInactivityModel(createInactivityModel('volatility-v1', VOLATILITY_V1_PARAMETERS))).toThrow(
+      /already registered/
+    );
+  });
+
+  test('a returning coder moves further on the same result', () => {
+    const field = [coder(1, 1500, 300), coder(2, 1500, 300), coder(3, 1500, 300)];
+    field[0].score = 100;
+    field[1].score = 50;
+    const daysAway = new Map([[1, 180 + 10 * 365]]);
+
+    const [steady] = runQubitsAlgorithm(applyInactivity(getInactivityModel('none'), field, daysAway));
+    const [returning] = runQubitsAlgorithm(applyInactivity(getInactivityModel('volatility-v1'), field, daysAway));
+
+    expect(returning.newRating as number).toBeGreaterThan(steady.newRating as number);
+  });
+});
@@ -0,0 +1,84 @@
+/**
+ * Admin jobs left unfinished by a processor that stopped, through Postgres.
+ *
+ * Needs a migrated database: DATABASE_URL=postgresql://... npm test
+ * Skipped when DATABASE_URL is not set.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+
+const TRIGGERED_BY = 'ratingJobs.test';
+// JOB_HEARTBEAT_TIMEOUT of config/default.js
+const HEARTBEAT_TIMEOUT = 120000;
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDb('failInterruptedJobs (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+  let jobs: typeof import('../../src/services/RatingJobService');
+  let INSTANCE_ID: string;
+
+  async function cleanUp(): Promise<void> {
+    await prisma.rating_job.deleteMany({ where: { triggered_by: TRIGGERED_BY } });
+  }
+
+  // A job of the instance, last seen alive heartbeatAgeMs ago
+  async function createJob(instance: string, status: string, heartbeatAgeMs: number): Promise<number> {
+    const row = await prisma.rating_job.create({
+      data: {
+        operation: 'LOAD_CODERS',
+        round_id: null,
+        params: { roundId: 1 },
+        status,
+        triggered_by: TRIGGERED_BY,
+        instance,
+        heartbeat_at: new Date(Date.now() - heartbeatAgeMs),
+      },
+    });
+    return row.id;
+  }
+
+  const statusOf = async (id: number) => (await prisma.rating_job.findUnique({ where: { id } }))?.status;
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+    jobs = await import('../../src/services/RatingJobService');
+    ({ INSTANCE_ID } = await import('../../src/services/IdempotencyService'));
+  });
+
+  beforeEach(cleanUp);
+
+  afterAll(async () => {
+    await cleanUp();
+    await prisma.$disconnect();
+  });
+
+  test('fails the unfinished jobs of this instance, whatever their heartbeat', async () => {
+    const queued = await createJob(INSTANCE_ID, 'QUEUED', 0);
+    const running = await createJob(INSTANCE_ID, 'RUNNING', 0);
+    const succeeded = await createJob(INSTANCE_ID, 'SUCCEEDED', 0);
+
+    expect(await jobs.failInterruptedJobs()).toBe(2);
+
+    expect(await statusOf(queued)).toBe('FAILED');
+    expect(await statusOf(running)).toBe('FAILED');
+    expect(await statusOf(succeeded)).toBe('SUCCEEDED');
+    expect(await prisma.rating_job.findUnique({ where: { id: running } })).toMatchObject({
+      error: 'Interrupted: the processor stopped before the job finished',
+      finished_at: expect.any(Date),
+    });
+  });
+
+  test('fails the jobs of another instance only once their heartbeat expired', async () => {
+    const dead = await createJob('stopped-host:1', 'RUNNING', HEARTBEAT_TIMEOUT + 1000);
+    const deadQueued = await createJob('stopped-host:1', 'QUEUED', HEARTBEAT_TIMEOUT + 1000);
+    const alive = await createJob('running-host:1', 'RUNNING', 1000);
+
+    expect(await jobs.failInterruptedJobs()).toBe(2);
+
+    expect(await statusOf(dead)).toBe('FAILED');
+    expect(await statusOf(deadQueued)).toBe('FAILED');
+    expect(await statusOf(alive)).toBe('RUNNING');
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Milestones of a rating change (first rating, personal best, tier change)
+ * and their publication.
+ *
+ * The publication needs a migrated database: DATABASE_URL=postgresql://... npm test
+ * It is skipped when DATABASE_URL is not set; events are recorded by an
+ * in-memory producer.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+import { createInMemoryProducer, InMemoryProducer, setProducer } from '../../src/common/kafkaProducer';
+import {
+  detectMilestones,
+  getRatingTier,
+  publishRoundMilestones,
+  RatingMilestone,
+} from '../../src/services/RatingMilestoneService';
+
+const ROUND_ID = 900900000;
+const CODER_ID = 900900001;
+const RATING_TYPE_ID = 3;
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+const change = (oldRating: number | null, newRating: number, oldHighestRating: number | null = oldRating) =>
+  detectMilestones(ROUND_ID, RATING_TYPE_ID, { coderId: CODER_ID, oldRating, oldHighestRating, newRating });
+
+const types = (milestones: RatingMilestone[]) => milestones.map((m) => m.type);
+
+describe('getRatingTier', () => {
+  test.each([
+    [0, 'GRAY'],
+    [1199, 'GRAY'],
+    [1200, 'BLUE'],
+    [1499, 'BLUE'],
+    [1500, 'YELLOW'],
+    [2199, 'YELLOW'],
+    [2200, 'RED'],
+    [2999, 'RED'],
+    [3000, 'TARGET'],
+  ])('a rating of %i is %s', (rating, tier) => {
+    expect(getRatingTier(rating)).toBe(tier);
+  });
+});
+
+describe('detectMilestones', () => {
+  test('a first rating is only a FIRST_RATING, whatever its tier', () => {
+    expect(change(null, 1650)).toEqual([
+      {
+        coderId: CODER_ID,
+        roundId: ROUND_ID,
+        ratingTypeId: RATING_TYPE_ID,
+        type: 'FIRST_RATING',
+        oldRating: null,
+        newRating: 1650,
+        oldTier: null,
+        newTier: 'YELLOW',
+      },
+    ]);
+  });
+
+  test.each([
+    [1199, 1200, 'GRAY', 'BLUE'],
+    [1450, 1500, 'BLUE', 'YELLOW'],
+    [2150, 2200, 'YELLOW', 'RED'],
+    [2990, 3000, 'RED', 'TARGET'],
+    [1100, 2300, 'GRAY', 'RED'],
+  ])('a rise from %i to %i changes the tier from %s to %s', (oldRating, newRating, oldTier, newTier) => {
+    const milestones = change(oldRating, newRating);
+
+    expect(types(milestones)).toEqual(['PERSONAL_BEST', 'TIER_CHANGE']);
+    expect(milestones[1]).toMatchObject({ oldRating, newRating, oldTier, newTier });
+  });
+
+  test('a rise within a tier is a personal best only above the highest rating so far', () => {
+    expect(types(change(1300, 1400))).toEqual(['PERSONAL_BEST']);
+    expect(types(change(1300, 1400, 1450))).toEqual([]);
+    expect(types(change(1300, 1450, 1450))).toEqual([]);
+  });
+
+  test.each([
+    [1200, 1199, 'BLUE', 'GRAY'],
+    [1500, 1499, 'YELLOW', 'BLUE'],
+    [2200, 2199, 'RED', 'YELLOW'],
+    [3000, 2999, 'TARGET', 'RED'],
+  ])('a drop from %i to %i changes the tier from %s to %s', (oldRating, newRating, oldTier, newTier) => {
+    expect(change(oldRating, newRating)).toEqual([
+      expect.objectContaining({ type: 'TIER_CHANGE', oldRating, newRating, oldTier, newTier }),
+    ]);
+  });
+
+  test('a drop within a tier is no milestone', () => {
+    expect(change(1800, 1600)).toEqual([]);
+  });
+
+  test('a rise back into a former tier is a tier change, but no personal best', () => {
+    expect(types(change(1450, 1550, 1700))).toEqual(['TIER_CHANGE']);
+  });
+});
+
+describeWithDb('publishRoundMilestones (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+
+  async function cleanUp(): Promise<void> {
+    await prisma.rating_milestone.deleteMany({ where: { round_id: ROUND_ID } });
+  }
+
+  const unpublished = async () =>
+    (await prisma.rating_milestone.findMany({ where: { round_id: ROUND_ID, published_at: null } })).map(
+      (m) => m.milestone_type
+    );
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    await prisma.rating_milestone.createMany({
+      data: [...change(1450, 1550), ...change(null, 1200)].map((m) => ({
+        coder_id: m.coderId,
+        round_id: m.roundId,
+        algo_rating_type_id: m.ratingTypeId,
+        milestone_type: m.type,
+        old_rating: m.oldRating,
+        new_rating: m.newRating,
+        old_tier: m.oldTier,
+        new_tier: m.newTier,
+      })),
+    });
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    setProducer(null);
+    await prisma.$disconnect();
+  });
+
+  test('publishes the pending milestones of the round once', async () => {
+    const producer = createInMemoryProducer();
+    setProducer(producer);
+
+    expect(await publishRoundMilestones(ROUND_ID)).toBe(3);
+    expect(await publishRoundMilestones(ROUND_ID)).toBe(0);
+
+    expect(producer.messages.map((m) => JSON.parse(m.value).payload.milestone)).toEqual([
+      'PERSONAL_BEST',
+      'TIER_CHANGE',
+      'FIRST_RATING',
+    ]);
+    expect(await unpublished()).toEqual([]);
+  });
+
+  test('marks the sent milestones published and leaves the failed ones pending', async () => {
+    const inner = createInMemoryProducer();
+    const producer: InMemoryProducer = {
+      ...inner,
+      async send(topic: string, value: string) {
+        if (value.includes('"TIER_CHANGE"')) throw new Error('broker unavailable');
+        await inner.send(topic, value);
+      },
+    };
+    setProducer(producer);
+
+    expect(await publishRoundMilestones(ROUND_ID)).toBe(2);
+
+    expect(await unpublished()).toEqual(['TIER_CHANGE']);
+    setProducer(inner);
+    expect(await publishRoundMilestones(ROUND_ID)).toBe(1);
+    expect(await unpublished()).toEqual([]);
+  });
+});
@@ -0,0 +1,62 @@
+/**
+ * Throttling of the rating projections of a match in progress.
+ */
+
+import { afterEach, beforeEach, describe, expect, jest, test } from '@jest/globals';
+import { cancelProjections, scheduleProjection } from '../../src/services/ProvisionalRatingService';
+
+// PROVISIONAL_RATING_INTERVAL of config/default.js
+const INTERVAL = 60000;
+
+describe('scheduleProjection', () => {
+  beforeEach(() => {
+    jest.useFakeTimers();
+  });
+
+  afterEach(() => {
+    cancelProjections();
+    jest.useRealTimers();
+  });
+
+  test('runs the first projection at once and collapses the updates that follow', async () => {
+    const project = jest.fn(async () => undefined);
+
+    expect(scheduleProjection('c1', project)).toBe(true);
+    await jest.advanceTimersByTimeAsync(0);
+    expect(project).toHaveBeenCalledTimes(1);
+
+    expect(scheduleProjection('c1', project)).toBe(true);
+    expect(scheduleProjection('c1', project)).toBe(false);
+    expect(scheduleProjection('c1', project)).toBe(false);
+    await jest.advanceTimersByTimeAsync(INTERVAL - 1);
+    expect(project).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(1);
+    expect(project).toHaveBeenCalledTimes(2);
+  });
+
+  test('throttles each challenge on its own', async () => {
+    const project = jest.fn(async () => undefined);
+
+    scheduleProjection('c1', project);
+    scheduleProjection('c2', project);
+    await jest.advanceTimersByTimeAsync(0);
+
+    expect(project).toHaveBeenCalledTimes(2);
+  });
+
+  test('keeps throttling after a failed projection', async () => {
+    const project = jest.fn(async () => {
+      throw new Error('V5 API down');
+    });
+
+    scheduleProjection('c1', project);
+    await jest.advanceTimersByTimeAsync(0);
+    scheduleProjection('c1', project);
+    await jest.advanceTimersByTimeAsync(INTERVAL / 2);
+    expect(project).toHaveBeenCalledTimes(1);
+
+    await jest.advanceTimersByTimeAsync(INTERVAL / 2);
+    expect(project).toHaveBeenCalledTimes(2);
+  });
+});
@@ -0,0 +1,147 @@
+/**
+ * Projected ratings of a match in progress and their replacement by the
+ * final ones, against the V5 stub server, through Postgres.
+ *
+ * Needs a migrated database: DATABASE_URL=postgresql://... npm test
+ * Skipped when DATABASE_URL is not set.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+import { startV5StubServer, V5StubServer } from '../support/v5StubServer';
+
+const ROUND_ID = 900300000;
+const CODERS = { veteran: 900300001, newcomer: 900300002 };
+const RATING_TYPE_ID = 3;
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDb('provisional ratings (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+  let provisional: typeof import('../../src/services/ProvisionalRatingService');
+  let projectRatings: typeof import('../../src/services/MarathonRatingsService').projectRatings;
+  let stub: V5StubServer;
+
+  const projection = (coderId: number, newRating: number) => ({
+    coderId,
+    score: 50,
+    oldRating: null,
+    oldVolatility: null,
+    newRating,
+    newVolatility: 400,
+    expectedRank: 1,
+    actualRank: 1,
+  });
+
+  async function cleanUp(): Promise<void> {
+    await prisma.provisional_rating.deleteMany({ where: { round_id: ROUND_ID } });
+    await prisma.algo_rating.deleteMany({
+      where: { coder_id: { in: Object.values(CODERS) }, algo_rating_type_id: RATING_TYPE_ID },
+    });
+    await prisma.round.deleteMany({ where: { round_id: ROUND_ID } });
+  }
+
+  async function statuses(): Promise<Record<number, string>> {
+    const rows = await prisma.provisional_rating.findMany({ where: { round_id: ROUND_ID } });
+    return Object.fromEntries(rows.map((r) => [r.coder_id, r.status]));
+  }
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+    provisional = await import('../../src/services/ProvisionalRatingService');
+    ({ projectRatings } = await import('../../src/services/MarathonRatingsService'));
+    const { setV5Client } = await import('../../src/common/helper');
+    const { createV5Client } = await import('../../src/libs/v5/V5Client');
+    const { createTokenProvider } = await import('../../src/libs/v5/TokenProvider');
+
+    stub = await startV5StubServer();
+    setV5Client(
+      createV5Client({
+        baseUrl: stub.url,
+        tokenProvider: createTokenProvider({
+          auth0Url: '',
+          clientId: '',
+          clientSecret: '',
+          audience: '',
+          timeoutMs: 1000,
+          fallbackCacheTimeMs: 0,
+        }),
+        timeoutMs: 1000,
+        retry: { maxAttempts: 1, initialDelayMs: 0, maxDelayMs: 0, multiplier: 2 },
+        circuitBreaker: { failureThreshold: 100, resetTimeoutMs: 1000 },
+        rateLimit: 0,
+        maxPages: 10,
+      })
+    );
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    await prisma.round.create({ data: { round_id: ROUND_ID, rated_ind: 0, algo_rating_type_id: RATING_TYPE_ID } });
+    await prisma.algo_rating.create({
+      data: { coder_id: CODERS.veteran, algo_rating_type_id: RATING_TYPE_ID, rating: 1500, vol: 300, num_ratings: 5 },
+    });
+    stub.respond('/submissions', {
+      body: [
+        { memberId: CODERS.veteran, created: '2026-01-01', reviewSummation: [{ aggregateScore: 90 }] },
+        { memberId: CODERS.newcomer, created: '2026-01-01', reviewSummation: [{ aggregateScore: 70 }] },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await stub.close();
+    await prisma.$disconnect();
+  });
+
+  test('projectRatings stores projections and leaves algo_rating alone', async () => {
+    expect(await projectRatings('challenge-1', ROUND_ID, RATING_TYPE_ID)).toBe(2);
+
+    const projected = await provisional.getProvisionalRatings(ROUND_ID);
+    expect(projected).toMatchObject({ status: 'PROJECTED', ratingTypeId: RATING_TYPE_ID });
+    expect(projected?.coders.map((c) => c.coderId)).toEqual([CODERS.veteran, CODERS.newcomer]);
+    expect(projected?.coders[0]).toMatchObject({ score: 90, oldRating: 1500, oldVolatility: 300 });
+    const veteran = await prisma.algo_rating.findFirst({ where: { coder_id: CODERS.veteran } });
+    expect(veteran).toMatchObject({ rating: 1500, vol: 300, num_ratings: 5 });
+    expect(await prisma.algo_rating.count({ where: { coder_id: CODERS.newcomer } })).toBe(0);
+  });
+
+  test('projectRatings projects nothing once the round is rated', async () => {
+    await prisma.round.update({ where: { round_id: ROUND_ID }, data: { rated_ind: 1 } });
+
+    expect(await projectRatings('challenge-1', ROUND_ID, RATING_TYPE_ID)).toBe(0);
+    expect(await provisional.getProvisionalRatings(ROUND_ID)).toBeNull();
+  });
+
+  test('finalizeProjections replaces the projections with the final ratings', async () => {
+    await provisional.saveProjections(ROUND_ID, RATING_TYPE_ID, 'qubits-1.1', [
+      projection(CODERS.veteran, 1550),
+      projection(CODERS.newcomer, 1250),
+    ]);
+
+    await prisma.$transaction((tx) =>
+      provisional.finalizeProjections(tx, ROUND_ID, RATING_TYPE_ID, 'qubits-1.1', [projection(CODERS.veteran, 1560)])
+    );
+
+    expect(await statuses()).toEqual({ [CODERS.veteran]: 'FINAL' });
+    const final = await provisional.getProvisionalRatings(ROUND_ID);
+    expect(final).toMatchObject({ status: 'FINAL', coders: [{ coderId: CODERS.veteran, newRating: 1560 }] });
+  });
+
+  test('saveProjections refuses to overwrite final ratings', async () => {
+    await prisma.$transaction((tx) =>
+      provisional.finalizeProjections(tx, ROUND_ID, RATING_TYPE_ID, 'qubits-1.1', [projection(CODERS.veteran, 1560)])
+    );
+
+    const saved = await provisional.saveProjections(ROUND_ID, RATING_TYPE_ID, 'qubits-1.1', [
+      projection(CODERS.veteran, 1700),
+      projection(CODERS.newcomer, 1300),
+    ]);
+
+    expect(saved).toBe(false);
+    expect(await statuses()).toEqual({ [CODERS.veteran]: 'FINAL' });
+    const final = await provisional.getProvisionalRatings(ROUND_ID);
+    expect(final?.coders[0].newRating).toBe(1560);
+  });
+});
@@ -0,0 +1,99 @@
+/**
+ * Rating types rated from autopilot notifications, their triggers, and the
+ * rating type of a round.
+ *
+ * The rating type of a round needs a migrated database: DATABASE_URL=postgresql://... npm test
+ * It is skipped when DATABASE_URL is not set.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+
+// Read by config when the registry is imported
+process.env.ENABLED_RATING_TYPES = ' marathon_match, unknown_type ,';
+const ROUNDS = { srm: 901100000, marathon: 901100001, missing: 901100002 };
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+// Imported lazily: config reads ENABLED_RATING_TYPES on load
+let ratingTypes: typeof import('../../src/common/ratingTypes');
+
+beforeAll(async () => {
+  ratingTypes = await import('../../src/common/ratingTypes');
+});
+
+describe('getEnabledRatingTypes', () => {
+  test('returns the registered types named in ENABLED_RATING_TYPES, whatever their case', () => {
+    expect(ratingTypes.getEnabledRatingTypes().map((t) => t.name)).toEqual(['MARATHON_MATCH']);
+  });
+
+  test('a registered type stays disabled until it is named', () => {
+    ratingTypes.registerRatingType({ ...ratingTypes.SRM_RATING_TYPE, id: 901100, name: 'UNKNOWN_TYPE' });
+
+    expect(ratingTypes.getEnabledRatingTypes().map((t) => t.name)).toEqual(['MARATHON_MATCH', 'UNKNOWN_TYPE']);
+    expect(ratingTypes.getEnabledRatingTypes().map((t) => t.name)).not.toContain('SRM');
+  });
+});
+
+describe('isTriggeredBy', () => {
+  test.each([
+    ['Review', 'End', true],
+    ['review', 'end', true],
+    ['REVIEW', 'END', true],
+    ['Review', 'Start', false],
+    ['Submission', 'End', false],
+    [undefined, 'End', false],
+    ['Review', undefined, false],
+  ])('phase %s in state %s triggers the marathon match rating: %s', (phaseTypeName, state, triggered) => {
+    expect(ratingTypes.isTriggeredBy(ratingTypes.MARATHON_MATCH_RATING_TYPE, phaseTypeName, state)).toBe(triggered);
+  });
+
+  test('matches any of the triggers of the type', () => {
+    const type = {
+      ...ratingTypes.SRM_RATING_TYPE,
+      triggers: [
+        { phaseTypeName: 'Review', state: 'End' },
+        { phaseTypeName: 'Appeals Response', state: 'End' },
+      ],
+    };
+
+    expect(ratingTypes.isTriggeredBy(type, 'appeals response', 'end')).toBe(true);
+    expect(ratingTypes.isTriggeredBy(type, 'Appeals', 'End')).toBe(false);
+  });
+});
+
+describeWithDb('getRoundRatingTypeId (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+
+  async function cleanUp(): Promise<void> {
+    await prisma.round.deleteMany({ where: { round_id: { in: Object.values(ROUNDS) } } });
+  }
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    await prisma.round.createMany({
+      data: [
+        { round_id: ROUNDS.srm, algo_rating_type_id: ratingTypes.SRM_RATING_TYPE.id },
+        { round_id: ROUNDS.marathon, algo_rating_type_id: ratingTypes.MARATHON_MATCH_RATING_TYPE.id },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await prisma.$disconnect();
+  });
+
+  test('returns the rating type recorded on the round', async () => {
+    expect(await ratingTypes.getRoundRatingTypeId(ROUNDS.srm)).toBe(ratingTypes.SRM_RATING_TYPE.id);
+    expect(await ratingTypes.getRoundRatingTypeId(ROUNDS.marathon)).toBe(ratingTypes.MARATHON_MATCH_RATING_TYPE.id);
+  });
+
+  test('falls back to the default rating type for an unknown round', async () => {
+    expect(await ratingTypes.getRoundRatingTypeId(ROUNDS.missing)).toBe(ratingTypes.DEFAULT_RATING_TYPE_ID);
+  });
+});
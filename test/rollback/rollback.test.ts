@@ -0,0 +1,137 @@
+/**
+ * Rollback and re-rate of rated rounds, alone and with the rounds rated on
+ * top of them, through Postgres.
+ *
+ * Needs a migrated database: DATABASE_URL=postgresql://... npm test
+ * Skipped when DATABASE_URL is not set. Events are recorded by an in-memory
+ * producer.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+import { createInMemoryProducer, setProducer } from '../../src/common/kafkaProducer';
+
+const ROUNDS = { first: 900700000, second: 900700001 };
+const CODERS = [900700001, 900700002, 900700003];
+const RATING_TYPE_ID = 3;
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDb('rating rollback (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+  let rollback: typeof import('../../src/services/RatingRollbackService');
+  let runRatingProcess: typeof import('../../src/services/MarathonRatingsService').runRatingProcess;
+  let idempotency: typeof import('../../src/services/IdempotencyService');
+  const roundIds = Object.values(ROUNDS);
+
+  async function cleanUp(): Promise<void> {
+    await prisma.rating_history.deleteMany({ where: { round_id: { in: roundIds } } });
+    await prisma.rating_milestone.deleteMany({ where: { round_id: { in: roundIds } } });
+    await prisma.long_comp_result.deleteMany({ where: { round_id: { in: roundIds } } });
+    await prisma.algo_rating.deleteMany({ where: { coder_id: { in: CODERS }, algo_rating_type_id: RATING_TYPE_ID } });
+    await prisma.round_lock.deleteMany({ where: { round_id: { in: roundIds } } });
+    await prisma.round.deleteMany({ where: { round_id: { in: roundIds } } });
+  }
+
+  const ratings = () =>
+    prisma.algo_rating.findMany({
+      where: { coder_id: { in: CODERS }, algo_rating_type_id: RATING_TYPE_ID },
+      select: { coder_id: true, rating: true, vol: true, num_ratings: true, last_rated_round_id: true },
+      orderBy: { coder_id: 'asc' },
+    });
+
+  const roundState = async (roundId: number) => {
+    const round = await prisma.round.findUnique({ where: { round_id: roundId } });
+    const results = await prisma.long_comp_result.findMany({ where: { round_id: roundId } });
+    return { ratedInd: round?.rated_ind, status: round?.rating_status, newRatings: results.map((r) => r.new_rating) };
+  };
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+    rollback = await import('../../src/services/RatingRollbackService');
+    ({ runRatingProcess } = await import('../../src/services/MarathonRatingsService'));
+    idempotency = await import('../../src/services/IdempotencyService');
+    setProducer(createInMemoryProducer());
+  });
+
+  // Both rounds rated; the second one on top of the first (same coders)
+  beforeEach(async () => {
+    await cleanUp();
+    for (const [i, roundId] of roundIds.entries()) {
+      await prisma.round.create({ data: { round_id: roundId, rated_ind: 0, algo_rating_type_id: RATING_TYPE_ID } });
+      await prisma.long_comp_result.createMany({
+        data: CODERS.map((coderId, j) => ({
+          round_id: roundId,
+          coder_id: coderId,
+          attended: 'Y',
+          system_point_total: i === 0 ? 90 - j * 10 : 50 + j * 10,
+        })),
+      });
+    }
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    setProducer(null);
+    await prisma.$disconnect();
+  });
+
+  test('restores the ratings of before the round from the rating history', async () => {
+    await runRatingProcess(ROUNDS.first);
+    const afterFirst = await ratings();
+    await runRatingProcess(ROUNDS.second);
+    expect(await ratings()).not.toEqual(afterFirst);
+
+    const result = await rollback.rollbackRound(ROUNDS.second);
+
+    expect(result).toEqual({ roundId: ROUNDS.second, rolledBackRounds: [ROUNDS.second], restoredCoders: 3 });
+    expect(await ratings()).toEqual(afterFirst);
+    expect(await roundState(ROUNDS.second)).toEqual({ ratedInd: 0, status: 'PENDING', newRatings: [null, null, null] });
+    const history = await prisma.rating_history.findMany({ where: { round_id: ROUNDS.second } });
+    expect(history.every((h) => h.rolled_back_at !== null)).toBe(true);
+  });
+
+  test('rolls back the rounds rated on top of the round only with cascade', async () => {
+    await runRatingProcess(ROUNDS.first);
+    await runRatingProcess(ROUNDS.second);
+
+    await expect(rollback.rollbackRound(ROUNDS.first)).rejects.toBeInstanceOf(rollback.LaterRoundsRatedError);
+    const result = await rollback.rollbackRound(ROUNDS.first, { cascade: true });
+
+    expect(result.rolledBackRounds).toEqual([ROUNDS.second, ROUNDS.first]);
+    // First-ever ratings: nothing to restore
+    expect(await ratings()).toEqual([]);
+    expect((await roundState(ROUNDS.first)).status).toBe('PENDING');
+    expect((await roundState(ROUNDS.second)).status).toBe('PENDING');
+  });
+
+  test('refuses a cascade while a round rated on top of the round is locked', async () => {
+    await runRatingProcess(ROUNDS.first);
+    await runRatingProcess(ROUNDS.second);
+    const rated = await ratings();
+
+    await idempotency.withRoundLock(ROUNDS.second, async () => {
+      await expect(rollback.rollbackRound(ROUNDS.first, { cascade: true })).rejects.toBeInstanceOf(
+        idempotency.RoundLockedError
+      );
+    });
+
+    expect(await ratings()).toEqual(rated);
+    expect(await prisma.round_lock.findMany({ where: { round_id: { in: roundIds } } })).toEqual([]);
+  });
+
+  test('a cascaded re-rate rates every round again, holding their locks', async () => {
+    await runRatingProcess(ROUNDS.first);
+    await runRatingProcess(ROUNDS.second);
+    const rated = await ratings();
+
+    const result = await rollback.rerateRound(ROUNDS.first, { cascade: true });
+
+    expect(result.rerated.map((r) => [r.roundId, r.result.status])).toEqual([
+      [ROUNDS.first, 'SUCCESS'],
+      [ROUNDS.second, 'SUCCESS'],
+    ]);
+    expect(await ratings()).toEqual(rated);
+    expect(await prisma.round_lock.findMany({ where: { round_id: { in: roundIds } } })).toEqual([]);
+  });
+});
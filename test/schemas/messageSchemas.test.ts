@@ -0,0 +1,103 @@
+/**
+ * Validation of the Kafka messages against the schema of their topic, and of
+ * the milestone events the processor publishes.
+ */
+
+import config from 'config';
+import { describe, expect, test } from '@jest/globals';
+import {
+  MessageValidationError,
+  RATING_SERVICE_ORIGINATOR,
+  ratingMilestoneEventSchema,
+  validateMessage,
+} from '../../src/common/schemas';
+import { buildMilestoneEvent } from '../../src/services/RatingMilestoneService';
+
+const message = (topic: string, payload: unknown, originator = 'test') => ({
+  topic,
+  originator,
+  timestamp: '2026-01-01T00:00:00.000Z',
+  'mime-type': 'application/json',
+  payload,
+});
+
+const autopilotTopic = config.get('KAFKA_AUTOPILOT_NOTIFICATIONS_TOPIC') as string;
+const ratingServiceTopic = config.get('KAFKA_RATING_SERVICE_TOPIC') as string;
+const scoringTopic = config.get('KAFKA_SUBMISSION_SCORING_TOPIC') as string;
+
+function issuesOf(invalid: unknown): string[] {
+  try {
+    validateMessage(invalid);
+  } catch (err) {
+    expect(err).toBeInstanceOf(MessageValidationError);
+    return (err as MessageValidationError).issues.map((i) => i.path);
+  }
+  throw new Error('message was valid');
+}
+
+describe('validateMessage', () => {
+  test('accepts an autopilot notification and converts numeric strings', () => {
+    const valid = validateMessage(
+      message(autopilotTopic, { projectId: '30000001', phaseTypeName: 'Review', state: 'END' })
+    );
+    expect(valid.payload.projectId).toBe(30000001);
+  });
+
+  test('lists every invalid field of an autopilot notification', () => {
+    const invalid = { ...message(autopilotTopic, { projectId: -1, state: 'END' }), timestamp: 'yesterday' };
+    expect(issuesOf(invalid).sort()).toEqual(['payload.phaseTypeName', 'payload.projectId', 'timestamp']);
+  });
+
+  test('constrains the payload of rating-service events of the rating service only', () => {
+    const payload = { event: 'RATINGS_CALCULATION', status: 'SUCCESS', roundId: 12345 };
+    expect(validateMessage(message(ratingServiceTopic, payload, RATING_SERVICE_ORIGINATOR)).payload).toEqual(payload);
+    expect(issuesOf(message(ratingServiceTopic, { ...payload, event: 'UNKNOWN' }, RATING_SERVICE_ORIGINATOR))).toEqual([
+      'payload.event',
+    ]);
+    expect(validateMessage(message(ratingServiceTopic, { event: 'UNKNOWN' })).payload).toEqual({ event: 'UNKNOWN' });
+  });
+
+  test('requires the resource of a scoring update', () => {
+    expect(validateMessage(message(scoringTopic, { resource: 'review', submissionId: 's1' }))).toBeTruthy();
+    expect(issuesOf(message(scoringTopic, { submissionId: 's1' }))).toEqual(['payload.resource']);
+  });
+
+  test('passes messages of topics without a schema through', () => {
+    const other = { topic: 'other.topic', payload: 'anything' };
+    expect(validateMessage(other)).toBe(other);
+  });
+});
+
+describe('ratingMilestoneEventSchema', () => {
+  test('accepts the milestone events the processor publishes', () => {
+    const event = buildMilestoneEvent({
+      coderId: 1,
+      roundId: 2,
+      ratingTypeId: 3,
+      type: 'FIRST_RATING',
+      oldRating: null,
+      newRating: 1250,
+      oldTier: null,
+      newTier: 'BLUE',
+    });
+
+    expect(ratingMilestoneEventSchema.validate(event).error).toBeUndefined();
+  });
+
+  test('rejects an unknown milestone', () => {
+    const event = message('member.rating.milestone', {
+      milestone: 'UNKNOWN',
+      coderId: 1,
+      roundId: 2,
+      ratingTypeId: 3,
+      oldRating: 1100,
+      newRating: 1250,
+      oldTier: 'GRAY',
+      newTier: 'BLUE',
+    });
+
+    expect(ratingMilestoneEventSchema.validate(event).error?.details.map((d) => d.path.join('.'))).toEqual([
+      'payload.milestone',
+    ]);
+  });
+});
@@ -0,0 +1,193 @@
+/**
+ * Scores and places read from the V5 review summations, the tie-break they
+ * carry into the rating, and their storage.
+ *
+ * The storage needs a migrated database: DATABASE_URL=postgresql://... npm test
+ * It is skipped when DATABASE_URL is not set.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+import { runQubitsAlgorithm } from '../../src/libs/algorithm/AlgorithmQubits';
+import { CoderRating } from '../../src/libs/algorithm/RatingAlgorithm';
+import { CoderScore, ScoreMapping, scoreSubmissions } from '../../src/services/ScoreIngestionService';
+
+const mapping: ScoreMapping = { field: 'aggregateScore', filter: null, tieBreak: 'shared' };
+const ROUND_ID = 901000000;
+const CODERS = { unchanged: 901000001, rescored: 901000002, replaced: 901000003, rated: 901000004, new: 901000005 };
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+function submission(memberId: number, created: string, ...reviewSummation: object[]) {
+  return { memberId, created, reviewSummation };
+}
+
+describe('scoreSubmissions', () => {
+  test('reads the score of the most recent summation, rounded to 2 decimals', () => {
+    const scores = scoreSubmissions(
+      [
+        submission(
+          1,
+          '2026-01-01T10:00:00Z',
+          { aggregateScore: 50, created: '2026-01-02T00:00:00Z' },
+          { aggregateScore: 72.456, created: '2026-01-03T00:00:00Z' }
+        ),
+      ],
+      mapping
+    );
+
+    expect(scores).toEqual([{ coderId: 1, score: 72.46, submittedAt: new Date('2026-01-01T10:00:00Z'), placed: 1 }]);
+  });
+
+  test('applies the summation filter and the field path, and skips unscored members', () => {
+    const scores = scoreSubmissions(
+      [
+        submission(
+          1,
+          '2026-01-01T10:00:00Z',
+          { metadata: { testType: 'provisional', score: 90 }, created: '2026-01-03T00:00:00Z' },
+          { metadata: { testType: 'final', score: 80 }, created: '2026-01-02T00:00:00Z' }
+        ),
+        submission(2, '2026-01-01T10:00:00Z', { metadata: { testType: 'provisional', score: 95 } }),
+      ],
+      { ...mapping, field: 'metadata.score', filter: { path: 'metadata.testType', value: 'final' } }
+    );
+
+    expect(scores.map((s) => [s.coderId, s.score])).toEqual([[1, 80]]);
+  });
+
+  test('shares the place of equal scores by default', () => {
+    const scores = scoreSubmissions(
+      [
+        submission(1, '2026-01-01T12:00:00Z', { aggregateScore: 70 }),
+        submission(2, '2026-01-01T11:00:00Z', { aggregateScore: 90 }),
+        submission(3, '2026-01-01T10:00:00Z', { aggregateScore: 70 }),
+        submission(4, '2026-01-01T09:00:00Z', { aggregateScore: 60 }),
+      ],
+      mapping
+    );
+
+    expect(scores.map((s) => [s.coderId, s.placed])).toEqual([
+      [2, 1],
+      [1, 2],
+      [3, 2],
+      [4, 4],
+    ]);
+  });
+
+  test('places the earlier submission higher with earliest_submission', () => {
+    const scores = scoreSubmissions(
+      [
+        submission(1, '2026-01-01T12:00:00Z', { aggregateScore: 70 }),
+        submission(3, '2026-01-01T10:00:00Z', { aggregateScore: 70 }),
+      ],
+      { ...mapping, tieBreak: 'earliest_submission' }
+    );
+
+    expect(scores.map((s) => [s.coderId, s.placed])).toEqual([
+      [3, 1],
+      [1, 2],
+    ]);
+  });
+});
+
+describe('placed in the rating', () => {
+  const coder = (coderId: number, placed?: number): CoderRating => ({
+    coderId,
+    rating: 1500,
+    volatility: 300,
+    numRatings: 5,
+    score: 70,
+    ...(placed !== undefined ? { placed } : {}),
+  });
+
+  test('equal scores tie without places', () => {
+    const [a, b] = runQubitsAlgorithm([coder(1), coder(2)]);
+    expect(a.actualRank).toBe(1.5);
+    expect(b.actualRank).toBe(1.5);
+  });
+
+  test('distinct places break the tie', () => {
+    const [a, b] = runQubitsAlgorithm([coder(1, 2), coder(2, 1)]);
+    expect(a.actualRank).toBe(2);
+    expect(b.actualRank).toBe(1);
+    expect(b.newRating as number).toBeGreaterThan(a.newRating as number);
+  });
+
+  test('places are ignored unless every coder has one', () => {
+    // By place, 1 beats 2 but both would tie with 3
+    const ranks = runQubitsAlgorithm([coder(1, 1), coder(2, 2), coder(3)]).map((c) => c.actualRank);
+    expect(ranks).toEqual([2, 2, 2]);
+  });
+});
+
+describeWithDb('ingestScores (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+  let ingestScores: typeof import('../../src/services/ScoreIngestionService').ingestScores;
+
+  const score = (coderId: number, points: number, placed: number): CoderScore => ({
+    coderId,
+    score: points,
+    submittedAt: new Date('2026-01-01'),
+    placed,
+  });
+
+  async function cleanUp(): Promise<void> {
+    await prisma.long_comp_result.deleteMany({ where: { round_id: ROUND_ID } });
+  }
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+    ({ ingestScores } = await import('../../src/services/ScoreIngestionService'));
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    await prisma.long_comp_result.createMany({
+      data: [
+        { round_id: ROUND_ID, coder_id: CODERS.unchanged, system_point_total: 90, placed: 1 },
+        { round_id: ROUND_ID, coder_id: CODERS.rescored, system_point_total: 70, placed: 3 },
+        { round_id: ROUND_ID, coder_id: CODERS.replaced, system_point_total: 60, placed: 4 },
+        {
+          round_id: ROUND_ID,
+          coder_id: CODERS.rated,
+          system_point_total: 50,
+          placed: 5,
+          new_rating: 1500,
+          new_vol: 300,
+        },
+      ],
+    });
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await prisma.$disconnect();
+  });
+
+  test('creates the missing coders and refreshes the changed scores of the unrated ones', async () => {
+    const result = await prisma.$transaction((tx) =>
+      ingestScores(tx, ROUND_ID, [
+        score(CODERS.unchanged, 90, 1),
+        score(CODERS.rescored, 80.25, 2),
+        score(CODERS.replaced, 60, 3),
+        score(CODERS.rated, 95, 1),
+        score(CODERS.new, 40, 6),
+      ])
+    );
+
+    expect(result).toEqual({ created: 1, updated: 2 });
+    const rows = await prisma.long_comp_result.findMany({
+      where: { round_id: ROUND_ID },
+      orderBy: { coder_id: 'asc' },
+    });
+    expect(rows.map((r) => [r.coder_id, Number(r.system_point_total), r.placed])).toEqual([
+      [CODERS.unchanged, 90, 1],
+      [CODERS.rescored, 80.25, 2],
+      [CODERS.replaced, 60, 3],
+      [CODERS.rated, 50, 5],
+      [CODERS.new, 40, 6],
+    ]);
+    expect(rows.find((r) => r.coder_id === CODERS.new)?.attended).toBeNull();
+  });
+});
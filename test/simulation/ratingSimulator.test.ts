@@ -0,0 +1,101 @@
+/**
+ * Statistics of the simulation report and the in-memory replay of rounds.
+ */
+
+import { describe, expect, test } from '@jest/globals';
+import { qubitsAlgorithm } from '../../src/libs/algorithm/AlgorithmQubits';
+import { getInactivityModel } from '../../src/libs/algorithm/InactivityModel';
+import {
+  describeDistribution,
+  simulate,
+  SimulationRound,
+  spearman,
+} from '../../src/libs/simulation/RatingSimulator';
+
+const round = (roundId: number, scores: number[], roundDate?: Date): SimulationRound => ({
+  roundId,
+  roundDate,
+  results: scores.map((score, i) => ({ coderId: i + 1, score })),
+});
+
+describe('spearman', () => {
+  test('is 1 for the same order and -1 for the reverse order', () => {
+    expect(spearman([1, 2, 3, 4], [10, 20, 30, 40])).toBeCloseTo(1);
+    expect(spearman([1, 2, 3, 4], [40, 30, 20, 10])).toBeCloseTo(-1);
+  });
+
+  test('gives tied values their average rank', () => {
+    // Ranks [1, 2.5, 2.5, 4] against [1, 2, 3, 4]
+    expect(spearman([5, 7, 7, 9], [1, 2, 3, 4])).toBeCloseTo(4.5 / Math.sqrt(22.5));
+  });
+
+  test('is null for fewer than 2 values or a constant series', () => {
+    expect(spearman([1], [1])).toBeNull();
+    expect(spearman([3, 3, 3], [1, 2, 3])).toBeNull();
+  });
+});
+
+describe('describeDistribution', () => {
+  test('gives the moments, percentiles and histogram', () => {
+    const distribution = describeDistribution([400, 100, 300, 200, 250], 100);
+
+    expect(distribution).toMatchObject({ coders: 5, mean: 250, min: 100, max: 400 });
+    expect(distribution.stdDev).toBeCloseTo(Math.sqrt(10000));
+    expect(distribution.percentiles).toEqual({ p10: 100, p25: 200, p50: 250, p75: 300, p90: 400, p99: 400 });
+    expect(distribution.histogram).toEqual({ 100: 1, 200: 2, 300: 1, 400: 1 });
+  });
+
+  test('describes no ratings as zeros', () => {
+    expect(describeDistribution([])).toMatchObject({ coders: 0, mean: 0, stdDev: 0, min: 0, max: 0, histogram: {} });
+  });
+});
+
+describe('simulate', () => {
+  test('reports every round, the rated coders and the inflation', () => {
+    const report = simulate([round(1, [90, 60, 30]), round(2, [30, 60, 90, 50])], qubitsAlgorithm);
+
+    expect(report.rounds).toBe(2);
+    expect(report.inactivityModel).toBe('none');
+    expect(report.inflation.perRound.map((r) => [r.coders, r.ratedCoders])).toEqual([
+      [3, 3],
+      [4, 4],
+    ]);
+    const [first, second] = report.inflation.perRound;
+    expect(report.inflation.meanRatingChange).toBeCloseTo(second.meanRating - first.meanRating);
+    // New coders have equal expected ranks: nothing to correlate in the first round
+    expect(first.spearman).toBeNull();
+    expect(second.spearman).not.toBeNull();
+    expect(report.accuracy.meanSpearman).toBe(second.spearman);
+    expect(report.finalDistribution.coders).toBe(4);
+  });
+
+  test('separates equal scores by place', () => {
+    const tied = round(1, [50, 50]);
+    const placed: SimulationRound = {
+      ...tied,
+      results: tied.results.map((r, i) => ({ ...r, placed: i + 1 })),
+    };
+
+    const shared = simulate([tied], qubitsAlgorithm).finalDistribution;
+    const separated = simulate([placed], qubitsAlgorithm).finalDistribution;
+
+    expect(shared.max).toBe(shared.min);
+    expect(separated.max).toBeGreaterThan(separated.min);
+  });
+
+  test('adjusts coders returning after a long gap with the inactivity model', () => {
+    // Coder 1 wins the last round after ten years away; the others competed a month before
+    const rounds: SimulationRound[] = [
+      round(1, [90, 60, 30], new Date('2015-01-01')),
+      { roundId: 2, roundDate: new Date('2024-12-01'), results: [{ coderId: 2, score: 60 }, { coderId: 3, score: 30 }] },
+      round(3, [90, 60, 30], new Date('2025-01-01')),
+    ];
+
+    const steady = simulate(rounds, qubitsAlgorithm);
+    const adjusted = simulate(rounds, qubitsAlgorithm, { inactivityModel: getInactivityModel('volatility-v1') });
+
+    expect(adjusted.inactivityModel).toBe('volatility-v1');
+    // The bigger volatility moves the returning winner further up
+    expect(adjusted.finalDistribution.max).toBeGreaterThan(steady.finalDistribution.max);
+  });
+});
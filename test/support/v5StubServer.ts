@@ -0,0 +1,106 @@
+/**
+ * Local stub of the V5 API and of the Auth0 token endpoint, for tests.
+ *
+ * Responses are scripted per path: each request to a path takes the next
+ * queued response, and the last one is repeated once the queue is down to
+ * it. Every request is recorded (path, query, Authorization header).
+ *
+ *   const stub = await startV5StubServer();
+ *   stub.respond('/submissions', { status: 503 }, { body: [...], headers: { 'x-total-pages': '1' } });
+ *   const client = createV5Client({ baseUrl: stub.url, ... });
+ *   ...
+ *   await stub.close();
+ *
+ * POST /oauth/token issues token-1, token-2, ... with expires_in set by
+ * tokenExpiresIn (seconds; null to leave it out).
+ */
+
+import * as http from 'http';
+import { AddressInfo } from 'net';
+
+export interface StubResponse {
+  status?: number;
+  body?: unknown;
+  headers?: Record<string, string>;
+  // Wait this long before answering (to trigger timeouts)
+  delayMs?: number;
+}
+
+export interface StubRequest {
+  method: string;
+  path: string;
+  query: Record<string, string>;
+  authorization?: string;
+}
+
+export interface V5StubServer {
+  url: string;
+  tokenUrl: string;
+  requests: StubRequest[];
+  tokensIssued: number;
+  tokenExpiresIn: number | null;
+  respond(path: string, ...responses: StubResponse[]): void;
+  requestsTo(path: string): StubRequest[];
+  close(): Promise<void>;
+}
+
+export async function startV5StubServer(): Promise<V5StubServer> {
+  const scripts = new Map<string, StubResponse[]>();
+  const timers = new Set<NodeJS.Timeout>();
+
+  const stub: V5StubServer = {
+    url: '',
+    tokenUrl: '',
+    requests: [],
+    tokensIssued: 0,
+    tokenExpiresIn: 3600,
+    respond(path, ...responses) {
+      scripts.set(path, responses);
+    },
+    requestsTo(path) {
+      return stub.requests.filter((r) => r.path === path);
+    },
+    close() {
+      timers.forEach((t) => clearTimeout(t));
+      return new Promise((resolve) => {
+        server.closeAllConnections();
+        server.close(() => resolve());
+      });
+    },
+  };
+
+  const server = http.createServer((req, res) => {
+    const url = new URL(req.url || '/', 'http://localhost');
+    stub.requests.push({
+      method: req.method || 'GET',
+      path: url.pathname,
+      query: Object.fromEntries(url.searchParams),
+      authorization: req.headers.authorization,
+    });
+
+    if (req.method === 'POST' && url.pathname === '/oauth/token') {
+      stub.tokensIssued++;
+      const body: Record<string, unknown> = { access_token: `token-${stub.tokensIssued}` };
+      if (stub.tokenExpiresIn !== null) body.expires_in = stub.tokenExpiresIn;
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify(body));
+      return;
+    }
+
+    const queue = scripts.get(url.pathname) || [{ status: 404, body: { message: 'No stub response' } }];
+    const response = queue.length > 1 ? (queue.shift() as StubResponse) : queue[0];
+    const send = () => {
+      timers.delete(timer);
+      res.writeHead(response.status ?? 200, { 'Content-Type': 'application/json', ...response.headers });
+      res.end(JSON.stringify(response.body ?? []));
+    };
+    const timer = setTimeout(send, response.delayMs ?? 0);
+    timers.add(timer);
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const { port } = server.address() as AddressInfo;
+  stub.url = `http://127.0.0.1:${port}`;
+  stub.tokenUrl = `${stub.url}/oauth/token`;
+  return stub;
+}
@@ -0,0 +1,168 @@
+/**
+ * V5 client against the local stub server: retries, timeouts, token refresh,
+ * circuit breaker and pagination.
+ */
+
+import { afterEach, beforeEach, describe, expect, test } from '@jest/globals';
+import { CircuitOpenError } from '../../src/libs/v5/CircuitBreaker';
+import { createTokenProvider } from '../../src/libs/v5/TokenProvider';
+import { v5RequestDuration } from '../../src/common/metrics';
+import { createV5Client, endpointLabel, V5ClientOptions } from '../../src/libs/v5/V5Client';
+import { startV5StubServer, V5StubServer } from '../support/v5StubServer';
+
+let stub: V5StubServer;
+
+function client(overrides: Partial<V5ClientOptions> = {}) {
+  return createV5Client({
+    baseUrl: stub.url,
+    tokenProvider: createTokenProvider({
+      auth0Url: stub.tokenUrl,
+      clientId: 'client',
+      clientSecret: 'secret',
+      audience: 'https://api.topcoder.com',
+      timeoutMs: 1000,
+      fallbackCacheTimeMs: 3600000,
+    }),
+    timeoutMs: 1000,
+    retry: { maxAttempts: 3, initialDelayMs: 10, maxDelayMs: 20, multiplier: 2, jitter: 0.5 },
+    circuitBreaker: { failureThreshold: 5, resetTimeoutMs: 60000 },
+    rateLimit: 0,
+    maxPages: 10,
+    ...overrides,
+  });
+}
+
+beforeEach(async () => {
+  stub = await startV5StubServer();
+});
+
+afterEach(async () => {
+  await stub.close();
+});
+
+describe('V5 client', () => {
+  test('retries server errors and returns the first success', async () => {
+    stub.respond('/challenges', { status: 503 }, { status: 502 }, { body: [{ id: 'c1' }] });
+
+    const response = await client().get('/challenges', { legacyId: 30001 });
+
+    expect(response.body).toEqual([{ id: 'c1' }]);
+    expect(stub.requestsTo('/challenges')).toHaveLength(3);
+  });
+
+  test('does not retry client errors', async () => {
+    stub.respond('/challenges', { status: 400, body: { message: 'bad query' } });
+
+    await expect(client().get('/challenges')).rejects.toMatchObject({ status: 400 });
+    expect(stub.requestsTo('/challenges')).toHaveLength(1);
+  });
+
+  test('times out a slow call and retries it', async () => {
+    stub.respond('/challenges', { delayMs: 500, body: [] }, { body: [{ id: 'c1' }] });
+
+    const response = await client({ timeoutMs: 100 }).get('/challenges');
+
+    expect(response.body).toEqual([{ id: 'c1' }]);
+    expect(stub.requestsTo('/challenges')).toHaveLength(2);
+  });
+
+  test('refreshes the token after a 401', async () => {
+    stub.respond('/challenges', { status: 401 }, { body: [] });
+
+    await client().get('/challenges');
+
+    expect(stub.tokensIssued).toBe(2);
+    expect(stub.requestsTo('/challenges').map((r) => r.authorization)).toEqual([
+      'Bearer token-1',
+      'Bearer token-2',
+    ]);
+  });
+
+  test('keeps the token until expires_in and shares it between calls', async () => {
+    stub.respond('/challenges', { body: [] });
+    const v5 = client();
+    await Promise.all([v5.get('/challenges'), v5.get('/challenges')]);
+    await v5.get('/challenges');
+    expect(stub.tokensIssued).toBe(1);
+
+    stub.tokenExpiresIn = 0;
+    v5.tokenProvider.invalidate();
+    await v5.get('/challenges');
+    await v5.get('/challenges');
+    expect(stub.tokensIssued).toBe(3);
+  });
+
+  test('opens the circuit after repeated failures and fails fast', async () => {
+    stub.respond('/challenges', { status: 500 });
+    const v5 = client({ circuitBreaker: { failureThreshold: 2, resetTimeoutMs: 60000 } });
+
+    await expect(v5.get('/challenges')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(stub.requestsTo('/challenges')).toHaveLength(2);
+    expect(v5.circuit.getState()).toBe('OPEN');
+
+    await expect(v5.get('/challenges')).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(stub.requestsTo('/challenges')).toHaveLength(2);
+  });
+
+  test('closes the circuit again after a successful trial call', async () => {
+    stub.respond('/challenges', { status: 500 }, { body: [] });
+    const v5 = client({
+      retry: { maxAttempts: 1, initialDelayMs: 0, maxDelayMs: 0, multiplier: 2 },
+      circuitBreaker: { failureThreshold: 1, resetTimeoutMs: 50 },
+    });
+
+    await expect(v5.get('/challenges')).rejects.toMatchObject({ status: 500 });
+    expect(v5.circuit.getState()).toBe('OPEN');
+
+    await new Promise((resolve) => setTimeout(resolve, 60));
+    await v5.get('/challenges');
+    expect(v5.circuit.getState()).toBe('CLOSED');
+  });
+});
+
+describe('V5 client metrics', () => {
+  test('label the endpoints with the ids templated', async () => {
+    stub.respond('/submissions/8f3a', { body: { id: '8f3a' } });
+
+    await client().get('/submissions/8f3a');
+
+    const endpoints = (await v5RequestDuration.get()).values.map((v) => v.labels.endpoint);
+    expect(endpoints).toContain('/submissions/:id');
+    expect(endpoints).not.toContain('/submissions/8f3a');
+    expect(endpointLabel('/challenges')).toBe('/challenges');
+    expect(endpointLabel('/challenges/c1')).toBe('/challenges/:id');
+  });
+});
+
+describe('V5 client pagination', () => {
+  test('follows X-Total-Pages', async () => {
+    stub.respond(
+      '/submissions',
+      { body: [{ id: 1 }, { id: 2 }], headers: { 'x-total-pages': '2' } },
+      { body: [{ id: 3 }], headers: { 'x-total-pages': '2' } }
+    );
+
+    const items = await client().getAll('/submissions', { challengeId: 'c1' }, 2);
+
+    expect(items.map((i) => i.id)).toEqual([1, 2, 3]);
+    expect(stub.requestsTo('/submissions').map((r) => r.query.page)).toEqual(['1', '2']);
+  });
+
+  test('stops at the first short page without X-Total-Pages', async () => {
+    stub.respond('/submissions', { body: [{ id: 1 }, { id: 2 }] }, { body: [{ id: 3 }] });
+
+    const items = await client().getAll('/submissions', {}, 2);
+
+    expect(items).toHaveLength(3);
+    expect(stub.requestsTo('/submissions')).toHaveLength(2);
+  });
+
+  test('gives up after maxPages full pages', async () => {
+    stub.respond('/submissions', { body: [{ id: 1 }] });
+
+    await expect(client({ maxPages: 3 }).getAll('/submissions', {}, 1)).rejects.toThrow(
+      'more than 3 pages'
+    );
+    expect(stub.requestsTo('/submissions')).toHaveLength(3);
+  });
+});
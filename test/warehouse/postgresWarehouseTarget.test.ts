@@ -0,0 +1,166 @@
+/**
+ * The Postgres warehouse target in a throw-away schema, and the watermarks of
+ * the round loads, through Postgres.
+ *
+ * Needs a migrated database: DATABASE_URL=postgresql://... npm test
+ * Skipped when DATABASE_URL is not set.
+ */
+
+import { afterAll, beforeAll, beforeEach, describe, expect, test } from '@jest/globals';
+import { RoundResultRow, WarehouseTarget } from '../../src/libs/warehouse/WarehouseTarget';
+
+const SCHEMA = `dw_test_${process.pid}`;
+const ROUND_ID = 900400000;
+const CODERS = [900400001, 900400002];
+const RATING_TYPE_ID = 3;
+
+const describeWithDb = process.env.DATABASE_URL ? describe : describe.skip;
+
+describeWithDb('PostgresWarehouseTarget (Postgres)', () => {
+  // Imported lazily: the Prisma client needs DATABASE_URL
+  let prisma: typeof import('../../src/common/prismaClient').prisma;
+  let warehouse: typeof import('../../src/services/DataWarehouseService');
+  let createTarget: typeof import('../../src/libs/warehouse/PostgresWarehouseTarget').createPostgresWarehouseTarget;
+  let target: WarehouseTarget;
+
+  const result = (coderId: number, newRating: number): RoundResultRow => ({
+    roundId: ROUND_ID,
+    coderId,
+    attended: 'Y',
+    systemPointTotal: 80.5,
+    oldRating: null,
+    oldVolatility: null,
+    newRating,
+    newVolatility: 400,
+  });
+
+  const count = async (table: string) => {
+    const [row] = await prisma.$queryRawUnsafe<{ count: bigint }[]>(`SELECT COUNT(*) AS count FROM "${SCHEMA}".${table}`);
+    return Number(row.count);
+  };
+
+  async function cleanUp(): Promise<void> {
+    await prisma.long_comp_result.deleteMany({ where: { round_id: ROUND_ID } });
+    await prisma.algo_rating.deleteMany({ where: { coder_id: { in: CODERS }, algo_rating_type_id: RATING_TYPE_ID } });
+    await prisma.round.deleteMany({ where: { round_id: ROUND_ID } });
+  }
+
+  beforeAll(async () => {
+    ({ prisma } = await import('../../src/common/prismaClient'));
+    warehouse = await import('../../src/services/DataWarehouseService');
+    ({ createPostgresWarehouseTarget: createTarget } = await import('../../src/libs/warehouse/PostgresWarehouseTarget'));
+  });
+
+  beforeEach(async () => {
+    await cleanUp();
+    // A fresh schema, and a target that creates it again
+    await prisma.$executeRawUnsafe(`DROP SCHEMA IF EXISTS "${SCHEMA}" CASCADE`);
+    target = createTarget(SCHEMA, prisma);
+    warehouse.setWarehouseTarget(target);
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await prisma.$executeRawUnsafe(`DROP SCHEMA IF EXISTS "${SCHEMA}" CASCADE`);
+    warehouse.setWarehouseTarget(null);
+    await prisma.$disconnect();
+  });
+
+  test('ensureSchema creates the warehouse tables', async () => {
+    await target.ensureSchema();
+
+    const tables = await prisma.$queryRaw<{ table_name: string }[]>`
+      SELECT table_name::text FROM information_schema.tables WHERE table_schema = ${SCHEMA} ORDER BY table_name`;
+    expect(tables.map((t) => t.table_name)).toEqual([
+      'coder_rating_dim',
+      'load_watermark',
+      'long_comp_result_fact',
+      'round_rating_fact',
+    ]);
+  });
+
+  test('upserts write new and changed rows only', async () => {
+    const rows = [result(CODERS[0], 1500), result(CODERS[1], 1300)];
+
+    expect(await target.upsertRoundResults(rows)).toBe(2);
+    expect(await target.upsertRoundResults(rows)).toBe(0);
+    expect(await target.upsertRoundResults([result(CODERS[0], 1550), rows[1]])).toBe(1);
+    expect(await count('long_comp_result_fact')).toBe(2);
+
+    const ratings = rows.map((r) => ({
+      roundId: ROUND_ID,
+      coderId: r.coderId,
+      ratingTypeId: RATING_TYPE_ID,
+      rating: r.newRating,
+      volatility: r.newVolatility,
+      numRatings: 1,
+    }));
+    expect(await target.upsertRoundRatings(ratings)).toBe(2);
+    expect(await target.upsertRoundRatings(ratings)).toBe(0);
+    expect(await count('round_rating_fact')).toBe(2);
+  });
+
+  test('a watermark is kept per round and table', async () => {
+    const watermark = {
+      roundId: ROUND_ID,
+      table: 'round_rating_fact' as const,
+      ratedAt: new Date('2026-01-01T00:00:00Z'),
+      loadedAt: new Date('2026-01-01T01:00:00Z'),
+      rowsLoaded: 2,
+    };
+
+    expect(await target.getWatermark(ROUND_ID, 'round_rating_fact')).toBeNull();
+    await target.setWatermark(watermark);
+    await target.setWatermark({ ...watermark, ratedAt: new Date('2026-02-01T00:00:00Z'), rowsLoaded: 3 });
+
+    expect(await target.getWatermark(ROUND_ID, 'round_rating_fact')).toEqual({
+      ...watermark,
+      ratedAt: new Date('2026-02-01T00:00:00Z'),
+      rowsLoaded: 3,
+    });
+    expect(await target.getWatermark(ROUND_ID, 'long_comp_result_fact')).toBeNull();
+  });
+
+  test('loads skip a round already loaded and advance the watermark once it is rated again', async () => {
+    const firstRating = new Date('2026-01-01T00:00:00Z');
+    await prisma.round.create({
+      data: { round_id: ROUND_ID, rated_ind: 1, algo_rating_type_id: RATING_TYPE_ID, rating_finished_at: firstRating },
+    });
+    await prisma.long_comp_result.createMany({
+      data: CODERS.map((coderId, i) => ({
+        round_id: ROUND_ID,
+        coder_id: coderId,
+        attended: 'Y',
+        system_point_total: 90 - i * 10,
+        new_rating: 1500 - i * 200,
+        new_vol: 400,
+        rated_ind: 1,
+      })),
+    });
+    await prisma.algo_rating.createMany({
+      data: CODERS.map((coderId, i) => ({
+        coder_id: coderId,
+        algo_rating_type_id: RATING_TYPE_ID,
+        rating: 1500 - i * 200,
+        vol: 400,
+        num_ratings: 1,
+        last_rated_round_id: ROUND_ID,
+      })),
+    });
+
+    expect(await warehouse.loadRoundRatings(ROUND_ID)).toMatchObject({ rowsRead: 4, rowsWritten: 4 });
+    const loaded = await target.getWatermark(ROUND_ID, 'long_comp_result_fact');
+    expect(loaded).toMatchObject({ ratedAt: firstRating, rowsLoaded: 2 });
+
+    // Same rating: nothing is written, not even a changed row
+    await prisma.long_comp_result.updateMany({ where: { round_id: ROUND_ID }, data: { new_vol: 380 } });
+    expect(await warehouse.loadRoundRatings(ROUND_ID)).toMatchObject({ rowsWritten: 0 });
+    expect(await target.getWatermark(ROUND_ID, 'long_comp_result_fact')).toEqual(loaded);
+
+    const secondRating = new Date('2026-02-01T00:00:00Z');
+    await prisma.round.update({ where: { round_id: ROUND_ID }, data: { rating_finished_at: secondRating } });
+    expect(await warehouse.loadRoundRatings(ROUND_ID)).toMatchObject({ rowsWritten: 2 });
+    expect(await target.getWatermark(ROUND_ID, 'long_comp_result_fact')).toMatchObject({ ratedAt: secondRating });
+    expect(await count('long_comp_result_fact')).toBe(2);
+  });
+});